@@ -131,6 +131,41 @@ export function printEnvConfig(config: EnvConfig): void {
   logger.info(`WolframScript Path: ${config.WOLFRAM_SCRIPT_PATH}`);
   logger.info(`Default Timeout: ${config.DEFAULT_TIMEOUT}s`);
   logger.info(`Max Timeout: ${config.MAX_TIMEOUT}s`);
+  logger.info(`Progress Interval: ${config.PROGRESS_INTERVAL}s`);
+  logger.info(`Kernel Pool Size: ${config.KERNEL_POOL_SIZE}`);
+  logger.info(`Kernel Max Evaluations: ${config.KERNEL_MAX_EVALUATIONS}`);
+  logger.info(`Kernel Idle Timeout: ${config.KERNEL_IDLE_TIMEOUT}s`);
+  logger.info(`Session Idle TTL: ${config.SESSION_IDLE_TTL}s`);
+  logger.info(`Max Sessions Per Client: ${config.MAX_SESSIONS_PER_CLIENT}`);
+  logger.info(`Max Sessions: ${config.MAX_SESSIONS}`);
+  logger.info(`Max Memory: ${config.MAX_MEMORY_MB ? `${config.MAX_MEMORY_MB}MB` : 'unlimited'}`);
+  logger.info(`Max CPU Seconds: ${config.MAX_CPU_SECONDS || 'unlimited'}`);
+  logger.info(`Max Output Bytes: ${config.MAX_OUTPUT_BYTES || 'unlimited'}`);
+  logger.info(`Inline Output Limit: ${config.INLINE_OUTPUT_LIMIT ? `${config.INLINE_OUTPUT_LIMIT} characters` : 'unlimited'}`);
+  logger.info(`Output Retention: ${config.OUTPUT_RETENTION}s (max ${config.MAX_STORED_OUTPUTS} outputs)`);
+  logger.info(`Kernel Memory Limit: ${config.KERNEL_MEMORY_LIMIT_MB ? `${config.KERNEL_MEMORY_LIMIT_MB}MB` : 'none'}`);
+  logger.info(`Kernel Cgroup: ${config.KERNEL_CGROUP ?? '[NOT SET]'}`);
+  logger.info(`History Size: ${config.HISTORY_SIZE || 'disabled'}`);
+  logger.info(`Max Concurrent Executions: ${config.MAX_CONCURRENT_EXECUTIONS}`);
+  logger.info(`Max Queue Size: ${config.MAX_QUEUE_SIZE}`);
+  logger.info(`Queue Timeout: ${config.QUEUE_TIMEOUT}s`);
+  logger.info(`Image Format: ${config.IMAGE_FORMAT}`);
+  logger.info(`Image Width: ${config.IMAGE_WIDTH} (max ${config.MAX_IMAGE_WIDTH})`);
+  logger.info(`Image Resolution: ${config.IMAGE_RESOLUTION}dpi`);
+  logger.info(`Max Image Bytes: ${config.MAX_IMAGE_BYTES}`);
+  logger.info(`Max Images: ${config.MAX_IMAGES}`);
+  logger.info(`Workspace Roots: ${config.WORKSPACE_ROOTS.join(', ') || '[CURRENT DIRECTORY]'}`);
+  logger.info(`Sandbox Policy: ${config.SANDBOX_POLICY}`);
+  logger.info(`Sandbox Allowed Symbols: ${config.SANDBOX_ALLOW_SYMBOLS.join(', ') || '[NONE]'}`);
+  logger.info(`Sandbox Denied Symbols: ${config.SANDBOX_DENY_SYMBOLS.join(', ') || '[NONE]'}`);
+  logger.info(`Sandbox Allowed Contexts: ${config.SANDBOX_ALLOW_CONTEXTS.join(', ') || '[NONE]'}`);
+  logger.info(`Sandbox Denied Contexts: ${config.SANDBOX_DENY_CONTEXTS.join(', ') || '[NONE]'}`);
+  logger.info(`Result Cache: ${config.RESULT_CACHE_SIZE > 0 ? `${config.RESULT_CACHE_SIZE} entries, ${config.RESULT_CACHE_TTL}s TTL` : 'disabled'}`);
+  logger.info(`Result Cache Directory: ${config.RESULT_CACHE_DIR ?? '[NOT SET]'}`);
+  logger.info(`Package Management: ${config.ALLOW_PACKAGE_MANAGEMENT ?? `[DEFAULT: ${config.SANDBOX_POLICY === 'unrestricted'}]`}`);
+  logger.info(`Preload Packages: ${config.PRELOAD_PACKAGES.join(', ') || '[NONE]'}`);
+  logger.info(`Docs Cache Directory: ${config.DOCS_CACHE_DIR ?? '[DEFAULT]'}`);
+  logger.info(`Prompts Directory: ${config.PROMPTS_DIR ?? '[NOT SET]'}`);
   logger.info(`Log Level: ${config.LOG_LEVEL}`);
   logger.info('================================');
 }
@@ -5,6 +5,18 @@
 
 import { z } from 'zod';
 
+/**
+ * Sandbox policy presets, from most to least restrictive
+ */
+export const SandboxPresetSchema = z.enum(['strict', 'filesystem-readonly', 'unrestricted']);
+export type SandboxPreset = z.infer<typeof SandboxPresetSchema>;
+
+/**
+ * Comma-separated environment list, e.g. "Import,Export"
+ */
+const commaSeparatedList = () => z.string().default('')
+  .transform(value => value.split(',').map(item => item.trim()).filter(item => item.length > 0));
+
 /**
  * Environment configuration schema
  * Validates and provides defaults for all environment variables
@@ -23,19 +35,321 @@ export const EnvSchema = z.object({
   WOLFRAM_SCRIPT_PATH: z.string().default('wolframscript'),
   DEFAULT_TIMEOUT: z.coerce.number().int().min(1).max(86400).default(300),
   MAX_TIMEOUT: z.coerce.number().int().min(1).max(86400).default(86400),
+  PROGRESS_INTERVAL: z.coerce.number().int().min(1).max(3600).default(5)
+    .describe('Seconds between progress notifications when the client sends a progressToken'),
+
+  // Kernel pool
+  KERNEL_POOL_SIZE: z.coerce.number().int().min(1).max(64).default(1)
+    .describe('Number of warm Wolfram kernels kept running'),
+  KERNEL_MAX_EVALUATIONS: z.coerce.number().int().min(1).default(100)
+    .describe('Evaluations a pooled kernel serves before it is recycled'),
+  KERNEL_IDLE_TIMEOUT: z.coerce.number().int().min(0).default(1800)
+    .describe('Seconds an idle pooled kernel is kept alive (0 = never shut down)'),
+
+  // Sessions
+  SESSION_IDLE_TTL: z.coerce.number().int().min(1).default(1800)
+    .describe('Seconds an unused session is kept before it is closed'),
+  MAX_SESSIONS_PER_CLIENT: z.coerce.number().int().min(0).default(4)
+    .describe('Maximum number of open sessions per client (0 disables sessions)'),
+  MAX_SESSIONS: z.coerce.number().int().min(0).default(3)
+    .describe('Maximum number of open sessions across all clients, each holding an execution slot; must be less than MAX_CONCURRENT_EXECUTIONS (0 disables sessions)'),
+
+  // Resource limits
+  MAX_MEMORY_MB: z.coerce.number().int().min(0).default(4096)
+    .describe('Memory an evaluation may allocate inside the kernel, in MB (0 = unlimited)'),
+  MAX_CPU_SECONDS: z.coerce.number().int().min(0).default(0)
+    .describe('CPU seconds an evaluation may use (0 = unlimited)'),
+  MAX_OUTPUT_BYTES: z.coerce.number().int().min(0).default(16 * 1024 * 1024)
+    .describe('Bytes an evaluation may print or return (0 = unlimited)'),
+  KERNEL_MEMORY_LIMIT_MB: z.coerce.number().int().min(0).default(0)
+    .describe('OS-level memory cap for each kernel process, in MB (0 = none)'),
+  KERNEL_CGROUP: z.string().optional()
+    .describe('Delegated cgroup v2 directory; when set, KERNEL_MEMORY_LIMIT_MB is enforced with cgroups instead of rlimits'),
+
+  // Large outputs
+  INLINE_OUTPUT_LIMIT: z.coerce.number().int().min(0).default(20000)
+    .describe('Characters of an output returned inline; longer outputs are cut to a preview and stored as an mma://outputs resource (0 = no limit)'),
+  OUTPUT_RETENTION: z.coerce.number().int().min(1).default(3600)
+    .describe('Seconds a stored output stays readable'),
+  MAX_STORED_OUTPUTS: z.coerce.number().int().min(1).default(100)
+    .describe('Stored outputs kept at once; the oldest are dropped first'),
+
+  // Execution history
+  HISTORY_SIZE: z.coerce.number().int().min(0).default(1000)
+    .describe('Executions kept as mma://history resources; the oldest are dropped first (0 disables history)'),
+
+  // Execution scheduling
+  MAX_CONCURRENT_EXECUTIONS: z.coerce.number().int().min(1).max(256).default(4)
+    .describe('Evaluations allowed to run at once (keep within your Mathematica license seats)'),
+  MAX_QUEUE_SIZE: z.coerce.number().int().min(0).default(100)
+    .describe('Calls allowed to wait for a free slot before the server reports busy'),
+  QUEUE_TIMEOUT: z.coerce.number().int().min(0).default(60)
+    .describe('Seconds a call may wait in the queue (0 = wait indefinitely)'),
+
+  // Workspace
+  WORKSPACE_ROOTS: commaSeparatedList()
+    .describe('Directories code may use as working directory and access files in; the first is the default (defaults to the server\'s working directory)'),
+
+  // Graphics
+  IMAGE_FORMAT: z.enum(['png', 'svg', 'none']).default('png')
+    .describe('Format graphics results are returned in as MCP image content (none = text only)'),
+  IMAGE_WIDTH: z.coerce.number().int().min(16).max(8192).default(600)
+    .describe('Default image width in pixels (printer points for SVG)'),
+  IMAGE_RESOLUTION: z.coerce.number().int().min(36).max(600).default(72)
+    .describe('Default PNG resolution in dpi'),
+  MAX_IMAGE_WIDTH: z.coerce.number().int().min(16).max(8192).default(2000)
+    .describe('Largest image width a call may request'),
+  MAX_IMAGE_BYTES: z.coerce.number().int().min(1).default(1024 * 1024)
+    .describe('Largest encoded image returned; larger images are omitted'),
+  MAX_IMAGES: z.coerce.number().int().min(0).default(4)
+    .describe('Images returned per call; further graphics are omitted'),
+
+  // Sandbox
+  SANDBOX_POLICY: SandboxPresetSchema.default('filesystem-readonly')
+    .describe('Preset deciding which symbols and contexts evaluated code may use'),
+  SANDBOX_ALLOW_SYMBOLS: commaSeparatedList()
+    .describe('Symbols to allow even if the preset denies them'),
+  SANDBOX_DENY_SYMBOLS: commaSeparatedList()
+    .describe('Symbols to deny in addition to the preset'),
+  SANDBOX_ALLOW_CONTEXTS: commaSeparatedList()
+    .describe('Contexts to allow even if the preset denies them'),
+  SANDBOX_DENY_CONTEXTS: commaSeparatedList()
+    .describe('Contexts to deny in addition to the preset'),
+
+  // Result cache
+  RESULT_CACHE_SIZE: z.coerce.number().int().min(0).default(0)
+    .describe('Results of deterministic evaluations kept in memory (0 disables the cache)'),
+  RESULT_CACHE_TTL: z.coerce.number().int().min(1).default(86400)
+    .describe('Seconds a cached result may be served for'),
+  RESULT_CACHE_DIR: z.string().optional()
+    .describe('Directory storing cached results across restarts (unset = memory only)'),
+
+  // Packages
+  ALLOW_PACKAGE_MANAGEMENT: z.enum(['true', 'false']).optional()
+    .transform(value => value === undefined ? undefined : value === 'true')
+    .describe('Whether install_package and uninstall_package are offered; installed packages run outside the sandbox (defaults to true only when SANDBOX_POLICY is unrestricted)'),
+  PRELOAD_PACKAGES: commaSeparatedList()
+    .pipe(z.array(z.string().regex(/^[A-Za-z$][A-Za-z0-9$]*(`[A-Za-z$][A-Za-z0-9$]*)*`?$/, 'Expected package contexts such as FunctionApproximations`')))
+    .describe('Package contexts loaded in every kernel at startup and made available to every evaluation'),
+
+  // Symbol documentation
+  DOCS_CACHE_DIR: z.string().optional()
+    .describe('Directory caching symbol lookups per kernel version (default: mathematica-mcp-docs in the system temp directory)'),
+
+  // Prompts
+  PROMPTS_DIR: z.string().optional()
+    .describe('Directory of JSON prompt templates served next to the built-in ones'),
 
   // Logging
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
-});
+})
+  // Each session holds an execution slot, and the scheduler keeps one slot free for queued calls
+  .refine(config => config.MAX_SESSIONS === 0 || config.MAX_SESSIONS < config.MAX_CONCURRENT_EXECUTIONS, {
+    message: 'MAX_SESSIONS must be less than MAX_CONCURRENT_EXECUTIONS, since one evaluation slot always stays ' +
+      'free for calls outside sessions; raise MAX_CONCURRENT_EXECUTIONS or set MAX_SESSIONS=0 to disable sessions',
+    path: ['MAX_SESSIONS'],
+  });
 
 export type EnvConfig = z.infer<typeof EnvSchema>;
 
 /**
  * Output format enum for Mathematica execution
  */
-export const OutputFormatSchema = z.enum(['text', 'latex', 'mathematica']);
+export const OutputFormatSchema = z.enum([
+  'text', 'latex', 'mathematica', 'mathml', 'html', 'json', 'c', 'fortran', 'python', 'javascript',
+]);
 export type OutputFormat = z.infer<typeof OutputFormatSchema>;
 
+/**
+ * Kind of MathML the mathml format returns: presentation (layout, rendered by
+ * browsers) or content (meaning, for computer algebra tools)
+ */
+export const MathMLTypeSchema = z.enum(['presentation', 'content']);
+export type MathMLType = z.infer<typeof MathMLTypeSchema>;
+
+/**
+ * Output formats that translate the result into source code
+ */
+export const CodeFormatSchema = OutputFormatSchema.extract(['c', 'fortran', 'python', 'javascript']);
+export type CodeFormat = z.infer<typeof CodeFormatSchema>;
+
+/**
+ * Name usable as an identifier in all code formats
+ */
+const IdentifierSchema = z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'Expected an identifier');
+
+/**
+ * Function to wrap generated code in, instead of returning a bare expression
+ */
+export const FunctionDefinitionSchema = z.object({
+  name: IdentifierSchema,
+  args: z.array(IdentifierSchema).optional()
+    .describe('Argument names in order (default: the free variables of the result, sorted)'),
+});
+
+export type FunctionDefinition = z.infer<typeof FunctionDefinitionSchema>;
+
+/**
+ * Integer in the json format, with all its digits
+ */
+export const JsonIntegerSchema = z.object({
+  $type: z.literal('Integer'),
+  value: z.string().regex(/^-?\d+$/).describe('Decimal digits, e.g. "-12345678901234567890"'),
+});
+
+/**
+ * Real number in the json format.
+ * Machine reals keep their shortest round-trip digits; arbitrary-precision reals
+ * keep every digit of their precision.
+ */
+export const JsonRealSchema = z.object({
+  $type: z.literal('Real'),
+  value: z.string().describe('Decimal digits with an optional exponent, e.g. "3.14159" or "1.5e-300"'),
+  precision: z.number().nullable().describe('Precision in decimal digits (null for machine reals)'),
+});
+
+/**
+ * Exact fraction in the json format
+ */
+export const JsonRationalSchema = z.object({
+  $type: z.literal('Rational'),
+  numerator: z.string().regex(/^-?\d+$/),
+  denominator: z.string().regex(/^\d+$/),
+});
+
+/**
+ * Real number component of a complex number in the json format
+ */
+const JsonComplexPartSchema = z.union([JsonIntegerSchema, JsonRealSchema, JsonRationalSchema]);
+
+/**
+ * Complex number in the json format
+ */
+export const JsonComplexSchema = z.object({
+  $type: z.literal('Complex'),
+  re: JsonComplexPartSchema,
+  im: JsonComplexPartSchema,
+});
+
+/**
+ * Symbol in the json format, e.g. Pi or x
+ */
+export const JsonSymbolSchema = z.object({
+  $type: z.literal('Symbol'),
+  name: z.string(),
+  context: z.string().describe('Context of the symbol, e.g. "System`" or "Global`"'),
+});
+
+/**
+ * Atom without a dedicated mapping (ByteArray, SparseArray, ...) in the json format
+ */
+export const JsonAtomSchema = z.object({
+  $type: z.literal('Atom'),
+  head: z.string(),
+  inputForm: z.string().describe('The atom in InputForm'),
+});
+
+/**
+ * Value of the json format.
+ * Strings, True/False and Null become JSON strings, booleans and null; lists
+ * become arrays and associations with string keys become objects. Numbers,
+ * symbols and atoms become objects tagged with `$type`, and every other
+ * expression becomes an `Expression` tree of its head and arguments (as do
+ * associations with other keys or a "$type" key).
+ */
+export type WolframJson =
+  | string
+  | boolean
+  | null
+  | WolframJson[]
+  | z.infer<typeof JsonIntegerSchema>
+  | z.infer<typeof JsonRealSchema>
+  | z.infer<typeof JsonRationalSchema>
+  | z.infer<typeof JsonComplexSchema>
+  | z.infer<typeof JsonSymbolSchema>
+  | z.infer<typeof JsonAtomSchema>
+  | { $type: 'Expression'; head: WolframJson; args: WolframJson[] }
+  | { [key: string]: WolframJson };
+
+export const WolframJsonSchema: z.ZodType<WolframJson> = z.lazy(() => z.union([
+  z.string(),
+  z.boolean(),
+  z.null(),
+  z.array(WolframJsonSchema),
+  JsonIntegerSchema,
+  JsonRealSchema,
+  JsonRationalSchema,
+  JsonComplexSchema,
+  JsonSymbolSchema,
+  JsonAtomSchema,
+  z.object({
+    $type: z.literal('Expression'),
+    head: WolframJsonSchema,
+    args: z.array(WolframJsonSchema),
+  }),
+  // Objects from associations never carry a $type key
+  z.record(z.string(), WolframJsonSchema)
+    .refine(value => !('$type' in value), 'Objects with a $type key must match a tagged mapping'),
+]));
+
+/**
+ * Image formats for graphics results
+ */
+export const ImageFormatSchema = z.enum(['png', 'svg']);
+export type ImageFormat = z.infer<typeof ImageFormatSchema>;
+
+/**
+ * How graphics results are exported
+ */
+export const ImageOptionsSchema = z.object({
+  format: ImageFormatSchema,
+  width: z.number().int().min(16).describe('Image width in pixels (printer points for SVG)'),
+  resolution: z.number().int().min(36).describe('PNG resolution in dpi'),
+  maxBytes: z.number().int().min(1).describe('Largest encoded image returned'),
+  maxCount: z.number().int().min(0).describe('Images returned per call'),
+});
+
+export type ImageOptions = z.infer<typeof ImageOptionsSchema>;
+
+/**
+ * How a script file is run, as wolframscript -file would run it
+ */
+export const ScriptInvocationSchema = z.object({
+  file: z.string().describe('Real path of the script file, also the first entry of $ScriptCommandLine'),
+  arguments: z.array(z.string()).describe('Remaining entries of $ScriptCommandLine'),
+  stdin: z.string().describe('Text of $ScriptInputString'),
+});
+
+export type ScriptInvocation = z.infer<typeof ScriptInvocationSchema>;
+
+/**
+ * Image exported from a graphics result, returned as MCP image content
+ */
+export const ResultImageSchema = z.object({
+  mimeType: z.string().describe('image/png or image/svg+xml'),
+  data: z.string().describe('Base64-encoded image'),
+});
+
+export type ResultImage = z.infer<typeof ResultImageSchema>;
+
+/**
+ * Priority class used to order queued evaluations
+ */
+export const ExecutionPrioritySchema = z.enum(['high', 'normal', 'low']);
+export type ExecutionPriority = z.infer<typeof ExecutionPrioritySchema>;
+
+/**
+ * Message issued by the kernel during an evaluation, e.g. Power::infy
+ */
+export const KernelMessageSchema = z.object({
+  symbol: z.string().describe('Symbol the message belongs to, e.g. Power'),
+  tag: z.string().describe('Message tag, e.g. infy'),
+  text: z.string().describe('Rendered message text'),
+  count: z.number().int().describe('Number of times this message was issued'),
+});
+
+export type KernelMessage = z.infer<typeof KernelMessageSchema>;
+
 /**
  * Tool input schema for execute_mathematica
  */
@@ -43,39 +357,666 @@ export const ExecuteMathematicaInputSchema = z.object({
   code: z.string().min(1).describe('Mathematica code to execute'),
 
   format: OutputFormatSchema.default('text')
-    .describe('Output format: text (default), latex (TeXForm), or mathematica (InputForm)'),
+    .describe('Output format: text (default), latex (TeXForm), mathematica (InputForm), mathml, html (MathML in a div), json (see WolframJsonSchema), or code: c, fortran, python (NumPy), javascript'),
+
+  formats: z.array(OutputFormatSchema).min(1).max(OutputFormatSchema.options.length).optional()
+    .describe('Render the result in several formats from one evaluation, returned in `outputs`; the first is also `content`. Takes precedence over format'),
+
+  mathml_type: MathMLTypeSchema.default('presentation')
+    .describe('Presentation (default) or content MathML for the mathml format'),
 
   timeout: z.number().int().min(1).max(86400).optional()
     .describe('Execution timeout in seconds (overrides default, clamped to MAX_TIMEOUT)'),
 
   path: z.string().optional()
     .describe('Working directory for wolframscript execution'),
+
+  session_id: z.string().optional()
+    .describe('Evaluate in this session, keeping definitions across calls'),
+
+  priority: ExecutionPrioritySchema.default('normal')
+    .describe('Queue priority when the server is busy: high, normal (default), or low'),
+
+  fail_on_messages: z.boolean().default(false)
+    .describe('Fail the call if the kernel issues any message'),
+
+  quiet_messages: z.array(
+    z.string().regex(/^[A-Za-z$][A-Za-z0-9$`]*::[A-Za-z0-9$]+$/, 'Expected a message name like Power::infy')
+  ).max(100).optional()
+    .describe('Message names to suppress with Quiet, e.g. ["Power::infy"]'),
+
+  message_limit: z.number().int().min(1).max(1000).optional()
+    .describe('Times the same message is reported before General::stop suppresses it (default 3)'),
+
+  memory_limit: z.number().int().min(1).optional()
+    .describe('Memory the evaluation may allocate, in MB (clamped to MAX_MEMORY_MB)'),
+
+  cpu_limit: z.number().int().min(1).optional()
+    .describe('CPU seconds the evaluation may use (clamped to MAX_CPU_SECONDS)'),
+
+  cells: z.boolean().default(false)
+    .describe('Evaluate each top-level expression separately and return one entry per expression in `cells`'),
+
+  continue_on_error: z.boolean().default(false)
+    .describe('In cells mode, keep evaluating after a cell fails instead of stopping'),
+
+  function_name: IdentifierSchema.optional()
+    .describe('With a code format, emit a function definition with this name instead of a bare expression'),
+
+  function_args: z.array(IdentifierSchema).max(100).optional()
+    .describe('Argument names of the function definition (default: the free variables of the result, sorted)'),
+
+  cache: z.boolean().default(true)
+    .describe('Serve the result from the result cache when the server has one; false always evaluates'),
+
+  cache_ttl: z.number().int().min(1).optional()
+    .describe('Seconds this result may be served from the cache (clamped to RESULT_CACHE_TTL)'),
+
+  image_format: z.enum(['png', 'svg', 'none']).optional()
+    .describe('Format for graphics results returned as image content (default IMAGE_FORMAT; none = text only)'),
+
+  image_width: z.number().int().min(16).max(8192).optional()
+    .describe('Image width in pixels (clamped to MAX_IMAGE_WIDTH)'),
+
+  image_resolution: z.number().int().min(36).max(600).optional()
+    .describe('PNG resolution in dpi'),
+
+  dry_run: z.boolean().default(false)
+    .describe('Only parse the code and report syntax errors, as check_syntax does, without evaluating it'),
 });
 
 export type ExecuteMathematicaInput = z.infer<typeof ExecuteMathematicaInputSchema>;
 
+/**
+ * Tool input schema for execute_file: the execute_mathematica options, with a
+ * script file in place of the code
+ */
+export const ExecuteFileInputSchema = ExecuteMathematicaInputSchema.omit({ code: true }).extend({
+  file: z.string().min(1)
+    .describe('Script file (.m, .wl or .wls) inside the workspace; relative paths resolve against the default root'),
+
+  arguments: z.array(z.string().max(10_000)).max(100).default([])
+    .describe('Command-line arguments, available in $ScriptCommandLine after the file name'),
+
+  stdin: z.string().default('')
+    .describe('Text available to the script as $ScriptInputString'),
+
+  path: z.string().optional()
+    .describe('Working directory for the script (default: the directory of the file)'),
+});
+
+export type ExecuteFileInput = z.infer<typeof ExecuteFileInputSchema>;
+
+/**
+ * Wolfram Language symbol name, such as x or theta
+ */
+const WolframSymbolSchema = z.string().regex(/^[A-Za-z$][A-Za-z0-9$]*$/, 'Expected a symbol name such as x or theta');
+
+/**
+ * Wolfram Language expression, inserted into the generated code as one argument
+ */
+const WolframExpressionSchema = z.string().trim().min(1).max(100000);
+
+/**
+ * Options shared by the symbolic tools
+ */
+const SymbolicToolInputSchema = z.object({
+  format: OutputFormatSchema.default('text')
+    .describe('Output format of the result, as for execute_mathematica'),
+
+  timeout: z.number().int().min(1).max(86400).optional()
+    .describe('Execution timeout in seconds (overrides default, clamped to MAX_TIMEOUT)'),
+
+  session_id: z.string().optional()
+    .describe('Evaluate in this session, so expressions can use its definitions'),
+});
+
+export type SymbolicToolInput = z.infer<typeof SymbolicToolInputSchema>;
+
+/**
+ * Domains equations can be solved over
+ */
+export const SolveDomainSchema = z.enum([
+  'complexes', 'reals', 'integers', 'rationals', 'algebraics', 'primes', 'booleans',
+]);
+export type SolveDomain = z.infer<typeof SolveDomainSchema>;
+
+/**
+ * Tool input schema for solve_equations
+ */
+export const SolveEquationsInputSchema = SymbolicToolInputSchema.extend({
+  equations: z.array(WolframExpressionSchema).min(1).max(100)
+    .describe('Equations and inequalities, e.g. ["x^2 + y^2 == 1", "x == y"]'),
+  variables: z.array(WolframSymbolSchema).min(1).max(100)
+    .describe('Variables to solve for'),
+  domain: SolveDomainSchema.optional()
+    .describe('Domain of the variables (default: complexes)'),
+  assumptions: WolframExpressionSchema.optional()
+    .describe('Further conditions on the variables, e.g. "x > 0"'),
+  numeric: z.boolean().default(false)
+    .describe('Solve numerically with NSolve instead of Solve'),
+});
+
+export type SolveEquationsInput = z.infer<typeof SolveEquationsInputSchema>;
+
+/**
+ * Tool input schema for integrate
+ */
+export const IntegrateInputSchema = SymbolicToolInputSchema.extend({
+  expression: WolframExpressionSchema.describe('Integrand'),
+  variable: WolframSymbolSchema.describe('Variable of integration'),
+  lower: WolframExpressionSchema.optional().describe('Lower bound of a definite integral'),
+  upper: WolframExpressionSchema.optional().describe('Upper bound of a definite integral'),
+  assumptions: WolframExpressionSchema.optional()
+    .describe('Assumptions on parameters, e.g. "a > 0"'),
+  numeric: z.boolean().default(false)
+    .describe('Integrate numerically with NIntegrate; needs bounds'),
+})
+  .refine(input => (input.lower === undefined) === (input.upper === undefined), {
+    message: 'lower and upper must be given together',
+    path: ['upper'],
+  })
+  .refine(input => !input.numeric || input.lower !== undefined, {
+    message: 'numeric integration needs lower and upper bounds',
+    path: ['numeric'],
+  });
+
+export type IntegrateInput = z.infer<typeof IntegrateInputSchema>;
+
+/**
+ * Tool input schema for differentiate
+ */
+export const DifferentiateInputSchema = SymbolicToolInputSchema.extend({
+  expression: WolframExpressionSchema.describe('Expression to differentiate'),
+  variable: WolframSymbolSchema.describe('Variable to differentiate with respect to'),
+  order: z.number().int().min(1).max(100).default(1)
+    .describe('Order of the derivative'),
+  assumptions: WolframExpressionSchema.optional()
+    .describe('Assumptions used to simplify the derivative'),
+});
+
+export type DifferentiateInput = z.infer<typeof DifferentiateInputSchema>;
+
+/**
+ * Tool input schema for simplify
+ */
+export const SimplifyInputSchema = SymbolicToolInputSchema.extend({
+  expression: WolframExpressionSchema.describe('Expression to simplify'),
+  assumptions: WolframExpressionSchema.optional()
+    .describe('Assumptions, e.g. "x > 0 && Element[n, Integers]"'),
+  full: z.boolean().default(false)
+    .describe('Use FullSimplify, which tries more transformations and takes longer'),
+});
+
+export type SimplifyInput = z.infer<typeof SimplifyInputSchema>;
+
+/**
+ * Tool input schema for series_expand
+ */
+export const SeriesExpandInputSchema = SymbolicToolInputSchema.extend({
+  expression: WolframExpressionSchema.describe('Expression to expand'),
+  variable: WolframSymbolSchema.describe('Expansion variable'),
+  point: WolframExpressionSchema.default('0').describe('Expansion point'),
+  order: z.number().int().min(0).max(100).default(5)
+    .describe('Order of the expansion'),
+  assumptions: WolframExpressionSchema.optional()
+    .describe('Assumptions on parameters'),
+  normal: z.boolean().default(false)
+    .describe('Drop the O[x]^n remainder term and return a plain expression'),
+});
+
+export type SeriesExpandInput = z.infer<typeof SeriesExpandInputSchema>;
+
+/**
+ * Directions a limit can be taken from
+ */
+export const LimitDirectionSchema = z.enum(['both', 'from_above', 'from_below']);
+export type LimitDirection = z.infer<typeof LimitDirectionSchema>;
+
+/**
+ * Tool input schema for compute_limit
+ */
+export const ComputeLimitInputSchema = SymbolicToolInputSchema.extend({
+  expression: WolframExpressionSchema.describe('Expression to take the limit of'),
+  variable: WolframSymbolSchema.describe('Limit variable'),
+  point: WolframExpressionSchema.describe('Point the variable approaches, e.g. "0" or "Infinity"'),
+  direction: LimitDirectionSchema.default('both')
+    .describe('Two-sided limit, or the limit from above or below'),
+  assumptions: WolframExpressionSchema.optional()
+    .describe('Assumptions on parameters'),
+});
+
+export type ComputeLimitInput = z.infer<typeof ComputeLimitInputSchema>;
+
+/**
+ * Tool input schema for dsolve
+ */
+export const DsolveInputSchema = SymbolicToolInputSchema.extend({
+  equations: z.array(WolframExpressionSchema).min(1).max(100)
+    .describe('Differential equations and initial or boundary conditions, e.g. ["y\'[x] == y[x]", "y[0] == 1"]'),
+  functions: z.array(WolframSymbolSchema).min(1).max(100)
+    .describe('Unknown functions, e.g. ["y"]'),
+  variable: WolframSymbolSchema.describe('Independent variable'),
+});
+
+export type DsolveInput = z.infer<typeof DsolveInputSchema>;
+
+/**
+ * Queue statistics of a scheduled call
+ */
+export const QueueInfoSchema = z.object({
+  position: z.number().int().describe('Position in the queue when the call arrived (0 = started immediately)'),
+  depth: z.number().int().describe('Number of queued calls when the call arrived'),
+  waitTime: z.number().describe('Time spent waiting for a free slot in milliseconds'),
+});
+
+export type QueueInfo = z.infer<typeof QueueInfoSchema>;
+
+/**
+ * Result of one top-level expression in cells mode
+ */
+export const CellResultSchema = z.object({
+  input: z.string().describe('The expression in InputForm'),
+  output: z.string().describe('Formatted result (empty for Null)'),
+  messages: z.array(KernelMessageSchema).describe('Messages issued while evaluating the cell'),
+  timing: z.number().describe('Evaluation time in milliseconds'),
+  outputs: z.partialRecord(OutputFormatSchema, z.string()).optional()
+    .describe('The cell\'s result in each requested format (formats only)'),
+  error: z.string().optional()
+    .describe('Why the cell failed: it was aborted, evaluated to $Failed, issued a message or could not be translated into the code format'),
+});
+
+export type CellResult = z.infer<typeof CellResultSchema>;
+
+/**
+ * An output that was cut to a preview, with the resource holding its full text
+ */
+export const StoredOutputSchema = z.object({
+  uri: z.string().describe('mma://outputs resource with the full text, readable in pages'),
+  format: OutputFormatSchema,
+  cell: z.number().int().optional().describe('Index of the cell the output belongs to (cells mode only)'),
+  length: z.number().int().describe('Full length in characters'),
+  expiresAt: z.string().describe('When the stored output is dropped'),
+});
+
+export type StoredOutput = z.infer<typeof StoredOutputSchema>;
+
+/**
+ * Page of a stored output, from the query of an mma://outputs URI
+ */
+export const OutputPageQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0)
+    .describe('First character of the page'),
+  length: z.coerce.number().int().min(1).optional()
+    .describe('Characters in the page (default INLINE_OUTPUT_LIMIT)'),
+});
+
+export type OutputPageQuery = z.infer<typeof OutputPageQuerySchema>;
+
 /**
  * Execution result schema (internal)
  */
 export const ExecutionResultSchema = z.object({
   format: OutputFormatSchema,
   content: z.string().describe('Formatted output content'),
+  outputs: z.partialRecord(OutputFormatSchema, z.string()).optional()
+    .describe('Formatted output in each requested format, from a single evaluation (formats only)'),
   executionTime: z.number().optional().describe('Execution time in milliseconds'),
+  sessionId: z.string().optional().describe('Session the code was evaluated in'),
+  line: z.number().int().optional().describe('Out[n] index of the result (sessions only)'),
+  messages: z.array(KernelMessageSchema).optional().describe('Messages issued during the evaluation'),
+  queue: QueueInfoSchema.optional().describe('Queue statistics of the call'),
+  cells: z.array(CellResultSchema).optional().describe('Per-expression results (cells mode only)'),
+  images: z.array(ResultImageSchema).optional().describe('Graphics in the result, exported as images'),
+  imagesOmitted: z.number().int().optional()
+    .describe('Graphics not returned because of the image count or size limit, or a failed export'),
+  cached: z.boolean().optional()
+    .describe('Whether the result was served from the result cache (only when the server has one)'),
+  truncated: z.array(StoredOutputSchema).optional()
+    .describe('Outputs longer than INLINE_OUTPUT_LIMIT, cut to a preview; read the full text from their resources'),
 });
 
 export type ExecutionResult = z.infer<typeof ExecutionResultSchema>;
 
+/**
+ * A recorded execution, served as an mma://history/{id} resource
+ */
+export const HistoryEntrySchema = z.object({
+  id: z.string(),
+  uri: z.string(),
+  timestamp: z.string().describe('When the execution finished'),
+  tool: z.string().describe('Tool that ran the code'),
+  code: z.string(),
+  format: OutputFormatSchema,
+  formats: z.array(OutputFormatSchema).optional(),
+  sessionId: z.string().optional().describe('Session the code was evaluated in'),
+  clientId: z.string().describe('Client that ran the code'),
+  apiKey: z.string().optional()
+    .describe('Fingerprint of the API key the call authenticated with (HTTP only)'),
+  status: z.enum(['ok', 'error']),
+  result: ExecutionResultSchema.omit({ images: true }).optional()
+    .describe('Result as returned to the client, without image data (successful executions)'),
+  images: z.number().int().optional().describe('Number of images the result contained'),
+  error: z.object({
+    error: z.string(),
+    message: z.string(),
+  }).optional().describe('Why the execution failed (failed executions)'),
+  messages: z.array(KernelMessageSchema).describe('Messages issued during the evaluation'),
+  executionTime: z.number().describe('Time from the call to its result in milliseconds'),
+});
+
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+
+/**
+ * Filters of an mma://history listing, from the query of its URI
+ */
+export const HistoryQuerySchema = z.object({
+  session_id: z.string().optional()
+    .describe('Only executions in this session'),
+  api_key: z.string().optional()
+    .describe('Only executions authenticated with this API key fingerprint'),
+  limit: z.coerce.number().int().min(1).max(1000).default(50)
+    .describe('Most recent executions returned'),
+});
+
+export type HistoryQuery = z.infer<typeof HistoryQuerySchema>;
+
 /**
  * Execution options schema (internal)
  */
 export const ExecuteOptionsSchema = z.object({
   timeout: z.number().int().min(1),
   format: OutputFormatSchema,
+  formats: z.array(OutputFormatSchema).optional()
+    .describe('All formats to render the result in, including format (unset = format only)'),
   path: z.string().optional(),
+  sessionId: z.string().optional(),
+  clientId: z.string().optional(),
+  signal: z.custom<AbortSignal>().optional()
+    .describe('Aborting it cancels the evaluation and kills the kernel'),
+  onProgress: z.custom<(fraction: number, message: string) => void>().optional()
+    .describe('Called when the code reports progress via ReportProgress[fraction, message]'),
+  onOutput: z.custom<(line: string, stream: 'stdout' | 'stderr') => void>().optional()
+    .describe('Called for each line printed while the evaluation is running'),
+  failOnMessages: z.boolean().optional(),
+  quietMessages: z.array(z.string()).optional(),
+  messageLimit: z.number().int().min(1).optional(),
+  memoryLimitMb: z.number().int().min(0).optional()
+    .describe('MemoryConstrained limit in MB (0 or unset = unlimited)'),
+  cpuLimit: z.number().int().min(0).optional()
+    .describe('CPU seconds limit (0 or unset = unlimited)'),
+  maxOutputBytes: z.number().int().min(0).optional()
+    .describe('Output size limit in bytes (0 or unset = unlimited)'),
+  cells: z.boolean().optional()
+    .describe('Split the code into top-level expressions and evaluate them one by one'),
+  continueOnError: z.boolean().optional()
+    .describe('In cells mode, evaluate the remaining cells after one fails'),
+  images: ImageOptionsSchema.optional()
+    .describe('Export graphics in the result as images (unset = text only)'),
+  mathmlType: MathMLTypeSchema.optional()
+    .describe('Kind of MathML for the mathml format (default presentation)'),
+  functionDefinition: FunctionDefinitionSchema.optional()
+    .describe('With a code format, wrap the result in this function (unset = bare expression)'),
+  script: ScriptInvocationSchema.optional()
+    .describe('Run the code as this script file, with its command line and standard input'),
 });
 
 export type ExecuteOptions = z.infer<typeof ExecuteOptionsSchema>;
 
+/**
+ * Tool input schema for create_session
+ */
+export const CreateSessionInputSchema = z.object({
+  name: z.string().max(100).optional()
+    .describe('Optional human-readable label for the session'),
+});
+
+export type CreateSessionInput = z.infer<typeof CreateSessionInputSchema>;
+
+/**
+ * Tool input schema for close_session
+ */
+export const CloseSessionInputSchema = z.object({
+  session_id: z.string().min(1).describe('Session to close'),
+});
+
+export type CloseSessionInput = z.infer<typeof CloseSessionInputSchema>;
+
+/**
+ * Tool input schema for list_packages
+ */
+export const ListPackagesInputSchema = z.object({
+  query: z.string().max(200).optional()
+    .describe('Only list packages whose name, context or location contains this text (case-insensitive)'),
+});
+
+export type ListPackagesInput = z.infer<typeof ListPackagesInputSchema>;
+
+/**
+ * Tool input schema for install_package
+ */
+export const InstallPackageInputSchema = z.object({
+  path: z.string().min(1)
+    .describe('.paclet file or package directory inside the workspace roots'),
+});
+
+export type InstallPackageInput = z.infer<typeof InstallPackageInputSchema>;
+
+/**
+ * Tool input schema for uninstall_package
+ */
+export const UninstallPackageInputSchema = z.object({
+  name: z.string().min(1).max(200)
+    .regex(/^[A-Za-z$][A-Za-z0-9$_-]*`?$/, 'Expected a paclet or package name such as MyPackage')
+    .describe('Paclet name, or the name of a package directory installed by install_package'),
+});
+
+export type UninstallPackageInput = z.infer<typeof UninstallPackageInputSchema>;
+
+/**
+ * How a package is installed: as a paclet, or as a directory in
+ * $UserBaseDirectory/Applications, which is on $Path
+ */
+export const PackageKindSchema = z.enum(['paclet', 'application']);
+export type PackageKind = z.infer<typeof PackageKindSchema>;
+
+/**
+ * Installed paclet
+ */
+export const PacletInfoSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  location: z.string(),
+  contexts: z.array(z.string()).describe('Contexts the paclet provides, for Needs[]'),
+});
+
+export type PacletInfo = z.infer<typeof PacletInfoSchema>;
+
+/**
+ * Package file or directory found on $Path
+ */
+export const PathPackageSchema = z.object({
+  context: z.string().describe('Context to load with Needs[]'),
+  location: z.string(),
+});
+
+export type PathPackage = z.infer<typeof PathPackageSchema>;
+
+/**
+ * Load state of a package in PRELOAD_PACKAGES
+ */
+export const PreloadStatusSchema = z.object({
+  package: z.string(),
+  loaded: z.boolean().describe('Whether the package loaded the last time a kernel started'),
+  error: z.string().nullable().describe('Why loading failed, or null'),
+});
+
+export type PreloadStatus = z.infer<typeof PreloadStatusSchema>;
+
+/**
+ * Packages available to the kernels
+ */
+export const PackageListSchema = z.object({
+  paclets: z.array(PacletInfoSchema),
+  packages: z.array(PathPackageSchema).describe('Packages on $Path that are not paclets'),
+  preloaded: z.array(PreloadStatusSchema),
+});
+
+export type PackageList = z.infer<typeof PackageListSchema>;
+
+/**
+ * Package installed by install_package
+ */
+export const InstalledPackageSchema = z.object({
+  name: z.string(),
+  kind: PackageKindSchema,
+  version: z.string().nullable().describe('Paclet version; null for application directories'),
+  location: z.string(),
+  contexts: z.array(z.string()),
+});
+
+export type InstalledPackage = z.infer<typeof InstalledPackageSchema>;
+
+/**
+ * Package removed by uninstall_package
+ */
+export const UninstalledPackageSchema = z.object({
+  name: z.string(),
+  kind: PackageKindSchema,
+  removed: z.array(z.string()).describe('Locations that were removed'),
+});
+
+export type UninstalledPackage = z.infer<typeof UninstalledPackageSchema>;
+
+/**
+ * Tool input schema for check_syntax
+ */
+export const CheckSyntaxInputSchema = z.object({
+  code: z.string().min(1).describe('Mathematica code to parse'),
+});
+
+export type CheckSyntaxInput = z.infer<typeof CheckSyntaxInputSchema>;
+
+/**
+ * First syntax error found in code
+ */
+export const SyntaxErrorLocationSchema = z.object({
+  message: z.string(),
+  line: z.number().int().describe('Line of the error, counted from 1'),
+  column: z.number().int().describe('Column of the error, counted from 1'),
+  offset: z.number().int().describe('Characters before the error'),
+  token: z.string().nullable().describe('Text where parsing failed, or null if the code ended too early'),
+});
+
+export type SyntaxErrorLocation = z.infer<typeof SyntaxErrorLocationSchema>;
+
+/**
+ * Result of parsing code without evaluating it
+ */
+export const SyntaxCheckResultSchema = z.object({
+  valid: z.boolean(),
+  error: SyntaxErrorLocationSchema.nullable().describe('First syntax error, or null if the code is valid'),
+  expressions: z.array(z.string())
+    .describe('Top-level expressions in InputForm, up to the first error'),
+});
+
+export type SyntaxCheckResult = z.infer<typeof SyntaxCheckResultSchema>;
+
+/**
+ * Symbol name or Names[] pattern: * matches any characters, @ any lowercase letters
+ */
+const SymbolPatternSchema = z.string().min(1).max(200)
+  .regex(/^[A-Za-z$`*@][A-Za-z0-9$`*@]*$/, 'Expected a symbol name such as NDSolve, or a pattern such as *Plot*');
+
+/**
+ * Tool input schema for lookup_symbol
+ */
+export const LookupSymbolInputSchema = z.object({
+  symbol: SymbolPatternSchema
+    .describe('Symbol to document, e.g. NDSolve or System`ListPlot, or a pattern with * or @ to search names'),
+  limit: z.coerce.number().int().min(1).max(1000).default(100)
+    .describe('Names returned by a pattern search'),
+});
+
+export type LookupSymbolInput = z.infer<typeof LookupSymbolInputSchema>;
+
+/**
+ * Option of a symbol with its default value
+ */
+export const SymbolOptionSchema = z.object({
+  name: z.string(),
+  default: z.string().describe('Default value in InputForm'),
+});
+
+export type SymbolOption = z.infer<typeof SymbolOptionSchema>;
+
+/**
+ * Documentation of a symbol, taken from the local kernel
+ */
+export const SymbolDocumentationSchema = z.object({
+  name: z.string(),
+  context: z.string(),
+  usage: z.string().nullable().describe('Usage message, or null if the symbol has none'),
+  attributes: z.array(z.string()),
+  options: z.array(SymbolOptionSchema).describe('Options[] with their defaults'),
+  related: z.array(z.string()).describe('Symbols in the same context whose names contain this name'),
+  documentationUrl: z.string().nullable().describe('Reference page of System` symbols'),
+  kernelVersion: z.string(),
+});
+
+export type SymbolDocumentation = z.infer<typeof SymbolDocumentationSchema>;
+
+/**
+ * Names matching a pattern, taken from the local kernel
+ */
+export const SymbolSearchResultSchema = z.object({
+  pattern: z.string(),
+  total: z.number().int().describe('Number of matching names'),
+  names: z.array(z.string()).describe('Matching names in sorted order, up to the limit'),
+  kernelVersion: z.string(),
+});
+
+export type SymbolSearchResult = z.infer<typeof SymbolSearchResultSchema>;
+
+/**
+ * How a prompt argument is inserted into the template code
+ */
+export const PromptArgumentTypeSchema = z.enum(['expression', 'string', 'number']);
+export type PromptArgumentType = z.infer<typeof PromptArgumentTypeSchema>;
+
+/**
+ * Argument of a prompt template
+ */
+export const PromptTemplateArgumentSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/)
+    .describe('Argument name, used as ${name} in the code'),
+  description: z.string().min(1),
+  type: PromptArgumentTypeSchema.default('expression')
+    .describe('expression: inserted as Wolfram Language code; string: quoted; number: checked and inserted'),
+  default: z.string().optional()
+    .describe('Value used when the argument is omitted; arguments without one are required'),
+});
+
+export type PromptTemplateArgument = z.infer<typeof PromptTemplateArgumentSchema>;
+
+/**
+ * Prompt template, built in or loaded from PROMPTS_DIR
+ */
+export const PromptTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9-]*$/),
+  title: z.string().optional(),
+  description: z.string().min(1),
+  arguments: z.array(PromptTemplateArgumentSchema).default([]),
+  code: z.string().min(1)
+    .describe('Wolfram Language code for execute_mathematica, with ${name} placeholders'),
+  format: OutputFormatSchema.default('text')
+    .describe('Output format to request from execute_mathematica'),
+  instructions: z.string().optional()
+    .describe('Guidance on interpreting the result, appended to the prompt'),
+});
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
 /**
  * MCP error response schema
  */
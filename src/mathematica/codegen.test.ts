@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'bun:test';
+import type { CodeFormat, FunctionDefinition, WolframJson } from '../config/schema.ts';
+import { CodeGenerationError } from '../utils/errors.ts';
+import { generateCode } from './codegen.ts';
+
+const symbol = (name: string, context = 'Global`'): WolframJson => ({ $type: 'Symbol', name, context });
+const integer = (value: number | string): WolframJson => ({ $type: 'Integer', value: String(value) });
+const rational = (numerator: number, denominator: number): WolframJson => ({
+  $type: 'Rational',
+  numerator: String(numerator),
+  denominator: String(denominator),
+});
+const apply = (head: string, ...args: WolframJson[]): WolframJson => ({
+  $type: 'Expression',
+  head: symbol(head, 'System`'),
+  args,
+});
+
+const x = symbol('x');
+
+/**
+ * Generate code from a json tree, as if the kernel had returned it
+ */
+function generate(tree: WolframJson, format: CodeFormat, definition?: FunctionDefinition): string {
+  return generateCode(JSON.stringify(tree), format, definition);
+}
+
+/**
+ * Generate code from a json tree in every language
+ */
+function generateAll(tree: WolframJson): Record<CodeFormat, string> {
+  return {
+    c: generate(tree, 'c'),
+    fortran: generate(tree, 'fortran'),
+    python: generate(tree, 'python'),
+    javascript: generate(tree, 'javascript'),
+  };
+}
+
+describe('generateCode', () => {
+  test('writes powers with each language\'s operator or function', () => {
+    expect(generateAll(apply('Power', x, integer(2)))).toEqual({
+      c: 'pow(x, 2)',
+      fortran: 'x**2',
+      python: 'x**2',
+      javascript: 'Math.pow(x, 2)',
+    });
+    expect(generate(apply('Power', apply('Plus', x, integer(1)), symbol('y')), 'python')).toBe('(x + 1)**y');
+  });
+
+  test('writes square roots, reciprocals and exponentials as functions', () => {
+    expect(generate(apply('Power', x, rational(1, 2)), 'c')).toBe('sqrt(x)');
+    expect(generate(apply('Power', x, rational(-1, 2)), 'c')).toBe('1.0 / sqrt(x)');
+    expect(generate(apply('Power', x, integer(-1)), 'fortran')).toBe('1.0d0 / x');
+    expect(generate(apply('Power', x, integer(-2)), 'fortran')).toBe('1.0d0 / x**2');
+    expect(generate(apply('Power', symbol('E', 'System`'), x), 'javascript')).toBe('Math.exp(x)');
+  });
+
+  test('divides rationals in floating point', () => {
+    expect(generateAll(rational(1, 3))).toEqual({
+      c: '1.0 / 3.0',
+      fortran: '1.0d0 / 3.0d0',
+      python: '1 / 3',
+      javascript: '1 / 3',
+    });
+    expect(generate(apply('Times', rational(1, 2), x), 'c')).toBe('x / 2.0');
+    expect(generate(apply('Times', rational(-3, 4), x), 'c')).toBe('-3.0 * x / 4.0');
+    expect(generate(apply('Plus', integer(1), apply('Times', integer(-1), x)), 'python')).toBe('1 - x');
+  });
+
+  test('writes Piecewise as conditionals', () => {
+    const ramp = apply('Piecewise', [[x, apply('Greater', x, integer(0))]], integer(0));
+
+    expect(generateAll(ramp)).toEqual({
+      c: 'x > 0 ? x : 0',
+      fortran: 'merge(x, 0.0d0, x > 0.0d0)',
+      python: 'np.where(x > 0, x, 0)',
+      javascript: 'x > 0 ? x : 0',
+    });
+  });
+
+  test('translates constants and rejects unknown System symbols', () => {
+    expect(generateAll(apply('Times', integer(2), symbol('Pi', 'System`')))).toEqual({
+      c: '2 * M_PI',
+      fortran: '2.0d0 * acos(-1.0d0)',
+      python: '2 * np.pi',
+      javascript: '2 * Math.PI',
+    });
+    expect(generate(apply('Times', x, symbol('Degree', 'System`')), 'c')).toBe('x * (M_PI / 180.0)');
+    expect(generate(apply('DirectedInfinity', integer(-1)), 'python')).toBe('-np.inf');
+    expect(() => generate(symbol('Indeterminate', 'System`'), 'c')).toThrow(CodeGenerationError);
+  });
+
+  test('renames variables that clash with reserved identifiers', () => {
+    expect(generate(symbol('double'), 'c')).toBe('double_');
+    expect(generate(symbol('pow'), 'c')).toBe('pow_');
+    expect(generate(symbol('EXP'), 'fortran')).toBe('EXP_');
+    expect(generate(symbol('res'), 'fortran')).toBe('res_');
+    expect(generate(symbol('lambda'), 'python')).toBe('lambda_');
+    expect(generate(symbol('np'), 'python')).toBe('np_');
+    expect(generate(symbol('this'), 'javascript')).toBe('this_');
+    expect(generate(symbol('a$1'), 'javascript')).toBe('a$1');
+    expect(generate(symbol('a$1'), 'c')).toBe('a_1');
+  });
+
+  test('wraps the expression in a function definition', () => {
+    expect(generate(apply('Power', symbol('lambda'), integer(2)), 'python', { name: 'f' })).toBe(
+      'import numpy as np\n\n\ndef f(lambda_):\n    return lambda_**2'
+    );
+    expect(generate(apply('Plus', x, symbol('y')), 'c', { name: 'f', args: ['y', 'x'] })).toBe(
+      '#include <math.h>\n\ndouble f(double y, double x) {\n    return x + y;\n}'
+    );
+    expect(() => generate(apply('Plus', x, symbol('y')), 'javascript', { name: 'f', args: ['x'] }))
+      .toThrow('variables that are not arguments: y');
+    expect(() => generate([x, integer(1)], 'fortran', { name: 'f' })).toThrow('functions cannot return lists');
+  });
+
+  test('keeps integer Bessel orders and rejects others where only those exist', () => {
+    expect(generate(apply('BesselJ', integer(2), x), 'c')).toBe('jn(2, x)');
+    expect(generate(apply('BesselJ', integer(2), x), 'fortran')).toBe('bessel_jn(2, x)');
+    expect(() => generate(apply('BesselJ', x, x), 'c')).toThrow('BesselJ needs an integer order');
+  });
+
+  test('returns nothing for Null and fails on unreadable output', () => {
+    expect(generate(null, 'c')).toBe('');
+    expect(() => generateCode('not json', 'c')).toThrow(CodeGenerationError);
+  });
+});
@@ -0,0 +1,913 @@
+/**
+ * Code generation output formats.
+ * Translates the json tree of a result (see WolframJsonSchema) into C, Fortran,
+ * NumPy-style Python or JavaScript, either as a bare expression or as a
+ * function definition with named arguments.
+ */
+
+import {
+  CodeFormatSchema,
+  type CodeFormat,
+  type FunctionDefinition,
+  type OutputFormat,
+  type WolframJson,
+} from '../config/schema.ts';
+import { CodeGenerationError } from '../utils/errors.ts';
+import { parseJsonOutput } from './json-format.ts';
+
+/**
+ * Generated code and the precedence of its outermost operator
+ */
+interface Code {
+  text: string;
+  prec: number;
+}
+
+/**
+ * Operator precedence levels, loosest first
+ */
+const PREC = {
+  conditional: 0,
+  or: 1,
+  and: 2,
+  equality: 3,
+  relational: 4,
+  additive: 5,
+  multiplicative: 6,
+  unary: 7,
+  power: 8,
+  primary: 9,
+} as const;
+
+/**
+ * Longest Fortran line before it is continued with &
+ */
+const FORTRAN_LINE_LENGTH = 100;
+
+/**
+ * Expression node with a head and arguments
+ */
+type ExpressionNode = { $type: 'Expression'; head: WolframJson; args: WolframJson[] };
+
+/**
+ * Function translation: a target function name, or a builder taking the
+ * translated arguments
+ */
+type FunctionSpec = string | ((args: Code[]) => Code);
+
+/**
+ * How one target language writes literals, operators and functions
+ */
+interface Language {
+  /** Name used in error messages */
+  label: string;
+  /** Functions by Wolfram Language name */
+  functions: Record<string, FunctionSpec>;
+  /** Constants by Wolfram Language symbol name */
+  constants: Record<string, Code>;
+  /** Integer literal (digits without sign) */
+  integer(digits: string): string;
+  /** Integer literal where floating-point division must follow */
+  float(digits: string): string;
+  /** Real literal (digits without sign, InputForm with e for the exponent) */
+  real(digits: string): string;
+  boolean(value: boolean): string;
+  power(base: Code, exponent: Code): Code;
+  operators: { and: string; or: string; equal: string; unequal: string };
+  and(args: Code[]): Code;
+  or(args: Code[]): Code;
+  not(arg: Code): Code;
+  conditional(cases: Array<[Code, Code]>, otherwise: Code): Code;
+  list(items: Code[], nested: boolean): Code;
+  complex?(re: Code, im: Code): Code;
+  /** Variable or function name for a Wolfram Language symbol name */
+  identifier(name: string): string;
+  /** Whether a list can be the result of a function definition */
+  returnsLists: boolean;
+  definition(name: string, args: string[], body: string): string;
+}
+
+/**
+ * Wrap code in parentheses unless it binds at least as tightly as required
+ */
+function wrap(code: Code, minPrec: number): string {
+  return code.prec >= minPrec ? code.text : `(${code.text})`;
+}
+
+function call(name: string, args: Code[]): Code {
+  return { text: `${name}(${args.map(arg => arg.text).join(', ')})`, prec: PREC.primary };
+}
+
+/**
+ * Join operands with a left-associative binary operator
+ */
+function infix(args: Code[], operator: string, prec: number): Code {
+  if (args.length === 1) {
+    return args[0]!;
+  }
+
+  return {
+    text: args.map((arg, i) => wrap(arg, i === 0 ? prec : prec + 1)).join(` ${operator} `),
+    prec,
+  };
+}
+
+/**
+ * Apply a binary function to any number of arguments by nesting it
+ */
+function nested(name: string): (args: Code[]) => Code {
+  return args => args.slice(1).reduce((acc, arg) => call(name, [acc, arg]), args[0] ?? call(name, []));
+}
+
+/**
+ * Bessel function of integer order, for libraries that only have those,
+ * e.g. BesselJ[2, x] -> jn(2, x). The order must be an integer literal.
+ * @param wolframName - BesselJ or BesselY, for the error message
+ * @param name - Target function taking (order, x)
+ * @param label - Language name, for the error message
+ */
+function integerOrderBessel(wolframName: string, name: string, label: string): FunctionSpec {
+  return ([order, x]) => {
+    // Integer literals may carry a real suffix, e.g. 2.0d0 in Fortran
+    const digits = order?.text.match(/^-?\d+(?=(?:\.0(?:d0)?)?$)/)?.[0];
+
+    if (digits === undefined || x === undefined) {
+      throw new CodeGenerationError(label, `${wolframName} needs an integer order`);
+    }
+
+    return call(name, [{ text: digits, prec: PREC.primary }, x]);
+  };
+}
+
+/**
+ * Build the identifier mapping of a language. Names it reserves, or that the
+ * generated code itself refers to, get a trailing _, e.g. lambda -> lambda_;
+ * $ becomes _ unless the language allows it.
+ * @param reserved - Keywords and names used by generated code
+ * @param options - Whether $ is allowed, and whether names ignore case
+ */
+function identifiers(
+  reserved: string[],
+  options: { dollar?: boolean; ignoreCase?: boolean } = {}
+): (name: string) => string {
+  const fold = (name: string) => (options.ignoreCase ? name.toLowerCase() : name);
+  const names = new Set(reserved.map(fold));
+
+  return name => {
+    const identifier = options.dollar ? name : name.replace(/\$/g, '_');
+    return names.has(fold(identifier)) ? `${identifier}_` : identifier;
+  };
+}
+
+/**
+ * Names that generated code refers to through a function table: the function
+ * names, or for qualified names such as np.exp, the module
+ */
+function functionNames(functions: Record<string, FunctionSpec>): string[] {
+  return Object.values(functions)
+    .filter((spec): spec is string => typeof spec === 'string')
+    .map(spec => spec.split('.')[0]!);
+}
+
+/**
+ * Target names of the functions the others are derived from
+ */
+interface BasicFunctionNames {
+  exp: string;
+  sqrt: string;
+  sin: string;
+  cos: string;
+  tan: string;
+  atan: string;
+  atan2: string;
+  log: string;
+}
+
+/**
+ * Build the functions every language derives from its basic ones: Exp and Sqrt
+ * (which results only contain as powers), reciprocal trigonometric functions,
+ * ArcTan[x, y] and Log[b, x]
+ */
+function derivedFunctions(one: string, names: BasicFunctionNames): Record<string, FunctionSpec> {
+  const unit: Code = { text: one, prec: PREC.primary };
+  const reciprocal = (name: string): FunctionSpec => args =>
+    infix([unit, call(name, args)], '/', PREC.multiplicative);
+
+  return {
+    Exp: names.exp,
+    Sqrt: names.sqrt,
+    Sin: names.sin,
+    Cos: names.cos,
+    Tan: names.tan,
+    Sec: reciprocal(names.cos),
+    Csc: reciprocal(names.sin),
+    Cot: reciprocal(names.tan),
+    // ArcTan[x, y] is the angle of the point (x, y)
+    ArcTan: args => args.length === 2
+      ? call(names.atan2, [args[1]!, args[0]!])
+      : call(names.atan, args),
+    Log: args => args.length === 2
+      ? infix([call(names.log, [args[1]!]), call(names.log, [args[0]!])], '/', PREC.multiplicative)
+      : call(names.log, args),
+  };
+}
+
+/**
+ * Names of the basic functions in C and Fortran
+ */
+const BASIC_FUNCTIONS: BasicFunctionNames = {
+  exp: 'exp', sqrt: 'sqrt', sin: 'sin', cos: 'cos', tan: 'tan', atan: 'atan', atan2: 'atan2', log: 'log',
+};
+
+/**
+ * Constants shared by all languages as literals
+ */
+const LITERAL_CONSTANTS = {
+  EulerGamma: '0.57721566490153286061',
+  GoldenRatio: '1.6180339887498948482',
+  Catalan: '0.91596559417721901505',
+};
+
+/**
+ * Lines joined with the given indentation
+ */
+function indent(lines: string[], prefix: string): string {
+  return lines.map(line => prefix + line).join('\n');
+}
+
+/**
+ * Operators for languages with C-like syntax
+ */
+const C_LIKE_LOGIC = {
+  operators: { and: '&&', or: '||', equal: '==', unequal: '!=' },
+  and: (args: Code[]) => infix(args, '&&', PREC.and),
+  or: (args: Code[]) => infix(args, '||', PREC.or),
+  not: (arg: Code): Code => ({ text: `!${wrap(arg, PREC.primary)}`, prec: PREC.unary }),
+  conditional: (cases: Array<[Code, Code]>, otherwise: Code): Code => ({
+    text: cases.reduceRight(
+      (rest, [value, condition]) => `${wrap(condition, PREC.or)} ? ${wrap(value, PREC.or)} : ${rest}`,
+      wrap(otherwise, PREC.conditional)
+    ),
+    prec: PREC.conditional,
+  }),
+};
+
+const C_FUNCTIONS: Record<string, FunctionSpec> = {
+  ...derivedFunctions('1.0', BASIC_FUNCTIONS),
+  ArcSin: 'asin', ArcCos: 'acos', Sinh: 'sinh', Cosh: 'cosh', Tanh: 'tanh',
+  ArcSinh: 'asinh', ArcCosh: 'acosh', ArcTanh: 'atanh', Abs: 'fabs', Floor: 'floor', Ceiling: 'ceil',
+  Gamma: 'tgamma', LogGamma: 'lgamma', Erf: 'erf', Erfc: 'erfc',
+  // POSIX only has Bessel functions of integer order
+  BesselJ: integerOrderBessel('BesselJ', 'jn', 'C'),
+  BesselY: integerOrderBessel('BesselY', 'yn', 'C'),
+  Max: nested('fmax'), Min: nested('fmin'),
+};
+
+const C_KEYWORDS = [
+  'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum',
+  'extern', 'float', 'for', 'goto', 'if', 'inline', 'int', 'long', 'register', 'restrict', 'return',
+  'short', 'signed', 'sizeof', 'static', 'struct', 'switch', 'typedef', 'union', 'unsigned', 'void',
+  'volatile', 'while', '_Bool', '_Complex', '_Imaginary', 'bool', 'true', 'false',
+];
+
+const C: Language = {
+  label: 'C',
+  functions: {
+    ...C_FUNCTIONS,
+    Sign: ([x]) => ({
+      text: `(${wrap(x!, PREC.additive)} > 0) - (${wrap(x!, PREC.additive)} < 0)`,
+      prec: PREC.additive,
+    }),
+  },
+  constants: {
+    Pi: { text: 'M_PI', prec: PREC.primary },
+    E: { text: 'M_E', prec: PREC.primary },
+    Degree: { text: 'M_PI / 180.0', prec: PREC.multiplicative },
+    Infinity: { text: 'INFINITY', prec: PREC.primary },
+    ...literalConstants(value => value),
+  },
+  // Integers beyond 32 bits would overflow an int literal
+  integer: digits => digits.length > 9 ? `${digits}.0` : digits,
+  float: digits => `${digits}.0`,
+  real: digits => digits,
+  boolean: value => (value ? '1' : '0'),
+  power: (base, exponent) => call('pow', [base, exponent]),
+  ...C_LIKE_LOGIC,
+  list: items => ({ text: `{${items.map(item => item.text).join(', ')}}`, prec: PREC.primary }),
+  identifier: identifiers([
+    ...C_KEYWORDS, ...functionNames(C_FUNCTIONS),
+    'pow', 'fmax', 'fmin', 'jn', 'yn', 'M_PI', 'M_E', 'INFINITY',
+  ]),
+  returnsLists: false,
+  definition: (name, args, body) => [
+    '#include <math.h>',
+    '',
+    `double ${name}(${args.map(arg => `double ${arg}`).join(', ')}) {`,
+    `    return ${body};`,
+    '}',
+  ].join('\n'),
+};
+
+const FORTRAN_FUNCTIONS: Record<string, FunctionSpec> = {
+  ...derivedFunctions('1.0d0', BASIC_FUNCTIONS),
+  ArcSin: 'asin', ArcCos: 'acos', Sinh: 'sinh', Cosh: 'cosh', Tanh: 'tanh',
+  ArcSinh: 'asinh', ArcCosh: 'acosh', ArcTanh: 'atanh', Abs: 'abs', Floor: 'floor', Ceiling: 'ceiling',
+  Gamma: 'gamma', LogGamma: 'log_gamma', Erf: 'erf', Erfc: 'erfc', Max: 'max', Min: 'min',
+  // Fortran 2008 intrinsics, of integer order only
+  BesselJ: integerOrderBessel('BesselJ', 'bessel_jn', 'Fortran'),
+  BesselY: integerOrderBessel('BesselY', 'bessel_yn', 'Fortran'),
+};
+
+const FORTRAN: Language = {
+  label: 'Fortran',
+  functions: FORTRAN_FUNCTIONS,
+  constants: {
+    Pi: { text: 'acos(-1.0d0)', prec: PREC.primary },
+    E: { text: 'exp(1.0d0)', prec: PREC.primary },
+    Degree: { text: 'acos(-1.0d0) / 180.0d0', prec: PREC.multiplicative },
+    Infinity: { text: 'huge(1.0d0)', prec: PREC.primary },
+    ...literalConstants(value => `${value}d0`),
+  },
+  // Double precision throughout, so that merge() and intrinsics see one kind
+  integer: digits => `${digits}.0d0`,
+  float: digits => `${digits}.0d0`,
+  real: digits => (digits.includes('e') ? digits.replace('e', 'd') : `${digits}d0`),
+  boolean: value => (value ? '.true.' : '.false.'),
+  // Fortran does not allow two operators in a row, as in x**-y
+  power: (base, exponent) => ({ text: `${wrap(base, PREC.primary)}**${wrap(exponent, PREC.primary)}`, prec: PREC.power }),
+  operators: { and: '.and.', or: '.or.', equal: '==', unequal: '/=' },
+  and: args => infix(args, '.and.', PREC.and),
+  or: args => infix(args, '.or.', PREC.or),
+  // .not. binds more loosely than the comparisons, but more tightly than .and.
+  not: arg => ({ text: `.not. ${wrap(arg, PREC.primary)}`, prec: PREC.equality }),
+  conditional: (cases, otherwise) => cases.reduceRight(
+    (rest, [value, condition]) => call('merge', [value, rest, condition]),
+    otherwise
+  ),
+  list: items => ({ text: `[${items.map(item => item.text).join(', ')}]`, prec: PREC.primary }),
+  complex: (re, im) => call('cmplx', [re, im, { text: 'kind=8', prec: PREC.primary }]),
+  // Fortran has no reserved words, but variables would hide the intrinsics and the result
+  identifier: identifiers([
+    ...functionNames(FORTRAN_FUNCTIONS),
+    'bessel_jn', 'bessel_yn', 'merge', 'cmplx', 'kind', 'huge', 'res',
+  ], { ignoreCase: true }),
+  returnsLists: false,
+  definition: (name, args, body) => [
+    `pure function ${name}(${args.join(', ')}) result(res)`,
+    indent([
+      'implicit none',
+      ...(args.length > 0 ? [`real(8), intent(in) :: ${args.join(', ')}`] : []),
+      'real(8) :: res',
+    ], '  '),
+    wrapFortranLine(`  res = ${body}`),
+    `end function ${name}`,
+  ].join('\n'),
+};
+
+const PYTHON_KEYWORDS = [
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+  'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+];
+
+const PYTHON: Language = {
+  label: 'Python',
+  functions: {
+    ...derivedFunctions('1', {
+      exp: 'np.exp', sqrt: 'np.sqrt', sin: 'np.sin', cos: 'np.cos', tan: 'np.tan',
+      atan: 'np.arctan', atan2: 'np.arctan2', log: 'np.log',
+    }),
+    ArcSin: 'np.arcsin', ArcCos: 'np.arccos', Sinh: 'np.sinh', Cosh: 'np.cosh', Tanh: 'np.tanh',
+    ArcSinh: 'np.arcsinh', ArcCosh: 'np.arccosh', ArcTanh: 'np.arctanh', Abs: 'np.abs',
+    Floor: 'np.floor', Ceiling: 'np.ceil', Sign: 'np.sign',
+    Gamma: 'scipy.special.gamma', LogGamma: 'scipy.special.gammaln',
+    Erf: 'scipy.special.erf', Erfc: 'scipy.special.erfc',
+    BesselJ: 'scipy.special.jv', BesselY: 'scipy.special.yv',
+    Max: nested('np.maximum'), Min: nested('np.minimum'),
+  },
+  constants: {
+    Pi: { text: 'np.pi', prec: PREC.primary },
+    E: { text: 'np.e', prec: PREC.primary },
+    Degree: { text: 'np.pi / 180', prec: PREC.multiplicative },
+    Infinity: { text: 'np.inf', prec: PREC.primary },
+    EulerGamma: { text: 'np.euler_gamma', prec: PREC.primary },
+    ...literalConstants(value => value),
+  },
+  integer: digits => digits,
+  float: digits => digits,
+  real: digits => digits,
+  boolean: value => (value ? 'True' : 'False'),
+  power: (base, exponent) => ({ text: `${wrap(base, PREC.primary)}**${wrap(exponent, PREC.unary)}`, prec: PREC.power }),
+  // Element-wise, so that conditions work on arrays
+  operators: { and: '&', or: '|', equal: '==', unequal: '!=' },
+  and: nested('np.logical_and'),
+  or: nested('np.logical_or'),
+  not: arg => call('np.logical_not', [arg]),
+  conditional: (cases, otherwise) => cases.reduceRight(
+    (rest, [value, condition]) => call('np.where', [condition, value, rest]),
+    otherwise
+  ),
+  list: (items, isNested) => ({
+    text: isNested
+      ? `[${items.map(item => item.text).join(', ')}]`
+      : `np.array([${items.map(item => item.text).join(', ')}])`,
+    prec: PREC.primary,
+  }),
+  complex: (re, im) => call('complex', [re, im]),
+  identifier: identifiers([...PYTHON_KEYWORDS, 'np', 'scipy', 'complex']),
+  returnsLists: true,
+  definition: (name, args, body) => [
+    'import numpy as np',
+    ...(body.includes('scipy.special.') ? ['import scipy.special'] : []),
+    '',
+    '',
+    `def ${name}(${args.join(', ')}):`,
+    `    return ${body}`,
+  ].join('\n'),
+};
+
+const JAVASCRIPT_RESERVED_WORDS = [
+  'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if',
+  'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package',
+  'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'arguments', 'eval',
+];
+
+const JAVASCRIPT: Language = {
+  label: 'JavaScript',
+  functions: {
+    ...derivedFunctions('1', {
+      exp: 'Math.exp', sqrt: 'Math.sqrt', sin: 'Math.sin', cos: 'Math.cos', tan: 'Math.tan',
+      atan: 'Math.atan', atan2: 'Math.atan2', log: 'Math.log',
+    }),
+    ArcSin: 'Math.asin', ArcCos: 'Math.acos', Sinh: 'Math.sinh', Cosh: 'Math.cosh', Tanh: 'Math.tanh',
+    ArcSinh: 'Math.asinh', ArcCosh: 'Math.acosh', ArcTanh: 'Math.atanh', Abs: 'Math.abs',
+    Floor: 'Math.floor', Ceiling: 'Math.ceil', Sign: 'Math.sign', Max: 'Math.max', Min: 'Math.min',
+  },
+  constants: {
+    Pi: { text: 'Math.PI', prec: PREC.primary },
+    E: { text: 'Math.E', prec: PREC.primary },
+    Degree: { text: 'Math.PI / 180', prec: PREC.multiplicative },
+    Infinity: { text: 'Infinity', prec: PREC.primary },
+    ...literalConstants(value => value),
+  },
+  integer: digits => digits,
+  float: digits => digits,
+  real: digits => digits,
+  boolean: value => (value ? 'true' : 'false'),
+  // Math.pow rather than **, which rejects a unary minus on its base
+  power: (base, exponent) => call('Math.pow', [base, exponent]),
+  ...C_LIKE_LOGIC,
+  list: items => ({ text: `[${items.map(item => item.text).join(', ')}]`, prec: PREC.primary }),
+  identifier: identifiers([...JAVASCRIPT_RESERVED_WORDS, 'Math', 'Infinity', 'NaN', 'undefined'], { dollar: true }),
+  returnsLists: true,
+  definition: (name, args, body) => [
+    `function ${name}(${args.join(', ')}) {`,
+    `  return ${body};`,
+    '}',
+  ].join('\n'),
+};
+
+/**
+ * Literal constants, written with the language's real literal suffix
+ */
+function literalConstants(literal: (value: string) => string): Record<string, Code> {
+  return Object.fromEntries(
+    Object.entries(LITERAL_CONSTANTS).map(([name, value]) => [name, { text: literal(value), prec: PREC.primary }])
+  );
+}
+
+/**
+ * Break a long Fortran statement into continuation lines at spaces
+ */
+function wrapFortranLine(line: string): string {
+  const lines: string[] = [];
+  let rest = line;
+
+  while (rest.length > FORTRAN_LINE_LENGTH) {
+    const cut = rest.lastIndexOf(' ', FORTRAN_LINE_LENGTH);
+
+    if (cut <= 0) {
+      break;
+    }
+
+    lines.push(`${rest.slice(0, cut)} &`);
+    rest = `    &${rest.slice(cut)}`;
+  }
+
+  return [...lines, rest].join('\n');
+}
+
+const LANGUAGES: Record<CodeFormat, Language> = {
+  c: C,
+  fortran: FORTRAN,
+  python: PYTHON,
+  javascript: JAVASCRIPT,
+};
+
+/**
+ * Check whether an output format generates source code
+ */
+export function isCodeFormat(format: OutputFormat): format is CodeFormat {
+  return CodeFormatSchema.safeParse(format).success;
+}
+
+function isExpression(node: WolframJson): node is ExpressionNode {
+  return isTagged(node, 'Expression');
+}
+
+function isTagged<T extends string>(node: WolframJson, type: T): node is Extract<WolframJson, { $type: T }> {
+  return node !== null && typeof node === 'object' && !Array.isArray(node) && node.$type === type;
+}
+
+/**
+ * Name of a System` symbol node, or undefined for anything else
+ */
+function systemSymbol(node: WolframJson): string | undefined {
+  return isTagged(node, 'Symbol') && node.context === 'System`' ? String(node.name) : undefined;
+}
+
+/**
+ * The node without its minus sign, or undefined if it is not negative:
+ * negative numbers, and products with a negative coefficient
+ */
+function negate(node: WolframJson): WolframJson | undefined {
+  if (isTagged(node, 'Integer') || isTagged(node, 'Real')) {
+    const value = String(node.value);
+    return value.startsWith('-') ? { ...node, value: value.slice(1) } as WolframJson : undefined;
+  }
+
+  if (isTagged(node, 'Rational')) {
+    const numerator = String(node.numerator);
+    return numerator.startsWith('-') ? { ...node, numerator: numerator.slice(1) } as WolframJson : undefined;
+  }
+
+  if (isExpression(node) && systemSymbol(node.head) === 'Times' && node.args[0] !== undefined) {
+    const [coefficient, ...factors] = node.args;
+    const positive = negate(coefficient);
+
+    if (positive === undefined) {
+      return undefined;
+    }
+
+    const rest = isTagged(positive, 'Integer') && positive.value === '1' ? factors : [positive, ...factors];
+    return rest.length === 1 ? rest[0]! : { ...node, args: rest };
+  }
+
+  return undefined;
+}
+
+/**
+ * Translates json trees into one language, collecting the free variables
+ */
+class Translator {
+  /** Free variables in order of appearance */
+  readonly variables = new Set<string>();
+
+  constructor(private readonly language: Language) {}
+
+  fail(reason: string): never {
+    throw new CodeGenerationError(this.language.label, reason);
+  }
+
+  translate(node: WolframJson, inList = false): Code {
+    const lang = this.language;
+
+    if (typeof node === 'boolean') {
+      return { text: lang.boolean(node), prec: PREC.primary };
+    }
+
+    if (typeof node === 'string') {
+      return this.fail(`strings such as ${JSON.stringify(node)} are not supported`);
+    }
+
+    if (node === null) {
+      return this.fail('Null inside an expression');
+    }
+
+    if (Array.isArray(node)) {
+      return lang.list(node.map(item => this.translate(item, true)), inList);
+    }
+
+    if (isTagged(node, 'Integer') || isTagged(node, 'Real') || isTagged(node, 'Rational')) {
+      return this.number(node);
+    }
+
+    if (isTagged(node, 'Complex')) {
+      if (!lang.complex) {
+        return this.fail('complex numbers are not supported');
+      }
+      return lang.complex(this.translate(node.re as WolframJson), this.translate(node.im as WolframJson));
+    }
+
+    if (isTagged(node, 'Symbol')) {
+      return this.symbol(String(node.name), String(node.context));
+    }
+
+    if (isExpression(node)) {
+      return this.expression(node);
+    }
+
+    if (isTagged(node, 'Atom')) {
+      return this.fail(`${String(node.head)} atoms are not supported`);
+    }
+
+    return this.fail('associations are not supported');
+  }
+
+  number(node: WolframJson): Code {
+    const lang = this.language;
+    const positive = negate(node);
+    const abs = positive ?? node;
+    let code: Code;
+
+    if (isTagged(abs, 'Integer')) {
+      code = { text: lang.integer(String(abs.value)), prec: PREC.primary };
+    } else if (isTagged(abs, 'Real')) {
+      code = { text: lang.real(String(abs.value).replace(/\.(?=e|$)/, '.0')), prec: PREC.primary };
+    } else if (isTagged(abs, 'Rational')) {
+      code = {
+        text: `${lang.float(String(abs.numerator))} / ${lang.float(String(abs.denominator))}`,
+        prec: PREC.multiplicative,
+      };
+    } else {
+      return this.translate(abs);
+    }
+
+    return positive === undefined ? code : { text: `-${wrap(code, PREC.unary)}`, prec: PREC.unary };
+  }
+
+  symbol(name: string, context: string): Code {
+    if (context === 'System`') {
+      return this.language.constants[name] ?? this.fail(`the symbol ${name} is not supported`);
+    }
+
+    const identifier = this.language.identifier(name);
+    this.variables.add(identifier);
+    return { text: identifier, prec: PREC.primary };
+  }
+
+  expression(node: ExpressionNode): Code {
+    const lang = this.language;
+    const { args } = node;
+    const head = systemSymbol(node.head);
+
+    if (head === undefined) {
+      // Calls of user functions are kept, e.g. f[x] -> f(x)
+      if (isTagged(node.head, 'Symbol')) {
+        return call(lang.identifier(String(node.head.name)), args.map(arg => this.translate(arg)));
+      }
+      return this.fail('expressions with compound heads are not supported');
+    }
+
+    switch (head) {
+      case 'Plus':
+        return this.plus(args);
+      case 'Times':
+        return this.times(args);
+      case 'Power':
+        return this.power(node);
+      case 'Piecewise':
+        return this.piecewise(args);
+      case 'DirectedInfinity': {
+        const infinity = lang.constants.Infinity!;
+        if (args.length === 1 && isTagged(args[0]!, 'Integer')) {
+          return args[0].value === '-1' ? { text: `-${wrap(infinity, PREC.unary)}`, prec: PREC.unary } : infinity;
+        }
+        return this.fail('complex infinities are not supported');
+      }
+      case 'Equal':
+        return this.comparison(args, lang.operators.equal, PREC.equality);
+      case 'Unequal':
+        return this.comparison(args, lang.operators.unequal, PREC.equality);
+      case 'Less':
+        return this.comparison(args, '<', PREC.relational);
+      case 'LessEqual':
+        return this.comparison(args, '<=', PREC.relational);
+      case 'Greater':
+        return this.comparison(args, '>', PREC.relational);
+      case 'GreaterEqual':
+        return this.comparison(args, '>=', PREC.relational);
+      case 'And':
+        return lang.and(args.map(arg => this.translate(arg)));
+      case 'Or':
+        return lang.or(args.map(arg => this.translate(arg)));
+      case 'Not':
+        return lang.not(this.translate(args[0] ?? null));
+    }
+
+    return this.apply(head, args.map(arg => this.translate(arg)));
+  }
+
+  plus(args: WolframJson[]): Code {
+    const [first, ...rest] = args;
+    let text = wrap(this.translate(first ?? null), PREC.additive);
+
+    for (const term of rest) {
+      const positive = negate(term);
+      text += positive === undefined
+        ? ` + ${wrap(this.translate(term), PREC.additive + 1)}`
+        : ` - ${wrap(this.translate(positive), PREC.additive + 1)}`;
+    }
+
+    return { text, prec: PREC.additive };
+  }
+
+  /**
+   * Products are written as a fraction: factors with negative exponents and the
+   * denominator of a rational coefficient go below the line
+   */
+  times(args: WolframJson[]): Code {
+    const lang = this.language;
+    const numerator: Code[] = [];
+    const denominator: Code[] = [];
+    let negative = false;
+
+    for (const factor of args) {
+      const positive = negate(factor);
+
+      if (positive !== undefined && (isTagged(factor, 'Integer') || isTagged(factor, 'Real') || isTagged(factor, 'Rational'))) {
+        negative = !negative;
+        if (!(isTagged(positive, 'Integer') && positive.value === '1')) {
+          this.pushCoefficient(positive, numerator, denominator);
+        }
+        continue;
+      }
+
+      if (isTagged(factor, 'Rational')) {
+        this.pushCoefficient(factor, numerator, denominator);
+        continue;
+      }
+
+      if (isExpression(factor) && systemSymbol(factor.head) === 'Power' && factor.args.length === 2) {
+        const [base, exponent] = factor.args as [WolframJson, WolframJson];
+        const positiveExponent = negate(exponent);
+
+        if (positiveExponent !== undefined && !isExpression(exponent)) {
+          denominator.push(isTagged(positiveExponent, 'Integer') && positiveExponent.value === '1'
+            ? this.translate(base)
+            : this.power({ ...factor, args: [base, positiveExponent] }));
+          continue;
+        }
+      }
+
+      numerator.push(this.translate(factor));
+    }
+
+    if (numerator.length === 0) {
+      numerator.push({ text: lang.float('1'), prec: PREC.primary });
+    }
+
+    // The minus goes on the first factor, e.g. -x * y rather than -(x * y)
+    if (negative) {
+      numerator[0] = { text: `-${wrap(numerator[0]!, PREC.unary)}`, prec: PREC.unary };
+    }
+
+    let product = infix(numerator, '*', PREC.multiplicative);
+
+    if (denominator.length > 0) {
+      const below = denominator.length === 1 ? denominator[0]! : infix(denominator, '*', PREC.multiplicative);
+      product = infix([product, below], '/', PREC.multiplicative);
+    }
+
+    return product;
+  }
+
+  pushCoefficient(coefficient: WolframJson, numerator: Code[], denominator: Code[]): void {
+    const lang = this.language;
+
+    if (isTagged(coefficient, 'Rational')) {
+      if (coefficient.numerator !== '1') {
+        numerator.unshift({ text: lang.float(String(coefficient.numerator)), prec: PREC.primary });
+      }
+      denominator.push({ text: lang.float(String(coefficient.denominator)), prec: PREC.primary });
+      return;
+    }
+
+    numerator.unshift(this.number(coefficient));
+  }
+
+  power(node: ExpressionNode): Code {
+    const lang = this.language;
+    const [base, exponent] = node.args;
+
+    if (base === undefined || exponent === undefined) {
+      return this.fail('Power needs a base and an exponent');
+    }
+
+    if (systemSymbol(base) === 'E') {
+      return this.apply('Exp', [this.translate(exponent)]);
+    }
+
+    if (isTagged(exponent, 'Rational') && exponent.denominator === '2' && (exponent.numerator === '1' || exponent.numerator === '-1')) {
+      const root = this.apply('Sqrt', [this.translate(base)]);
+      return exponent.numerator === '1'
+        ? root
+        : infix([{ text: lang.float('1'), prec: PREC.primary }, root], '/', PREC.multiplicative);
+    }
+
+    if (negate(exponent) !== undefined && !isExpression(exponent)) {
+      return this.times([node]);
+    }
+
+    // Integer exponents stay integers, so that negative bases work in Fortran
+    const power = isTagged(exponent, 'Integer')
+      ? { text: String(exponent.value), prec: PREC.primary }
+      : this.translate(exponent);
+
+    return lang.power(this.translate(base), power);
+  }
+
+  /**
+   * Apply a function from the language's table
+   */
+  apply(name: string, args: Code[]): Code {
+    const spec = this.language.functions[name];
+
+    if (spec === undefined) {
+      return this.fail(`${name} is not supported`);
+    }
+
+    return typeof spec === 'string' ? call(spec, args) : spec(args);
+  }
+
+  piecewise(args: WolframJson[]): Code {
+    const [cases, otherwise] = args;
+
+    if (!Array.isArray(cases)) {
+      return this.fail('Piecewise needs a list of cases');
+    }
+
+    const translated = cases.map(entry => {
+      if (!Array.isArray(entry) || entry.length !== 2) {
+        return this.fail('Piecewise cases must be {value, condition} pairs');
+      }
+      return [this.translate(entry[0]!), this.translate(entry[1]!)] as [Code, Code];
+    });
+
+    return this.language.conditional(
+      translated,
+      otherwise === undefined ? this.number({ $type: 'Integer', value: '0' }) : this.translate(otherwise)
+    );
+  }
+
+  /**
+   * Chained comparisons such as a < b < c become a < b and b < c
+   */
+  comparison(args: WolframJson[], operator: string, prec: number): Code {
+    const operands = args.map(arg => this.translate(arg));
+    const pairs = operands.slice(1).map((right, i) => infix([operands[i]!, right], operator, prec));
+
+    if (pairs.length === 0) {
+      return { text: this.language.boolean(true), prec: PREC.primary };
+    }
+
+    return pairs.length === 1 ? pairs[0]! : this.language.and(pairs);
+  }
+}
+
+/**
+ * Translate json output from the kernel into source code
+ * @param output - Result rendered in the json format
+ * @param format - Target language
+ * @param definition - Function to wrap the expression in, if any
+ * @returns Generated code (empty for a Null result without a definition)
+ * @throws {CodeGenerationError} If the result uses something the language cannot express
+ */
+export function generateCode(output: string, format: CodeFormat, definition?: FunctionDefinition): string {
+  const language = LANGUAGES[format];
+  const value = parseJsonOutput(output);
+
+  if (value === undefined) {
+    throw new CodeGenerationError(language.label, 'the result could not be read');
+  }
+
+  if (value === null) {
+    if (definition) {
+      throw new CodeGenerationError(language.label, 'the result is Null');
+    }
+    return '';
+  }
+
+  const translator = new Translator(language);
+  const code = translator.translate(value);
+
+  if (!definition) {
+    return format === 'fortran' ? wrapFortranLine(code.text) : code.text;
+  }
+
+  if (Array.isArray(value) && !language.returnsLists) {
+    throw new CodeGenerationError(language.label, 'functions cannot return lists');
+  }
+
+  // Chosen names go through the same renaming as the variables, e.g. lambda -> lambda_
+  const args = definition.args?.map(arg => language.identifier(arg)) ?? [...translator.variables].sort();
+  const missing = [...translator.variables].filter(variable => !args.includes(variable));
+
+  if (missing.length > 0) {
+    throw new CodeGenerationError(language.label, `the result uses variables that are not arguments: ${missing.join(', ')}`);
+  }
+
+  return language.definition(language.identifier(definition.name), args, code.text);
+}
@@ -0,0 +1,312 @@
+/**
+ * Symbol documentation.
+ * Looks up usage messages, attributes, options and related names of symbols, and
+ * searches Names[] with patterns, in the local kernel. Answers are cached in
+ * memory and on disk in a directory per kernel version, so repeated lookups are
+ * served without a kernel, also after a restart.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import { readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { z } from 'zod';
+import {
+  SymbolDocumentationSchema,
+  SymbolSearchResultSchema,
+  type SymbolDocumentation,
+  type SymbolSearchResult,
+} from '../config/schema.ts';
+import {
+  getErrorMessage,
+  MathematicaExecutionError,
+  SymbolNotFoundError,
+} from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { getKernelPool } from './kernel-pool.ts';
+import { getScheduler } from './scheduler.ts';
+import { toWolframString } from './wolfram-code.ts';
+
+/**
+ * Time a lookup may take in the kernel
+ */
+const LOOKUP_TIMEOUT_MS = 30_000;
+
+/**
+ * Related names returned per symbol
+ */
+const MAX_RELATED = 20;
+
+/**
+ * Names kept per search; larger limits are not served
+ */
+const MAX_SEARCH_NAMES = 1000;
+
+/**
+ * Lookups kept in memory; the oldest are dropped first, and stay on disk
+ */
+const MAX_MEMORY_ENTRIES = 1000;
+
+/**
+ * Symbol documentation configuration
+ */
+export interface SymbolDocsOptions {
+  /** Directory caching lookups; each kernel version gets a subdirectory */
+  directory: string;
+  /** Version of the kernels answering the lookups */
+  kernelVersion: string;
+}
+
+/**
+ * Whether a name is a Names[] pattern rather than a symbol name
+ */
+export function isSymbolPattern(name: string): boolean {
+  return name.includes('*') || name.includes('@');
+}
+
+/**
+ * Build the code describing a symbol as JSON, or "null" if there is no such symbol.
+ * The symbol is held unevaluated, so symbols with values, such as $Version,
+ * are described rather than evaluated; option defaults are held the same way.
+ */
+function buildLookupCode(symbol: string): string {
+  return `Module[{MCP\`Private\`names = Names[${toWolframString(symbol)}], MCP\`Private\`name, MCP\`Private\`held,
+    MCP\`Private\`usage, MCP\`Private\`short},
+  If[MCP\`Private\`names === {},
+    "null",
+    MCP\`Private\`name = First[MCP\`Private\`names];
+    MCP\`Private\`held = ToExpression[MCP\`Private\`name, InputForm, HoldComplete];
+    MCP\`Private\`usage = Replace[MCP\`Private\`held, HoldComplete[MCP\`Private\`s_] :> MessageName[MCP\`Private\`s, "usage"]];
+    MCP\`Private\`short = Last[StringSplit[MCP\`Private\`name, "\`"]];
+    ExportString[<|
+      "name" -> MCP\`Private\`short,
+      "context" -> Context[MCP\`Private\`name],
+      "usage" -> If[StringQ[MCP\`Private\`usage], MCP\`Private\`usage, Null],
+      "attributes" -> Map[ToString, Attributes[MCP\`Private\`name]],
+      "options" -> Map[
+        <|"name" -> ToString[First[#]], "default" -> ToString[Extract[#, 2, HoldForm], InputForm]|> &,
+        Cases[
+          Replace[MCP\`Private\`held, HoldComplete[MCP\`Private\`s_] :> Quiet[Options[Unevaluated[MCP\`Private\`s]]]],
+          (Rule | RuleDelayed)[_, _]
+        ]
+      ],
+      "related" -> If[StringLength[MCP\`Private\`short] < 3,
+        {},
+        Take[
+          SortBy[
+            DeleteCases[
+              Names[Context[MCP\`Private\`name] <> "*" <> MCP\`Private\`short <> "*"],
+              MCP\`Private\`name | MCP\`Private\`short
+            ],
+            StringLength
+          ],
+          UpTo[${MAX_RELATED}]
+        ]
+      ]
+    |>, "RawJSON", "Compact" -> True]
+  ]
+]`;
+}
+
+/**
+ * Build the code listing the names matching a pattern as JSON
+ */
+function buildSearchCode(pattern: string): string {
+  return `Module[{MCP\`Private\`names = Sort[Names[${toWolframString(pattern)}]]},
+  ExportString[<|
+    "total" -> Length[MCP\`Private\`names],
+    "names" -> Take[MCP\`Private\`names, UpTo[${MAX_SEARCH_NAMES}]]
+  |>, "RawJSON", "Compact" -> True]
+]`;
+}
+
+/**
+ * Symbol lookups answered by the kernel and cached per kernel version
+ */
+export class SymbolDocs {
+  private readonly options: SymbolDocsOptions;
+  private readonly directory: string;
+  /** Insertion order is age order: the first entry is the oldest */
+  private readonly entries = new Map<string, unknown>();
+
+  constructor(options: SymbolDocsOptions) {
+    this.options = options;
+
+    // Answers from another kernel version would be wrong, so they are kept apart
+    const version = createHash('sha256').update(options.kernelVersion).digest('hex').slice(0, 16);
+    this.directory = join(options.directory, version);
+    mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Document a symbol
+   * @param symbol - Symbol name, optionally with its context
+   * @param clientId - Client asking, for fair queueing
+   * @throws {SymbolNotFoundError} If the kernel knows no such symbol
+   */
+  public async lookup(symbol: string, clientId: string): Promise<SymbolDocumentation> {
+    const documentation = await this.cached(`symbol:${symbol}`, SymbolDocumentationSchema, async () => {
+      const data = await this.evaluate(buildLookupCode(symbol), clientId);
+
+      if (data === null) {
+        return null;
+      }
+
+      const { name, context } = data as { name: string; context: string };
+
+      return {
+        ...(data as object),
+        documentationUrl: context === 'System`' ? `https://reference.wolfram.com/language/ref/${name}.html` : null,
+        kernelVersion: this.options.kernelVersion,
+      };
+    });
+
+    if (!documentation) {
+      throw new SymbolNotFoundError(symbol);
+    }
+
+    return documentation;
+  }
+
+  /**
+   * Search the names matching a pattern
+   * @param pattern - Names[] pattern, e.g. *Plot*
+   * @param limit - Names returned
+   * @param clientId - Client asking, for fair queueing
+   */
+  public async search(pattern: string, limit: number, clientId: string): Promise<SymbolSearchResult> {
+    const result = await this.cached(`search:${pattern}`, SymbolSearchResultSchema, async () => ({
+      ...(await this.evaluate(buildSearchCode(pattern), clientId) as object),
+      pattern,
+      kernelVersion: this.options.kernelVersion,
+    }));
+
+    // Searches always find a (possibly empty) list
+    const { names, ...rest } = result as SymbolSearchResult;
+    return { ...rest, names: names.slice(0, limit) };
+  }
+
+  /**
+   * Serve an answer from memory or disk, or compute and store it.
+   * Missing symbols (null) are not stored, since a package may define them later.
+   */
+  private async cached<T>(
+    key: string,
+    schema: z.ZodType<T>,
+    compute: () => Promise<unknown>
+  ): Promise<T | null> {
+    const hash = createHash('sha256').update(key).digest('hex');
+    const path = join(this.directory, `${hash}.json`);
+
+    const remembered = this.entries.get(hash) ?? await this.readEntry(path);
+    const stored = remembered !== undefined ? schema.safeParse(remembered) : undefined;
+
+    if (stored?.success) {
+      this.remember(hash, stored.data);
+      return stored.data;
+    }
+
+    const computed = await compute();
+
+    if (computed === null) {
+      return null;
+    }
+
+    const value = schema.parse(computed);
+    this.remember(hash, value);
+    await this.writeEntry(path, value);
+
+    return value;
+  }
+
+  /**
+   * Run lookup code in a pooled kernel and decode its JSON answer.
+   * The code runs as driver code, like the syntax check, so it is neither
+   * subject to the sandbox nor rendered with a user-facing output format.
+   * @throws {MathematicaExecutionError} If the kernel does not answer with JSON
+   */
+  private async evaluate(code: string, clientId: string): Promise<unknown> {
+    const { value: evaluation } = await getScheduler().run(
+      () => getKernelPool().withKernel(
+        kernel => kernel.evaluate(`<|"status" -> "ok", "json" -> ${code}|>`, { timeoutMs: LOOKUP_TIMEOUT_MS })
+      ),
+      { clientId, priority: 'normal' }
+    );
+
+    const { data } = evaluation;
+
+    if (data.status !== 'ok' || typeof data.json !== 'string') {
+      throw new MathematicaExecutionError(`Symbol lookup failed: ${String(data.error ?? `kernel returned status ${data.status}`)}`);
+    }
+
+    try {
+      return JSON.parse(data.json);
+    } catch {
+      throw new MathematicaExecutionError(`Symbol lookup returned unexpected output: ${data.json.slice(0, 200)}`);
+    }
+  }
+
+  private remember(hash: string, value: unknown): void {
+    this.entries.delete(hash);
+    this.entries.set(hash, value);
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= MAX_MEMORY_ENTRIES) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  private async readEntry(path: string): Promise<unknown> {
+    try {
+      return JSON.parse(await readFile(path, 'utf-8'));
+    } catch {
+      // Missing or unreadable files count as misses
+      return undefined;
+    }
+  }
+
+  private async writeEntry(path: string, value: unknown): Promise<void> {
+    const temporary = `${path}.${process.pid}.tmp`;
+
+    try {
+      // Renaming makes the entry appear complete or not at all
+      await writeFile(temporary, JSON.stringify(value), 'utf-8');
+      await rename(temporary, path);
+    } catch (error) {
+      logger.warn(`Failed to store symbol lookup in ${this.directory}: ${getErrorMessage(error)}`);
+      await rm(temporary, { force: true }).catch(() => undefined);
+    }
+  }
+}
+
+// Global symbol documentation, created during server startup
+let symbolDocs: SymbolDocs | null = null;
+
+/**
+ * Create the global symbol documentation (replacing any previous one)
+ */
+export function initSymbolDocs(options: SymbolDocsOptions): SymbolDocs {
+  symbolDocs = new SymbolDocs(options);
+  logger.info(`Symbol lookups cached in ${options.directory}`);
+  return symbolDocs;
+}
+
+/**
+ * Get the global symbol documentation
+ * @throws {MathematicaExecutionError} If it has not been initialized
+ */
+export function getSymbolDocs(): SymbolDocs {
+  if (!symbolDocs) {
+    throw new MathematicaExecutionError('Symbol documentation has not been initialized');
+  }
+  return symbolDocs;
+}
+
+/**
+ * Drop the global symbol documentation; lookups on disk are kept
+ */
+export function shutdownSymbolDocs(): void {
+  symbolDocs = null;
+}
@@ -1,17 +1,55 @@
 /**
  * Mathematica/WolframScript executor.
- * Handles safe execution of Mathematica code with timeout.
+ * Handles safe execution of Mathematica code with timeout on pooled kernels.
  */
 
 import { $ } from 'bun';
-import type { ExecuteOptions, ExecutionResult, OutputFormat } from '../config/schema.ts';
+import type {
+  CellResult,
+  EnvConfig,
+  ExecuteOptions,
+  ExecutionResult,
+  OutputFormat,
+} from '../config/schema.ts';
 import {
+  MathematicaError,
   MathematicaTimeoutError,
+  MathematicaCancelledError,
   MathematicaExecutionError,
-  WolframScriptNotFoundError,
+  MathematicaMemoryLimitError,
+  MathematicaMessageError,
+  MathematicaOutputLimitError,
+  PathNotAllowedError,
+  SandboxViolationError,
+  isMathematicaError,
+  getErrorMessage,
 } from '../utils/errors.ts';
 import { logger } from '../utils/logger.ts';
-import { formatOutput } from './formatter.ts';
+import { extractErrorMessage, formatOutput } from './formatter.ts';
+import { generateCode, isCodeFormat } from './codegen.ts';
+import { buildImageExportDefinitions, parseImages } from './graphics.ts';
+import { buildJsonConverterDefinitions, JSON_RENDER_CODE } from './json-format.ts';
+import type { KernelEvaluation, WolframKernel } from './kernel.ts';
+import { getKernelPool, initKernelPool, markStateChangesCode } from './kernel-pool.ts';
+import { buildPreloadCode, initPreloadPackages } from './packages.ts';
+import {
+  captureMessages,
+  extractMessagesFromLines,
+  parseCapturedMessages,
+  quietMessages,
+} from './messages.ts';
+import {
+  assertCodeAllowed,
+  findForbiddenSymbolCode,
+  getSandboxPolicy,
+  initSandboxPolicy,
+  isSandboxActive,
+  runtimeGuardsActive,
+  sandboxExpression,
+} from './sandbox.ts';
+import { getSessionManager } from './sessions.ts';
+import { toWolframString } from './wolfram-code.ts';
+import { getWorkspaceRoots, resolveWorkspacePath } from './workspace.ts';
 
 /**
  * Check if WolframScript is installed and accessible
@@ -38,14 +76,24 @@ export async function checkWolframScriptInstallation(
 /**
  * Get format option for wolframscript
  * @param format - Desired output format
- * @returns wolframscript format flag
+ * @returns wolframscript format flag, or undefined for formats rendered from
+ * the json tree (json itself and the code formats, see codegen.ts)
  */
-function getFormatOption(format: OutputFormat): string {
+function getFormatOption(format: OutputFormat): string | undefined {
   switch (format) {
     case 'latex':
       return 'TeXForm';
     case 'mathematica':
       return 'InputForm';
+    case 'mathml':
+    case 'html':
+      return 'MathMLForm';
+    case 'json':
+    case 'c':
+    case 'fortran':
+    case 'python':
+    case 'javascript':
+      return undefined;
     case 'text':
     default:
       return 'OutputForm';
@@ -53,17 +101,480 @@ function getFormatOption(format: OutputFormat): string {
 }
 
 /**
- * Execute Mathematica code using wolframscript
+ * Wolfram Language expression rendering MCP`Private`result in the output format.
+ * Null renders as an empty string, except in the json tree, where it is null.
+ * @param options - Execution options (format and MathML type)
+ */
+function renderResult(options: Pick<ExecuteOptions, 'format' | 'mathmlType'>): string {
+  const formatFunc = getFormatOption(options.format);
+
+  if (formatFunc === undefined) {
+    return JSON_RENDER_CODE;
+  }
+
+  // MathMLForm only writes presentation MathML
+  const render = options.format === 'mathml' && options.mathmlType === 'content'
+    ? 'ExportString[MCP`Private`result, "MathML", "Formats" -> {"ContentMathML"}]'
+    : `ToString[MCP\`Private\`result, ${formatFunc}]`;
+
+  return `If[MCP\`Private\`result === Null, "", ${render}]`;
+}
+
+/**
+ * Whether printed output goes into the content before the result; it would
+ * break formats that must stay parseable (JSON, code, markup)
+ */
+function keepsPrintedOutput(format: OutputFormat): boolean {
+  return format === 'text' || format === 'latex' || format === 'mathematica';
+}
+
+/**
+ * Formats the result is rendered in: the requested list, or the single format
+ */
+function requestedFormats(options: Pick<ExecuteOptions, 'format' | 'formats'>): OutputFormat[] {
+  return options.formats ?? [options.format];
+}
+
+/**
+ * Association entries with the rendered result: "output" in the primary format,
+ * and "outputs" with the other requested formats, all from the same result
+ * @param options - Execution options
+ */
+function renderOutputs(options: ExecuteOptions): string {
+  const others = requestedFormats(options).filter(format => format !== options.format);
+  const outputs = others.length > 0
+    ? `"outputs" -> <|${others.map(format => `${toWolframString(format)} -> ${renderResult({ ...options, format })}`).join(', ')}|>,`
+    : '';
+
+  return `"output" -> ${renderResult(options)},
+    ${outputs}`;
+}
+
+/**
+ * Definitions the output formats need in the kernel before rendering
+ */
+function formatSetup(options: ExecuteOptions): string {
+  return requestedFormats(options).some(format => getFormatOption(format) === undefined)
+    ? buildJsonConverterDefinitions()
+    : '';
+}
+
+/**
+ * Read the rendering of a result in one format from the kernel's response
+ * @param entry - Response or cell entry with "output" and "outputs"
+ * @param format - Format to read
+ * @param options - Execution options (primary format)
+ */
+function renderedOutput(entry: Record<string, unknown>, format: OutputFormat, options: ExecuteOptions): string {
+  if (format === options.format) {
+    return String(entry.output ?? '');
+  }
+
+  const outputs = entry.outputs as Record<string, unknown> | undefined;
+  return String(outputs?.[format] ?? '');
+}
+
+/**
+ * Turn a rendered result into the output format's text: the code formats
+ * translate the json tree, the others are returned as rendered
+ * @param output - Result as rendered by the kernel
+ * @param options - Execution options (format and function definition)
+ */
+function translateOutput(output: string, options: Pick<ExecuteOptions, 'format' | 'functionDefinition'>): string {
+  return isCodeFormat(options.format)
+    ? generateCode(output, options.format, options.functionDefinition)
+    : output;
+}
+
+/**
+ * Extra time granted to the kernel beyond the in-kernel TimeConstrained limit
+ * before the host kills it
+ */
+const KERNEL_TIMEOUT_GRACE_MS = 5000;
+
+/**
+ * Statuses of a cell that end the whole evaluation, whatever continueOnError says
+ */
+const FATAL_CELL_STATUSES = ['timeout', 'memory', 'sandbox', 'path'];
+
+/**
+ * Wrap an expression in the per-evaluation limits: quieted messages, the memory
+ * and time limits, and the runtime guards. Limits set MCP`Private`status.
+ * @param expression - Code to evaluate
+ * @param options - Execution options
+ * @param timeLimit - Wolfram Language expression for the time limit in seconds
+ */
+function constrainEvaluation(expression: string, options: ExecuteOptions, timeLimit: string): string {
+  const quieted = quietMessages(expression, options.quietMessages);
+
+  // MemoryConstrained aborts only this evaluation, long before the OS limit would kill the kernel
+  const evaluate = options.memoryLimitMb
+    ? `MemoryConstrained[
+      ${quieted},
+      ${options.memoryLimitMb * 1024 * 1024},
+      MCP\`Private\`status = "memory"; Null
+    ]`
+    : quieted;
+
+  const constrained = `TimeConstrained[
+    ${evaluate},
+    ${timeLimit},
+    MCP\`Private\`status = "timeout"; Null
+  ]`;
+
+  // The runtime guards are only active while the user code itself runs
+  return runtimeGuardsActive() ? sandboxExpression(constrained) : constrained;
+}
+
+/**
+ * Code that rejects parsed code naming a forbidden or driver-internal symbol,
+ * before any of it is evaluated; the violation is reported like one of the
+ * runtime guards, at the static stage
+ * @param held - Code evaluating to the parsed code, wrapped in Hold
+ */
+function rejectForbiddenSymbols(held: string): string {
+  const policy = getSandboxPolicy();
+
+  return isSandboxActive(policy)
+    ? `MCP\`Private\`violation = ${findForbiddenSymbolCode(held, policy)};
+  If[StringQ[MCP\`Private\`violation],
+    MCP\`Private\`violationKind = "sandbox";
+    MCP\`Private\`stage = "static";
+    MCP\`Private\`status = "sandbox"
+  ];`
+    : '';
+}
+
+/**
+ * Code that marks a pooled kernel for replacement when the parsed code may change
+ * state its reset does not undo; session kernels are never handed on
+ * @param held - Code evaluating to the parsed code, wrapped in Hold
+ */
+function markStateChanges(held: string, options: ExecuteOptions): string {
+  return options.sessionId ? '' : markStateChangesCode(held);
+}
+
+/**
+ * Code that turns a violation recorded by the runtime guards into the status
+ */
+function checkViolation(): string {
+  return runtimeGuardsActive()
+    ? 'If[StringQ[MCP`Private`violation], MCP`Private`status = MCP`Private`violationKind; MCP`Private`result = Null];'
+    : '';
+}
+
+/**
+ * Code that renders MCP`Private`result in the requested formats, with its images,
+ * as an Association. Format and MakeBoxes rules the code defined run while the
+ * result is rendered, so rendering happens under the runtime guards too. After a
+ * violation, in the code or while rendering, the output is left empty.
+ * @param options - Execution options
+ */
+function renderEntries(options: ExecuteOptions): string {
+  const entries = `<|
+    ${renderOutputs(options)}
+    "images" -> ${exportImages(options)}
+  |>`;
+
+  if (!runtimeGuardsActive()) {
+    return entries;
+  }
+
+  const empty = '<|"output" -> "", "images" -> {}|>';
+
+  return `If[MemberQ[{"sandbox", "path"}, MCP\`Private\`status],
+    ${empty},
+    Replace[${sandboxExpression(entries)}, Except[_Association] -> ${empty}]
+  ]`;
+}
+
+/**
+ * Code that records a successful evaluation in the In/Out history.
+ * Sessions keep the history like a notebook; pooled kernels are reset anyway.
+ * The result is stored as it is, taken from its OwnValues, since evaluating it
+ * again could run more of the code; the assignment still runs under the runtime
+ * guards, and a violation in it is reported like one in the code.
+ * @param input - Wolfram Language expression for the input string
+ */
+function recordHistory(input: string, options: ExecuteOptions): string {
+  if (!options.sessionId) {
+    return '';
+  }
+
+  const store = 'Out[$Line] = Unevaluated[MCP`Private`value]; Null';
+
+  return `If[MCP\`Private\`status === "ok",
+    Unprotect[In, Out, InString];
+    InString[$Line] = ${input};
+    Replace[OwnValues[MCP\`Private\`result], {_ :> MCP\`Private\`value_} :>
+      ${runtimeGuardsActive() ? sandboxExpression(store) : store}];
+    Protect[In, Out, InString];
+    $Line++
+  ];
+  ${checkViolation()}`;
+}
+
+/**
+ * Code that exports the graphics in MCP`Private`result as images, if requested
+ */
+function exportImages(options: ExecuteOptions): string {
+  return options.images
+    ? 'If[MCP`Private`status === "ok", MCP`Private`exportImages[MCP`Private`result], {}]'
+    : '{}';
+}
+
+/**
+ * Block variables holding the image budget of one call
+ */
+function imageBudget(options: ExecuteOptions): string {
+  return `MCP\`Private\`imagesLeft = ${options.images?.maxCount ?? 0}, MCP\`Private\`imagesOmitted = 0`;
+}
+
+/**
+ * Block variables that make the code see the command line, standard input and
+ * file name of the script it was read from, as under wolframscript -file
+ */
+function scriptVariables(options: ExecuteOptions): string {
+  if (!options.script) {
+    return '';
+  }
+
+  const { file, arguments: args, stdin } = options.script;
+  const commandLine = [file, ...args].map(toWolframString).join(', ');
+
+  return `, $ScriptCommandLine = {${commandLine}}, $ScriptInputString = ${toWolframString(stdin)}, $InputFileName = ${toWolframString(file)}`;
+}
+
+/**
+ * Build the Wolfram Language wrapper that evaluates user code in a kernel
+ * @param code - User code (embedded as a string literal, never spliced in)
+ * @param options - Execution options
+ * @returns Code that evaluates to an Association with status and output
+ */
+function buildEvaluationCode(code: string, options: ExecuteOptions): string {
+  if (options.cells) {
+    return buildCellsEvaluationCode(code, options);
+  }
+
+  const setDirectory = options.path
+    ? `SetDirectory[${toWolframString(options.path)}];`
+    : '';
+  const resetDirectory = options.path ? 'ResetDirectory[];' : '';
+
+  const guarded = constrainEvaluation('ToExpression[MCP`Private`code]', options, String(options.timeout));
+
+  const parsed = `Module[{MCP\`Private\`stream = StringToStream[MCP\`Private\`code], MCP\`Private\`expressions},
+    MCP\`Private\`expressions = Quiet[ReadList[MCP\`Private\`stream, Hold[Expression]]];
+    Close[MCP\`Private\`stream];
+    MCP\`Private\`expressions
+  ]`;
+
+  const imageSetup = options.images ? buildImageExportDefinitions(options.images) : '';
+
+  // Messages are captured around the formatting too, since ToString can issue them
+  return formatSetup(options) + imageSetup + captureMessages(`
+Block[{MCP\`Private\`status = "ok", MCP\`Private\`stage = "runtime", MCP\`Private\`result, MCP\`Private\`rendered,
+    MCP\`Private\`code = ${toWolframString(code)}, MCP\`Private\`parsed,
+    MCP\`Private\`line = $Line, ${imageBudget(options)}${scriptVariables(options)}},
+  ${buildPreloadCode()}
+  ${setDirectory}
+  MCP\`Private\`parsed = ${parsed};
+  ${markStateChanges('MCP`Private`parsed', options)}
+  ${rejectForbiddenSymbols('MCP`Private`parsed')}
+  MCP\`Private\`result = If[MCP\`Private\`status === "ok", ${guarded}, Null];
+  ${checkViolation()}
+  MCP\`Private\`rendered = ${renderEntries(options)};
+  ${checkViolation()}
+  ${resetDirectory}
+  ${recordHistory('MCP`Private`code', options)}
+  Join[
+    <|
+      "status" -> MCP\`Private\`status,
+      ${runtimeGuardsActive() ? '"violation" -> MCP`Private`violation, "stage" -> MCP`Private`stage,' : ''}
+      "line" -> MCP\`Private\`line
+    |>,
+    MCP\`Private\`rendered,
+    <|"imagesOmitted" -> MCP\`Private\`imagesOmitted|>
+  ]
+]`, { limit: options.messageLimit });
+}
+
+/**
+ * Build the wrapper for cells mode: the code is split into its top-level
+ * expressions in the kernel, and each one is evaluated and formatted on its own,
+ * like the input cells of a notebook. The time limit covers all cells together.
+ * A cell fails when it is aborted, evaluates to $Failed or issues a message;
+ * unless continueOnError is set, no further cells are evaluated after it.
+ * @param code - User code (embedded as a string literal, never spliced in)
+ * @param options - Execution options
+ * @returns Code that evaluates to an Association with status and a "cells" list
+ */
+function buildCellsEvaluationCode(code: string, options: ExecuteOptions): string {
+  const setDirectory = options.path
+    ? `SetDirectory[${toWolframString(options.path)}];`
+    : '';
+  const resetDirectory = options.path ? 'ResetDirectory[];' : '';
+
+  const guarded = constrainEvaluation(
+    'ReleaseHold[MCP`Private`held[[MCP`Private`i]]]',
+    options,
+    'Max[MCP`Private`deadline - AbsoluteTime[], 0.001]'
+  );
+
+  // The input is formatted under the guards as well, since Format rules apply to it
+  const input = 'Replace[MCP`Private`held[[MCP`Private`i]], Hold[MCP`Private`e_] :> ToString[Unevaluated[MCP`Private`e], InputForm]]';
+
+  const cell = captureMessages(`
+Block[{MCP\`Private\`status = "ok", MCP\`Private\`result, MCP\`Private\`timing, MCP\`Private\`rendered,
+    MCP\`Private\`input},
+  MCP\`Private\`input = Replace[${runtimeGuardsActive() ? sandboxExpression(input) : input}, Except[_String] -> ""];
+  {MCP\`Private\`timing, MCP\`Private\`result} = AbsoluteTiming[
+    CheckAbort[${guarded}, MCP\`Private\`status = "aborted"; $Aborted]
+  ];
+  ${checkViolation()}
+  If[MCP\`Private\`status === "ok" && MCP\`Private\`result === $Failed, MCP\`Private\`status = "failed"];
+  MCP\`Private\`rendered = ${renderEntries(options)};
+  ${checkViolation()}
+  ${recordHistory('MCP`Private`input', options)}
+  Join[
+    <|
+      "status" -> MCP\`Private\`status,
+      "input" -> MCP\`Private\`input,
+      "timing" -> Round[1000 MCP\`Private\`timing]
+    |>,
+    MCP\`Private\`rendered
+  ]
+]`, { limit: options.messageLimit });
+
+  const fatalStatuses = `{${FATAL_CELL_STATUSES.map(toWolframString).join(', ')}}`;
+  const stopOnError = options.continueOnError
+    ? ''
+    : 'If[MCP`Private`entry["status"] =!= "ok" || Length[MCP`Private`entry["messages"]] > 0, Break[]];';
+
+  const imageSetup = options.images ? buildImageExportDefinitions(options.images) : '';
+
+  return `${formatSetup(options)}${imageSetup}
+Block[{MCP\`Private\`status = "ok", MCP\`Private\`stage = "runtime", MCP\`Private\`line = $Line, MCP\`Private\`stream,
+    MCP\`Private\`held, MCP\`Private\`cells = {}, MCP\`Private\`entry, ${imageBudget(options)},
+    MCP\`Private\`deadline = AbsoluteTime[] + ${options.timeout}${scriptVariables(options)}},
+  MCP\`Private\`stream = StringToStream[${toWolframString(code)}];
+  MCP\`Private\`held = Quiet[ReadList[MCP\`Private\`stream, Hold[Expression]]];
+  Close[MCP\`Private\`stream];
+  If[!ListQ[MCP\`Private\`held] || MemberQ[MCP\`Private\`held, $Failed],
+    <|"status" -> "error", "error" -> "Syntax error: the input could not be split into complete expressions"|>,
+    ${buildPreloadCode()}
+    ${setDirectory}
+    ${markStateChanges('MCP`Private`held', options)}
+    ${rejectForbiddenSymbols('MCP`Private`held')}
+    If[MCP\`Private\`status === "ok", Do[
+      MCP\`Private\`entry = (${cell});
+      AppendTo[MCP\`Private\`cells, MCP\`Private\`entry];
+      If[MemberQ[${fatalStatuses}, MCP\`Private\`entry["status"]],
+        MCP\`Private\`status = MCP\`Private\`entry["status"];
+        Break[]
+      ];
+      ${stopOnError}
+      {MCP\`Private\`i, Length[MCP\`Private\`held]}
+    ]];
+    ${resetDirectory}
+    <|
+      "status" -> MCP\`Private\`status,
+      ${runtimeGuardsActive() ? '"violation" -> MCP`Private`violation, "stage" -> MCP`Private`stage,' : ''}
+      "line" -> MCP\`Private\`line,
+      "cells" -> MCP\`Private\`cells,
+      "imagesOmitted" -> MCP\`Private\`imagesOmitted
+    |>
+  ]
+]`;
+}
+
+/**
+ * Attach output printed before a failure to the error, so it is not lost
+ * @param error - Error to annotate
+ * @param lines - Lines printed so far
+ * @returns The same error
+ */
+function withPartialOutput<T extends MathematicaError>(error: T, lines: string[]): T {
+  if (lines.length > 0 && error.partialOutput === undefined) {
+    error.partialOutput = lines.join('\n');
+  }
+  return error;
+}
+
+/**
+ * Read the cells returned by cells mode
+ * @param value - "cells" value decoded from the kernel's JSON result
+ * @param options - Execution options (the formats the cells were rendered in)
+ * @returns Cell results, with the reason for each failed cell
+ */
+function parseCells(value: unknown, options: ExecuteOptions): CellResult[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap(entry => {
+    if (!entry || typeof entry !== 'object') {
+      return [];
+    }
+
+    const { status, input, timing, messages } = entry as Record<string, unknown>;
+    const cellMessages = parseCapturedMessages(messages);
+    const firstMessage = cellMessages[0];
+    let translationError: string | undefined;
+
+    // Each cell is a bare expression; function definitions apply to whole results only
+    const outputs = Object.fromEntries(requestedFormats(options).map(format => {
+      try {
+        const translated = translateOutput(renderedOutput(entry as Record<string, unknown>, format, options), { format });
+        return [format, formatOutput(translated, format).content];
+      } catch (error) {
+        translationError ??= getErrorMessage(error);
+        return [format, ''];
+      }
+    })) as Partial<Record<OutputFormat, string>>;
+
+    const cell: CellResult = {
+      input: String(input ?? ''),
+      output: outputs[options.format] ?? '',
+      messages: cellMessages,
+      timing: typeof timing === 'number' ? timing : 0,
+    };
+
+    if (options.formats) {
+      cell.outputs = outputs;
+    }
+
+    if (status === 'aborted') {
+      cell.error = 'Evaluation aborted';
+    } else if (status === 'failed') {
+      cell.error = 'Evaluated to $Failed';
+    } else if (firstMessage) {
+      cell.error = `${firstMessage.symbol}::${firstMessage.tag}: ${firstMessage.text}`;
+    } else if (translationError) {
+      cell.error = translationError;
+    }
+
+    return [cell];
+  });
+}
+
+/**
+ * Execute Mathematica code on a warm kernel from the pool
  * @param code - Mathematica code to execute
  * @param options - Execution options (timeout, format)
  * @returns Execution result with formatted output
  * @throws {MathematicaTimeoutError} If execution exceeds timeout
+ * @throws {MathematicaCancelledError} If options.signal is aborted
+ * @throws {MathematicaMemoryLimitError} If the evaluation exceeds its memory limit
+ * @throws {MathematicaCpuLimitError} If the evaluation exceeds its CPU limit
+ * @throws {MathematicaOutputLimitError} If the evaluation prints or returns too much
+ * @throws {SandboxViolationError} If the code uses a symbol the sandbox policy forbids
+ * @throws {PathNotAllowedError} If the working directory or a file the code accesses is outside the workspace roots
  * @throws {MathematicaExecutionError} If execution fails
  */
 export async function executeWolframScript(
   code: string,
-  options: ExecuteOptions,
-  wolframPath: string = 'wolframscript'
+  options: ExecuteOptions
 ): Promise<ExecutionResult> {
   const { timeout, format } = options;
 
@@ -73,96 +584,194 @@ export async function executeWolframScript(
     timeout,
   });
 
-  // Get format transformation
-  const formatFunc = getFormatOption(format);
+  // Evaluations always run inside the workspace, in the default root unless a path is given
+  const directory = resolveWorkspacePath(options.path);
+  logger.debug(`Working directory set to: ${directory}`);
 
-  // Wrap code with format transformation if needed
-  const wrappedCode = format === 'text'
-    ? code
-    : `${formatFunc}[${code}]`;
+  const policy = getSandboxPolicy();
+  assertCodeAllowed(code, policy);
 
-  // timeout is already in seconds
-  const timeoutSec = timeout;
+  const wrappedCode = buildEvaluationCode(code, { ...options, path: directory });
 
   const startTime = Date.now();
 
+  let evaluation: KernelEvaluation;
+
+  const { signal, onProgress, onOutput } = options;
+
+  // Printed lines are collected here as they stream in, so they survive a killed kernel
+  const printed: string[] = [];
+
+  const run = (kernel: WolframKernel) =>
+    kernel.evaluate(wrappedCode, {
+      timeoutMs: timeout * 1000 + KERNEL_TIMEOUT_GRACE_MS,
+      signal,
+      onProgress: onProgress
+        ? ({ progress, message }) => onProgress(progress, message)
+        : undefined,
+      onOutput: (line, stream) => {
+        if (stream === 'stdout') {
+          printed.push(line);
+        }
+        onOutput?.(line, stream);
+      },
+      maxOutputBytes: options.maxOutputBytes || undefined,
+      maxCpuSeconds: options.cpuLimit || undefined,
+    });
+
   try {
-    logger.debug(`Executing with ${timeoutSec}s wolframscript timeout`);
+    evaluation = options.sessionId
+      ? await getSessionManager().withSession(options.sessionId, options.clientId ?? 'default', run, signal)
+      : await getKernelPool().withKernel(run, signal);
+  } catch (error) {
+    if (error instanceof MathematicaTimeoutError) {
+      logger.error(`Execution timed out after ${timeout}s (kernel killed)`);
+      throw withPartialOutput(new MathematicaTimeoutError(timeout * 1000), printed);
+    }
 
-    // Execute using Bun's $ with template literal for safe escaping
-    let proc = $`${wolframPath} -timeout ${timeoutSec} -code ${wrappedCode}`.quiet();
+    if (error instanceof MathematicaCancelledError) {
+      logger.info(`Execution cancelled after ${Date.now() - startTime}ms (kernel killed)`);
+      throw withPartialOutput(error, printed);
+    }
 
-    // Set working directory if path is provided
-    if (options.path) {
-      proc = proc.cwd(options.path);
-      logger.debug(`Working directory set to: ${options.path}`);
+    // Output that broke the limit is not worth echoing back
+    if (error instanceof MathematicaOutputLimitError) {
+      throw error;
     }
 
-    // Implement timeout using Promise.race
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('timeout')), timeout * 1000);
-    });
+    if (isMathematicaError(error)) {
+      throw withPartialOutput(error, printed);
+    }
 
-    const result = await Promise.race([proc, timeoutPromise]);
+    throw withPartialOutput(new MathematicaExecutionError(getErrorMessage(error), error), printed);
+  }
 
-    const output = result.stdout.toString();
-    const stderr = result.stderr.toString();
+  const executionTime = Date.now() - startTime;
+  const { data, stdout, stderr } = evaluation;
 
-    // Filter out benign WolframScript warnings
-    if (stderr && stderr.trim().length > 0) {
-      const stderrTrimmed = stderr.trim();
+  // In cells mode, the outputs of completed cells count as output printed so far
+  const cells = options.cells ? parseCells(data.cells, options) : undefined;
+  const partial = cells
+    ? [...stdout, ...cells.map(cell => cell.output).filter(output => output.length > 0)]
+    : stdout;
 
-      // Ignore known benign warnings
-      const benignWarnings = [
-        'Failed to open configuaration file at path:', // WolframScript config file warning (typo is intentional)
-        'Failed to open configuration file at path:',  // Also handle correct spelling
-      ];
+  if (data.status === 'timeout') {
+    logger.error(`Execution timed out after ${timeout}s`);
+    throw withPartialOutput(new MathematicaTimeoutError(timeout * 1000), partial);
+  }
 
-      const isBenignWarning = benignWarnings.some(warning =>
-        stderrTrimmed.includes(warning)
-      );
+  if (data.status === 'memory') {
+    const limit = (options.memoryLimitMb ?? 0) * 1024 * 1024;
+    logger.error(`Execution exceeded memory limit of ${limit} bytes`);
+    throw withPartialOutput(new MathematicaMemoryLimitError(limit, 'kernel'), partial);
+  }
 
-      if (!isBenignWarning) {
-        logger.warn('WolframScript stderr output:', stderrTrimmed);
-      } else {
-        logger.debug('WolframScript benign warning (ignored):', stderrTrimmed);
-      }
-    }
+  if (data.status === 'sandbox') {
+    const symbol = String(data.violation);
+    const stage = data.stage === 'static' ? 'static' : 'runtime';
+    logger.warn(`Sandbox (${policy.preset}) blocked ${symbol} ${stage === 'static' ? 'before' : 'during'} evaluation`);
+    throw withPartialOutput(new SandboxViolationError(symbol, policy.preset, stage), partial);
+  }
 
-    const executionTime = Date.now() - startTime;
+  if (data.status === 'path') {
+    const path = String(data.violation);
+    logger.warn(`Blocked file access outside the workspace: ${path}`);
+    throw withPartialOutput(new PathNotAllowedError(path, getWorkspaceRoots()), partial);
+  }
 
-    logger.debug(`Execution completed in ${executionTime}ms`);
+  if (data.status !== 'ok') {
+    const errorMessage = String(data.error ?? '')
+      || (stderr.length > 0 ? extractErrorMessage(stderr.join('\n')) : '')
+      || `Kernel returned status ${data.status}`;
 
-    // Format the output
-    return formatOutput(output, format, executionTime);
-  } catch (error: any) {
-    const executionTime = Date.now() - startTime;
+    logger.error('Execution failed:', {
+      error: errorMessage,
+      executionTime,
+    });
 
-    // Check if it's a timeout error
-    if (error.name === 'TimeoutError' || error.message?.includes('timed out')) {
-      logger.error(`Execution timed out after ${timeout}s`);
-      throw new MathematicaTimeoutError(timeout * 1000);
-    }
+    throw withPartialOutput(new MathematicaExecutionError(errorMessage), partial);
+  }
+
+  logger.debug(`Execution completed in ${executionTime}ms`);
+
+  // Printed output comes first, followed by the result, as wolframscript -code would show it.
+  // Other formats stay parseable: printed lines are left out and JSON cells form an array.
+  // Cell outputs are formatted already.
+  const render = (outputFormat: OutputFormat): string => {
+    const printedLines = keepsPrintedOutput(outputFormat) ? stdout : [];
 
-    // Check if wolframscript is not found
-    if (error.code === 'ENOENT' || error.message?.includes('not found')) {
-      logger.error(`WolframScript not found at: ${wolframPath}`);
-      throw new WolframScriptNotFoundError(wolframPath);
+    if (cells) {
+      const cellOutputs = cells.map(cell => cell.outputs?.[outputFormat] ?? cell.output);
+      return outputFormat === 'json'
+        ? `[${cellOutputs.join(',')}]`
+        : [...printedLines, ...cellOutputs.filter(text => text.length > 0)].join('\n');
     }
 
-    // Extract error message from stderr if available
-    const stderr = error.stderr?.toString() || '';
-    const stdout = error.stdout?.toString() || '';
-    const errorMessage = stderr.trim() || stdout.trim() || error.message || 'Unknown error';
+    const translated = translateOutput(renderedOutput(data, outputFormat, options), { ...options, format: outputFormat });
+    return formatOutput([...printedLines, translated].join('\n'), outputFormat).content;
+  };
 
-    logger.error('Execution failed:', {
-      error: errorMessage,
-      executionTime,
-      exitCode: error.exitCode,
-    });
+  // Every rendering comes from the same evaluation
+  const outputs = Object.fromEntries(
+    requestedFormats(options).map(outputFormat => [outputFormat, render(outputFormat)])
+  ) as Partial<Record<OutputFormat, string>>;
+  const output = outputs[format] ?? '';
+  const outputBytes = Object.values(outputs).reduce((total, text) => total + Buffer.byteLength(text, 'utf-8'), 0);
+
+  if (options.maxOutputBytes && outputBytes > options.maxOutputBytes) {
+    logger.error(`Execution output exceeded limit of ${options.maxOutputBytes} bytes`);
+    throw new MathematicaOutputLimitError(options.maxOutputBytes);
+  }
+
+  // Messages captured in the kernel, plus any that were printed to stderr around it
+  const messages = [
+    ...(cells ? cells.flatMap(cell => cell.messages) : parseCapturedMessages(data.messages)),
+    ...extractMessagesFromLines(stderr),
+  ];
+
+  if (options.failOnMessages && messages.length > 0) {
+    logger.info(`Execution issued ${messages.length} message(s), failing as requested`);
+    throw withPartialOutput(new MathematicaMessageError(messages), [output]);
+  }
+
+  const result: ExecutionResult = {
+    format,
+    content: output,
+    executionTime,
+    messages,
+  };
+
+  if (options.formats) {
+    result.outputs = outputs;
+  }
 
-    throw new MathematicaExecutionError(errorMessage, error);
+  if (cells) {
+    result.cells = cells;
   }
+
+  // Cells carry their own images, in cell order
+  const images = cells && Array.isArray(data.cells)
+    ? data.cells.flatMap(entry => parseImages((entry as Record<string, unknown> | null)?.images))
+    : parseImages(data.images);
+
+  if (images.length > 0) {
+    result.images = images;
+  }
+
+  if (typeof data.imagesOmitted === 'number' && data.imagesOmitted > 0) {
+    logger.info(`Omitted ${data.imagesOmitted} image(s) over the image limits`);
+    result.imagesOmitted = data.imagesOmitted;
+  }
+
+  if (options.sessionId) {
+    result.sessionId = options.sessionId;
+
+    if (typeof data.line === 'number') {
+      result.line = data.line;
+    }
+  }
+
+  return result;
 }
 
 /**
@@ -173,37 +782,58 @@ export async function executeWolframScript(
  */
 export async function executeSimple(
   expression: string,
-  timeout: number = 300,
-  wolframPath: string = 'wolframscript'
+  timeout: number = 300
 ): Promise<string> {
   const result = await executeWolframScript(
     expression,
     {
       timeout,
       format: 'text',
-    },
-    wolframPath
+    }
   );
 
   return result.content;
 }
 
 /**
- * Warm up the Wolfram Kernel by executing a simple computation
- * This ensures the kernel is fully initialized and ready to accept requests
- * @param wolframPath - Path to wolframscript
+ * Ask a pooled kernel for its version
+ * @returns $Version, e.g. "14.1.0 for Linux x86 (64-bit) (July 16, 2024)"
+ */
+export async function getKernelVersion(): Promise<string> {
+  return executeSimple('$Version', 10);
+}
+
+/**
+ * Start the kernel pool and verify it with a simple computation
+ * This ensures kernels are running and ready to accept requests
+ * @param config - Environment configuration (pool settings and wolframscript path)
  * @returns true if warmup successful, false otherwise
  */
-export async function warmupWolframKernel(
-  wolframPath: string = 'wolframscript'
-): Promise<boolean> {
+export async function warmupWolframKernel(config: EnvConfig): Promise<boolean> {
   try {
-    logger.info('Warming up Wolfram Kernel...');
+    logger.info('Warming up Wolfram Kernel pool...');
+
+    // Kernels install the sandbox's runtime blocks and load the preloaded packages as they start
+    initSandboxPolicy(config);
+    initPreloadPackages(config.PRELOAD_PACKAGES);
 
     const startTime = Date.now();
 
-    // Execute a simple computation to initialize the kernel
-    const result = await executeSimple('1+1', 10, wolframPath);
+    const pool = initKernelPool({
+      wolframPath: config.WOLFRAM_SCRIPT_PATH,
+      size: config.KERNEL_POOL_SIZE,
+      maxEvaluations: config.KERNEL_MAX_EVALUATIONS,
+      idleTimeout: config.KERNEL_IDLE_TIMEOUT,
+      processLimits: {
+        memoryMb: config.KERNEL_MEMORY_LIMIT_MB,
+        cgroupRoot: config.KERNEL_CGROUP,
+      },
+    });
+
+    await pool.start();
+
+    // Execute a simple computation on a pooled kernel
+    const result = await executeSimple('1+1', 10);
 
     const elapsedTime = Date.now() - startTime;
 
@@ -1,10 +1,11 @@
 /**
  * Output formatter for Mathematica execution results.
- * Handles different output formats: text, latex, and mathematica.
+ * Handles different output formats: text, latex, mathematica, mathml, html, and json.
  */
 
 import type { OutputFormat, ExecutionResult } from '../config/schema.ts';
 import { logger } from '../utils/logger.ts';
+import { parseJsonOutput } from './json-format.ts';
 
 /**
  * Clean and format raw Mathematica output
@@ -59,6 +60,51 @@ function formatMathematicaOutput(rawOutput: string): string {
   return cleaned;
 }
 
+/**
+ * Format MathML output
+ * @param rawOutput - Raw output from the kernel (MathMLForm or exported MathML)
+ * @returns The math element, without an XML declaration or doctype
+ */
+function formatMathMLOutput(rawOutput: string): string {
+  const cleaned = cleanOutput(rawOutput);
+
+  // Exported MathML may start with a prolog, which cannot be embedded in other documents
+  return cleaned
+    .replace(/^<\?xml[^>]*\?>\s*/, '')
+    .replace(/^<!DOCTYPE[^>]*>\s*/i, '');
+}
+
+/**
+ * Format HTML output
+ * @param rawOutput - Raw output from the kernel (MathMLForm)
+ * @returns A div holding the result as block-level MathML, or an empty string
+ */
+function formatHtmlOutput(rawOutput: string): string {
+  const math = formatMathMLOutput(rawOutput);
+
+  if (math.length === 0) {
+    return '';
+  }
+
+  const block = /^<math\b[^>]*\bdisplay=/.test(math) ? math : math.replace(/^<math\b/, '<math display="block"');
+
+  return `<div class="mathematica-output">\n${block}\n</div>`;
+}
+
+/**
+ * Format JSON output
+ * @param rawOutput - Raw output from the kernel (compact JSON, see WolframJsonSchema)
+ * @returns JSON text, unchanged apart from cleaning
+ */
+function formatJsonOutput(rawOutput: string): string {
+  const cleaned = cleanOutput(rawOutput);
+
+  // Mismatches are only logged; the kernel's JSON is still returned as is
+  parseJsonOutput(cleaned);
+
+  return cleaned;
+}
+
 /**
  * Format execution result based on output format
  * @param rawOutput - Raw output from wolframscript
@@ -84,6 +130,18 @@ export function formatOutput(
       content = formatMathematicaOutput(rawOutput);
       break;
 
+    case 'mathml':
+      content = formatMathMLOutput(rawOutput);
+      break;
+
+    case 'html':
+      content = formatHtmlOutput(rawOutput);
+      break;
+
+    case 'json':
+      content = formatJsonOutput(rawOutput);
+      break;
+
     case 'text':
     default:
       content = formatTextOutput(rawOutput);
@@ -159,15 +217,17 @@ export function prettyPrintResult(result: ExecutionResult, indent: number = 2):
  * Truncate output if it exceeds maximum length
  * @param output - Output string
  * @param maxLength - Maximum length (default: 10000)
+ * @param fullOutputUri - Resource the full output can be read from, named in the note
  * @returns Truncated output with ellipsis if needed
  */
-export function truncateOutput(output: string, maxLength: number = 10000): string {
+export function truncateOutput(output: string, maxLength: number = 10000, fullOutputUri?: string): string {
   if (output.length <= maxLength) {
     return output;
   }
 
   const truncated = output.substring(0, maxLength);
-  const truncationMessage = `\n\n... [Output truncated. Full length: ${output.length} characters]`;
+  const source = fullOutputUri ? `. Read the rest from ${fullOutputUri}` : '';
+  const truncationMessage = `\n\n... [Output truncated. Full length: ${output.length} characters${source}]`;
 
   return truncated + truncationMessage;
 }
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import type { ImageFormat } from '../config/schema.ts';
+import { buildImageExportDefinitions, FRONTEND_START_CODE, parseImages } from './graphics.ts';
+import { buildSandboxInstallCode, resolveSandboxPolicy, sandboxExpression } from './sandbox.ts';
+
+const wolframscript = Bun.which(process.env.WOLFRAM_SCRIPT_PATH ?? 'wolframscript');
+
+/**
+ * Export a plot in a fresh kernel set up like a pooled one: front end started,
+ * default sandbox installed, and the export running under the runtime guards
+ */
+function exportPlot(format: ImageFormat): Record<string, unknown> {
+  const options = { format, width: 300, resolution: 72, maxBytes: 1024 * 1024, maxCount: 1 };
+  const code = `${FRONTEND_START_CODE};
+${buildSandboxInstallCode(resolveSandboxPolicy('filesystem-readonly'), [], crypto.randomUUID())};
+${buildImageExportDefinitions(options)}
+Block[{MCP\`Private\`imagesLeft = 1, MCP\`Private\`imagesOmitted = 0},
+  ExportString[<|
+    "images" -> ${sandboxExpression('MCP`Private`exportImages[Plot[Sin[x], {x, 0, Pi}]]')},
+    "imagesOmitted" -> MCP\`Private\`imagesOmitted,
+    "violation" -> MCP\`Private\`violation
+  |>, "RawJSON", "Compact" -> True]
+]`;
+  const proc = Bun.spawnSync([wolframscript!, '-code', code], { timeout: 300_000 });
+
+  return JSON.parse(proc.stdout.toString().trim().split('\n').pop() ?? '{}');
+}
+
+describe('graphics export', () => {
+  test.skipIf(!wolframscript)('renders a plot as PNG under the default sandbox', () => {
+    const result = exportPlot('png');
+    const [image] = parseImages(result.images);
+
+    expect(result.violation).toBeNull();
+    expect(result.imagesOmitted).toBe(0);
+    expect(image?.mimeType).toBe('image/png');
+    expect(Buffer.from(image?.data ?? '', 'base64').subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  test.skipIf(!wolframscript)('renders a plot as SVG under the default sandbox', () => {
+    const [image] = parseImages(exportPlot('svg').images);
+
+    expect(image?.mimeType).toBe('image/svg+xml');
+    expect(Buffer.from(image?.data ?? '', 'base64').toString()).toContain('<svg');
+  });
+
+  test('keeps only well-formed images', () => {
+    expect(parseImages([{ mimeType: 'image/png', data: 'AAAA' }, { mimeType: 'image/png' }, null])).toEqual([
+      { mimeType: 'image/png', data: 'AAAA' },
+    ]);
+    expect(parseImages('not a list')).toEqual([]);
+  });
+});
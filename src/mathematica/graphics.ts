@@ -0,0 +1,132 @@
+/**
+ * Graphics results as images.
+ * Finds graphics, images, graphs and legended plots in a result, exports them
+ * to PNG or SVG in the kernel and reads them back for MCP image content.
+ */
+
+import type { ImageOptions, ResultImage } from '../config/schema.ts';
+import { getErrorMessage } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import type { WolframKernel } from './kernel.ts';
+import { toWolframString } from './wolfram-code.ts';
+
+/**
+ * Seconds allowed for exporting one image
+ */
+const IMAGE_EXPORT_TIMEOUT = 30;
+
+/**
+ * Time allowed for starting the front end in a new kernel
+ */
+const FRONTEND_START_TIMEOUT_MS = 120_000;
+
+/**
+ * Code that starts the front end and exports a small graphic in each format.
+ * Exporting graphics needs the front end, and launching it goes through
+ * LinkLaunch and Environment, which the sandbox blocks while user code runs;
+ * started here, before any code runs, it is up for the sealed export. The
+ * export converters are loaded now as well, for the same reason.
+ */
+export const FRONTEND_START_CODE = `
+Quiet[
+  Developer\`InstallFrontEnd[];
+  <|
+    "status" -> "ok",
+    "exported" -> AllTrue[{"PNG", "SVG"}, ByteArrayQ[ExportByteArray[Graphics[Disk[]], #]] &]
+  |>
+]`;
+
+/**
+ * MIME types of the export formats
+ */
+const MIME_TYPES: Record<ImageOptions['format'], string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Build the definitions used by exportImagesCode.
+ * MCP`Private`exportImages[expr] exports the graphics found in expr (inside lists
+ * and associations too) while the shared budget MCP`Private`imagesLeft lasts;
+ * graphics that are skipped, fail to export or exceed the byte limit are counted
+ * in MCP`Private`imagesOmitted.
+ * @param options - Image export options
+ */
+export function buildImageExportDefinitions(options: ImageOptions): string {
+  const exportOptions = options.format === 'png'
+    ? `ImageSize -> ${options.width}, ImageResolution -> ${options.resolution}`
+    : `ImageSize -> ${options.width}`;
+
+  return `
+ClearAll[MCP\`Private\`collectGraphics, MCP\`Private\`exportImage, MCP\`Private\`exportImages];
+MCP\`Private\`collectGraphics[MCP\`Private\`g : (_Graphics | _Graphics3D | _GeoGraphics | _Image | _Image3D |
+    _Graph | _Legended | _GraphicsGrid | _GraphicsRow | _GraphicsColumn)] := {MCP\`Private\`g};
+MCP\`Private\`collectGraphics[MCP\`Private\`l_List] := Join @@ (MCP\`Private\`collectGraphics /@ MCP\`Private\`l);
+MCP\`Private\`collectGraphics[MCP\`Private\`a_Association] := MCP\`Private\`collectGraphics[Values[MCP\`Private\`a]];
+MCP\`Private\`collectGraphics[_] := {};
+MCP\`Private\`exportImage[MCP\`Private\`g_] := With[
+  {MCP\`Private\`bytes = Quiet[TimeConstrained[
+    ExportByteArray[MCP\`Private\`g, ${toWolframString(options.format.toUpperCase())}, ${exportOptions}],
+    ${IMAGE_EXPORT_TIMEOUT},
+    $Failed
+  ]]},
+  If[ByteArrayQ[MCP\`Private\`bytes] && Length[MCP\`Private\`bytes] <= ${options.maxBytes},
+    <|"mimeType" -> ${toWolframString(MIME_TYPES[options.format])}, "data" -> BaseEncode[MCP\`Private\`bytes]|>,
+    MCP\`Private\`imagesOmitted++;
+    Nothing
+  ]
+];
+MCP\`Private\`exportImages[MCP\`Private\`expr_] := Module[
+  {MCP\`Private\`graphics = MCP\`Private\`collectGraphics[MCP\`Private\`expr], MCP\`Private\`images},
+  MCP\`Private\`imagesOmitted += Max[Length[MCP\`Private\`graphics] - MCP\`Private\`imagesLeft, 0];
+  MCP\`Private\`images = MCP\`Private\`exportImage /@
+    Take[MCP\`Private\`graphics, UpTo[MCP\`Private\`imagesLeft]];
+  MCP\`Private\`imagesLeft -= Length[MCP\`Private\`images];
+  MCP\`Private\`images
+];
+`;
+}
+
+/**
+ * Start the front end in a freshly started kernel, so that graphics can be
+ * exported as images. A kernel without one still works; its graphics are then
+ * omitted from results.
+ */
+export async function startFrontEnd(kernel: WolframKernel): Promise<void> {
+  try {
+    const { data } = await kernel.evaluate(FRONTEND_START_CODE, { timeoutMs: FRONTEND_START_TIMEOUT_MS });
+
+    if (data.exported === true) {
+      logger.debug(`[Kernel ${kernel.id}] Front end started`);
+    } else {
+      logger.warn(`[Kernel ${kernel.id}] Front end could not export graphics; images will be omitted`);
+    }
+  } catch (error) {
+    logger.warn(`[Kernel ${kernel.id}] Failed to start the front end: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Read the images returned by the kernel
+ * @param value - "images" value decoded from the kernel's JSON result
+ * @returns Well-formed images
+ */
+export function parseImages(value: unknown): ResultImage[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap(entry => {
+    if (!entry || typeof entry !== 'object') {
+      return [];
+    }
+
+    const { mimeType, data } = entry as Record<string, unknown>;
+
+    if (typeof mimeType !== 'string' || typeof data !== 'string') {
+      return [];
+    }
+
+    return [{ mimeType, data }];
+  });
+}
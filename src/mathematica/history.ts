@@ -0,0 +1,163 @@
+/**
+ * Execution history.
+ * Records each execution with its code, result, messages and timing, so that
+ * clients can look back at and cite earlier results as mma://history resources.
+ */
+
+import type { HistoryEntry } from '../config/schema.ts';
+import { ResourceNotFoundError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+
+/**
+ * URI prefix of history entries
+ */
+export const HISTORY_URI_PREFIX = 'mma://history/';
+
+/**
+ * Execution history configuration
+ */
+export interface ExecutionHistoryOptions {
+  /** Entries kept; the oldest are dropped first */
+  maxEntries: number;
+}
+
+/**
+ * Caller whose entries may be read: entries recorded for the same client, and
+ * for callers that authenticated with an API key, entries recorded with that key
+ */
+export interface HistoryOwner {
+  clientId: string;
+  /** Fingerprint of the caller's API key (HTTP only) */
+  apiKey?: string;
+}
+
+/**
+ * Filters for listing history entries
+ */
+export interface HistoryFilter {
+  sessionId?: string;
+  apiKey?: string;
+  /** Most recent entries returned (default: all) */
+  limit?: number;
+}
+
+/**
+ * Build the URI of a history entry
+ */
+export function historyUri(id: string): string {
+  return `${HISTORY_URI_PREFIX}${id}`;
+}
+
+/**
+ * Whether a caller may read an entry
+ */
+function isOwnedBy(entry: HistoryEntry, owner: HistoryOwner): boolean {
+  return entry.clientId === owner.clientId ||
+    (owner.apiKey !== undefined && entry.apiKey === owner.apiKey);
+}
+
+/**
+ * Bounded, in-memory record of executions
+ */
+export class ExecutionHistory {
+  private readonly options: ExecutionHistoryOptions;
+  /** Insertion order is age order: the first entry is the oldest */
+  private readonly entries = new Map<string, HistoryEntry>();
+
+  constructor(options: ExecutionHistoryOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Record an execution
+   * @param execution - Everything but the id, URI and timestamp, which are assigned here
+   * @returns The recorded entry
+   */
+  public record(execution: Omit<HistoryEntry, 'id' | 'uri' | 'timestamp'>): HistoryEntry {
+    const id = crypto.randomUUID();
+    const entry: HistoryEntry = {
+      id,
+      uri: historyUri(id),
+      timestamp: new Date().toISOString(),
+      ...execution,
+    };
+
+    this.entries.set(id, entry);
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+
+    logger.debug(`[History ${id}] Recorded ${entry.tool} call (${entry.status})`);
+
+    return entry;
+  }
+
+  /**
+   * Get an entry
+   * @param id - Entry id
+   * @param owner - Caller reading it
+   * @throws {ResourceNotFoundError} If the entry does not exist, has been dropped or belongs to another caller
+   */
+  public get(id: string, owner: HistoryOwner): HistoryEntry {
+    const entry = this.entries.get(id);
+
+    if (!entry || !isOwnedBy(entry, owner)) {
+      throw new ResourceNotFoundError(historyUri(id));
+    }
+
+    return entry;
+  }
+
+  /**
+   * List a caller's entries, newest first
+   * @param owner - Caller listing them
+   * @param filter - Filters within the caller's entries
+   */
+  public list(owner: HistoryOwner, filter: HistoryFilter = {}): HistoryEntry[] {
+    const entries = [...this.entries.values()]
+      .reverse()
+      .filter(entry =>
+        isOwnedBy(entry, owner) &&
+        (filter.sessionId === undefined || entry.sessionId === filter.sessionId) &&
+        (filter.apiKey === undefined || entry.apiKey === filter.apiKey)
+      );
+
+    return filter.limit !== undefined ? entries.slice(0, filter.limit) : entries;
+  }
+
+  /**
+   * Number of recorded entries
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Global history, created during server startup unless disabled
+let executionHistory: ExecutionHistory | null = null;
+
+/**
+ * Create the global execution history (replacing any previous one)
+ */
+export function initExecutionHistory(options: ExecutionHistoryOptions): ExecutionHistory {
+  executionHistory = new ExecutionHistory(options);
+  return executionHistory;
+}
+
+/**
+ * Get the global execution history, or null if history is disabled
+ */
+export function getExecutionHistory(): ExecutionHistory | null {
+  return executionHistory;
+}
+
+/**
+ * Drop the global execution history
+ */
+export function shutdownExecutionHistory(): void {
+  executionHistory = null;
+}
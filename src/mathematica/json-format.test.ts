@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  buildJsonConverterDefinitions,
+  JSON_RENDER_CODE,
+  parseJsonOutput,
+} from './json-format.ts';
+
+const wolframscript = Bun.which(process.env.WOLFRAM_SCRIPT_PATH ?? 'wolframscript');
+
+/**
+ * Render an expression with the json format in a fresh kernel
+ */
+function render(expression: string): unknown {
+  const code = `${buildJsonConverterDefinitions()}
+MCP\`Private\`result = ${expression};
+${JSON_RENDER_CODE}`;
+  const proc = Bun.spawnSync([wolframscript!, '-code', code], { timeout: 120_000 });
+
+  return parseJsonOutput(proc.stdout.toString().trim());
+}
+
+describe('json format', () => {
+  test.skipIf(!wolframscript)('renders the value of the result, not the symbol holding it', () => {
+    expect(render('{1/3, x, "text", True}')).toEqual([
+      { $type: 'Rational', numerator: '1', denominator: '3' },
+      { $type: 'Symbol', name: 'x', context: 'Global`' },
+      'text',
+      true,
+    ]);
+  });
+
+  test.skipIf(!wolframscript)('keeps the digits of integers and exact complex numbers', () => {
+    expect(render('2^70 + I')).toEqual({
+      $type: 'Complex',
+      re: { $type: 'Integer', value: '1180591620717411303424' },
+      im: { $type: 'Integer', value: '1' },
+    });
+  });
+
+  test('accepts kernel output that follows the documented mapping', () => {
+    expect(parseJsonOutput('{"$type":"Integer","value":"42"}')).toEqual({ $type: 'Integer', value: '42' });
+    expect(parseJsonOutput('{"$type":"Symbol","name":"result"}')).toBeUndefined();
+  });
+});
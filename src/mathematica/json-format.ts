@@ -0,0 +1,104 @@
+/**
+ * JSON output format.
+ * Converts a result to the JSON mapping documented by WolframJsonSchema in the
+ * kernel, so that exact and arbitrary-precision numbers survive the trip.
+ */
+
+import { WolframJsonSchema, type WolframJson } from '../config/schema.ts';
+import { logger } from '../utils/logger.ts';
+
+/**
+ * Build the definition of MCP`Private`toJSON, which maps an expression to
+ * lists and associations that export as RawJSON:
+ * - strings, True/False and Null map to their JSON counterparts
+ * - lists map to arrays, associations with string keys to objects
+ * - numbers map to tagged objects carrying their digits as strings
+ * - anything else maps to a tagged {head, args} tree
+ * The conversion holds its argument, so parts are never re-evaluated.
+ */
+export function buildJsonConverterDefinitions(): string {
+  return `
+ClearAll[MCP\`Private\`toJSON, MCP\`Private\`jsonDigits, MCP\`Private\`jsonArgs];
+SetAttributes[{MCP\`Private\`toJSON, MCP\`Private\`jsonArgs}, HoldAllComplete];
+MCP\`Private\`jsonDigits[MCP\`Private\`x_] := StringReplace[ToString[MCP\`Private\`x, InputForm, NumberMarks -> False], "*^" -> "e"];
+MCP\`Private\`jsonArgs[MCP\`Private\`e_] := List @@ (MCP\`Private\`toJSON /@ Level[Unevaluated[MCP\`Private\`e], {1}, Hold, Heads -> False]);
+MCP\`Private\`toJSON[MCP\`Private\`s_String] := MCP\`Private\`s;
+MCP\`Private\`toJSON[True] := True;
+MCP\`Private\`toJSON[False] := False;
+MCP\`Private\`toJSON[Null] := Null;
+MCP\`Private\`toJSON[MCP\`Private\`n_Integer] := <|"$type" -> "Integer", "value" -> ToString[MCP\`Private\`n, InputForm]|>;
+MCP\`Private\`toJSON[MCP\`Private\`x_Real] := <|
+  "$type" -> "Real",
+  "value" -> MCP\`Private\`jsonDigits[MCP\`Private\`x],
+  "precision" -> If[MachineNumberQ[MCP\`Private\`x], Null, N[Precision[MCP\`Private\`x]]]
+|>;
+MCP\`Private\`toJSON[MCP\`Private\`q_Rational] := <|
+  "$type" -> "Rational",
+  "numerator" -> ToString[Numerator[MCP\`Private\`q], InputForm],
+  "denominator" -> ToString[Denominator[MCP\`Private\`q], InputForm]
+|>;
+MCP\`Private\`toJSON[MCP\`Private\`z_Complex] := <|
+  "$type" -> "Complex",
+  "re" -> MCP\`Private\`toJSON @@ {Re[MCP\`Private\`z]},
+  "im" -> MCP\`Private\`toJSON @@ {Im[MCP\`Private\`z]}
+|>;
+MCP\`Private\`toJSON[MCP\`Private\`s_Symbol] := <|
+  "$type" -> "Symbol",
+  "name" -> SymbolName[Unevaluated[MCP\`Private\`s]],
+  "context" -> Context[Unevaluated[MCP\`Private\`s]]
+|>;
+MCP\`Private\`toJSON[MCP\`Private\`l_List] := MCP\`Private\`jsonArgs[MCP\`Private\`l];
+MCP\`Private\`toJSON[MCP\`Private\`a_Association] := If[
+  AllTrue[Keys[MCP\`Private\`a], StringQ] && !KeyExistsQ[MCP\`Private\`a, "$type"],
+  MCP\`Private\`toJSON /@ MCP\`Private\`a,
+  <|
+    "$type" -> "Expression",
+    "head" -> MCP\`Private\`toJSON[Association],
+    "args" -> MCP\`Private\`jsonArgs @@ {Normal[MCP\`Private\`a]}
+  |>
+];
+MCP\`Private\`toJSON[MCP\`Private\`e_ /; AtomQ[Unevaluated[MCP\`Private\`e]]] := <|
+  "$type" -> "Atom",
+  "head" -> SymbolName[Head[Unevaluated[MCP\`Private\`e]]],
+  "inputForm" -> ToString[Unevaluated[MCP\`Private\`e], InputForm]
+|>;
+MCP\`Private\`toJSON[MCP\`Private\`e_] := <|
+  "$type" -> "Expression",
+  "head" -> MCP\`Private\`toJSON @@ Head[Unevaluated[MCP\`Private\`e], Hold],
+  "args" -> MCP\`Private\`jsonArgs[MCP\`Private\`e]
+|>;
+`;
+}
+
+/**
+ * Wolfram Language expression rendering the value of MCP`Private`result as
+ * compact JSON. The value is spliced in with Apply, since toJSON holds its
+ * argument and would otherwise convert the symbol itself.
+ */
+export const JSON_RENDER_CODE =
+  'ExportString[MCP`Private`toJSON @@ {MCP`Private`result}, "RawJSON", "Compact" -> True]';
+
+/**
+ * Check that JSON output from the kernel follows WolframJsonSchema
+ * @param output - JSON text returned by the kernel
+ * @returns The parsed value, or undefined if it is not valid
+ */
+export function parseJsonOutput(output: string): WolframJson | undefined {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(output);
+  } catch {
+    logger.warn(`Kernel returned invalid JSON output (${output.length} characters)`);
+    return undefined;
+  }
+
+  const parsed = WolframJsonSchema.safeParse(value);
+
+  if (!parsed.success) {
+    logger.warn(`Kernel JSON output does not follow the documented mapping (${output.length} characters)`);
+    return undefined;
+  }
+
+  return parsed.data;
+}
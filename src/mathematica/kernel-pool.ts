@@ -0,0 +1,606 @@
+/**
+ * Pool of warm Wolfram kernels.
+ * Hands out long-lived kernels per evaluation, resets their state between uses,
+ * and recycles them after a number of evaluations, on crash, or when idle.
+ */
+
+import { MathematicaExecutionError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { startFrontEnd } from './graphics.ts';
+import { WolframKernel, cancelledErrorFromSignal } from './kernel.ts';
+import type { KernelProcessLimits } from './resource-limits.ts';
+import { loadPreloadPackages } from './packages.ts';
+import { DYNAMIC_CODE_SYMBOLS, installSandbox } from './sandbox.ts';
+
+/**
+ * Time allowed for a kernel to start and report READY
+ */
+const KERNEL_STARTUP_TIMEOUT_MS = 120_000;
+
+/**
+ * Time allowed for resetting a kernel between uses
+ */
+const KERNEL_RESET_TIMEOUT_MS = 30_000;
+
+/**
+ * Global settings user code may change, restored to their values at startup
+ * on every reset
+ */
+const KERNEL_SETTINGS = [
+  '$RecursionLimit', '$IterationLimit', '$MaxExtraPrecision', '$MinPrecision', '$MaxPrecision',
+  '$HistoryLength', '$Assumptions',
+];
+
+/**
+ * Hooks user code may install, which apply to every later evaluation
+ */
+const KERNEL_HOOKS = ['$Pre', '$Post', '$PrePrint', '$PreRead', '$SyntaxHandler', '$NewMessage', '$NewSymbol'];
+
+/**
+ * Symbols through which code can change kernel state that the reset does not
+ * undo: options, message switches, system options, the search path and output
+ * streams, contexts other than Global`, and code read at runtime, which may do
+ * any of these. Code built from strings or bytes is added from the sandbox's list.
+ */
+const GLOBAL_STATE_SYMBOLS = [
+  'SetOptions', 'Off', 'On', 'SetSystemOptions', '$Path', '$Output', 'Begin', 'BeginPackage',
+  'Get', 'Needs', 'DeclarePackage', 'Import', 'Read', 'ReadList', ...DYNAMIC_CODE_SYMBOLS,
+];
+
+/**
+ * Functions that define or change the symbol their first argument names
+ */
+const DEFINING_SYMBOLS = [
+  'Set', 'SetDelayed', 'Unset', 'AddTo', 'SubtractFrom', 'TimesBy', 'DivideBy', 'Increment',
+  'Decrement', 'PreIncrement', 'PreDecrement', 'AppendTo', 'PrependTo', 'AssociateTo',
+  'KeyDropFrom', 'ApplyTo', 'SetAttributes', 'ClearAttributes',
+];
+
+/**
+ * Functions that change the symbols all their arguments name
+ */
+const CLEARING_SYMBOLS = ['Clear', 'ClearAll', 'Remove', 'Protect', 'Unprotect'];
+
+/**
+ * Heads on the left of an assignment whose definition belongs to their first
+ * argument, as in Format[x] := ... or f::usage = ...
+ */
+const VALUE_WRAPPERS = [
+  'Format', 'N', 'Default', 'Options', 'Attributes', 'Messages', 'MessageName', 'OwnValues',
+  'DownValues', 'UpValues', 'SubValues', 'NValues', 'FormatValues', 'DefaultValues',
+];
+
+/**
+ * Definitions that decide in the kernel whether parsed code may change state the
+ * reset does not undo. MCP`Private`changesStateQ[held] is True when the code
+ * mentions one of GLOBAL_STATE_SYMBOLS, names a symbol outside the context path
+ * or creates one in a context on it other than Global`, or gives a definition to
+ * a symbol outside Global` (a System` function through MakeBoxes or Unprotect,
+ * say). Working on the parsed code, it sees symbols as the kernel resolved them,
+ * character escapes included.
+ */
+const KERNEL_STATE_CHECK_DEFINITIONS = `
+SetAttributes[MCP\`Private\`definitionContexts, HoldAll];
+MCP\`Private\`definitionContexts[Verbatim[HoldPattern][MCP\`Private\`e_]] := MCP\`Private\`definitionContexts[MCP\`Private\`e];
+MCP\`Private\`definitionContexts[Verbatim[Condition][MCP\`Private\`e_, _]] := MCP\`Private\`definitionContexts[MCP\`Private\`e];
+MCP\`Private\`definitionContexts[Verbatim[Pattern][_, MCP\`Private\`e_]] := MCP\`Private\`definitionContexts[MCP\`Private\`e];
+MCP\`Private\`definitionContexts[Verbatim[Blank][MCP\`Private\`e_]] := MCP\`Private\`definitionContexts[MCP\`Private\`e];
+MCP\`Private\`definitionContexts[(${VALUE_WRAPPERS.join(' | ')})[MCP\`Private\`e_, ___]] :=
+  MCP\`Private\`definitionContexts[MCP\`Private\`e];
+MCP\`Private\`definitionContexts[{MCP\`Private\`e___}] :=
+  Join @@ (MCP\`Private\`definitionContexts /@ Unevaluated[{MCP\`Private\`e}]);
+MCP\`Private\`definitionContexts[MCP\`Private\`name_String] := Quiet[Context /@ Names[MCP\`Private\`name]];
+MCP\`Private\`definitionContexts[MCP\`Private\`s_Symbol] := {Context[Unevaluated[MCP\`Private\`s]]};
+MCP\`Private\`definitionContexts[MCP\`Private\`h_[___]] := MCP\`Private\`definitionContexts[MCP\`Private\`h];
+MCP\`Private\`definitionContexts[_] := {};
+MCP\`Private\`newSymbolQ[MCP\`Private\`name_String] := Attributes[MCP\`Private\`name] === {} &&
+  ToExpression[MCP\`Private\`name, InputForm, Function[MCP\`Private\`s,
+    {OwnValues[MCP\`Private\`s], DownValues[MCP\`Private\`s], UpValues[MCP\`Private\`s], SubValues[MCP\`Private\`s]} ===
+      {{}, {}, {}, {}},
+    HoldAll]];
+MCP\`Private\`foreignSymbolQ[MCP\`Private\`name_String] := With[{MCP\`Private\`context = Context[MCP\`Private\`name]},
+  MCP\`Private\`context =!= "Global\`" &&
+    (!MemberQ[$ContextPath, MCP\`Private\`context] || MCP\`Private\`newSymbolQ[MCP\`Private\`name])
+];
+MCP\`Private\`changesStateQ[MCP\`Private\`held_] := Quiet[With[
+  {MCP\`Private\`names = DeleteDuplicates[Cases[MCP\`Private\`held,
+    MCP\`Private\`s_Symbol :> Context[Unevaluated[MCP\`Private\`s]] <> SymbolName[Unevaluated[MCP\`Private\`s]],
+    {0, Infinity}, Heads -> True]]},
+  Or[
+    IntersectingQ[MCP\`Private\`names, {${GLOBAL_STATE_SYMBOLS.map(name => `"System\`${name}"`).join(', ')}}],
+    AnyTrue[MCP\`Private\`names, MCP\`Private\`foreignSymbolQ],
+    AnyTrue[
+      Flatten[{
+        Cases[MCP\`Private\`held, (${DEFINING_SYMBOLS.join(' | ')})[MCP\`Private\`target_, ___] :>
+          MCP\`Private\`definitionContexts[MCP\`Private\`target], {0, Infinity}, Heads -> True],
+        Cases[MCP\`Private\`held, (TagSet | TagSetDelayed | TagUnset)[MCP\`Private\`tag_, ___] :>
+          MCP\`Private\`definitionContexts[MCP\`Private\`tag], {0, Infinity}, Heads -> True],
+        Cases[MCP\`Private\`held, (UpSet | UpSetDelayed)[_[MCP\`Private\`args___], ___] :>
+          MCP\`Private\`definitionContexts[{MCP\`Private\`args}], {0, Infinity}, Heads -> True],
+        Cases[MCP\`Private\`held, (${CLEARING_SYMBOLS.join(' | ')})[MCP\`Private\`targets___] :>
+          MCP\`Private\`definitionContexts[{MCP\`Private\`targets}], {0, Infinity}, Heads -> True]
+      }],
+      # =!= "Global\`" &
+    ]
+  ]
+]];
+SetAttributes[{MCP\`Private\`definitionContexts, MCP\`Private\`newSymbolQ, MCP\`Private\`foreignSymbolQ,
+  MCP\`Private\`changesStateQ}, {Protected, Locked}];
+`;
+
+/**
+ * Code that marks the kernel for replacement if the parsed code may change state
+ * the reset does not undo. Runs before the code is evaluated, so the code cannot
+ * take the mark back.
+ * @param held - Code evaluating to the parsed code, wrapped in Hold
+ */
+export function markStateChangesCode(held: string): string {
+  return `If[TrueQ[MCP\`Private\`changesStateQ[${held}]], MCP\`Private\`changesState = True];`;
+}
+
+/**
+ * Code run once a kernel is ready, recording the settings the reset restores
+ * and defining the state check
+ */
+const KERNEL_BASELINE_CODE = `
+${KERNEL_SETTINGS.map(name => `MCP\`Private\`baseline["${name}"] = ${name};`).join('\n')}
+MCP\`Private\`changesState = False;
+${KERNEL_STATE_CHECK_DEFINITIONS}
+<|"status" -> "ok"|>
+`;
+
+/**
+ * Code run between evaluations to drop user definitions, history, hooks and
+ * changed settings. Loaded packages stay loaded but are taken off $ContextPath.
+ * Symbols that cannot be removed, such as locked ones, leave the kernel unclean,
+ * and it is replaced instead, as it is after code marked by markStateChangesCode.
+ */
+const KERNEL_RESET_CODE = `
+Quiet[
+  Scan[
+    (Unprotect[# <> "*"]; ClearAll[# <> "*"]; Remove[# <> "*"]) &,
+    Contexts["Global\`*"]
+  ];
+  Unprotect[In, Out, InString, MessageList];
+  Clear[In, Out, InString, MessageList];
+  ${KERNEL_HOOKS.map(name => `${name} =.;`).join(' ')}
+  ${KERNEL_SETTINGS.map(name => `${name} = MCP\`Private\`baseline["${name}"];`).join('\n  ')}
+  $Line = 1;
+  $Context = "Global\`";
+  $ContextPath = MCP\`$InitialContextPath;
+  While[DirectoryStack[] =!= {}, ResetDirectory[]];
+];
+<|
+  "status" -> "ok",
+  "changedState" -> TrueQ[MCP\`Private\`changesState],
+  "clean" -> Quiet[Names["Global\`*"]] === {}
+|>
+`;
+
+/**
+ * Kernel pool configuration
+ */
+export interface KernelPoolOptions {
+  /** Path to the wolframscript executable */
+  wolframPath: string;
+  /** Maximum number of kernels running at once */
+  size: number;
+  /** Evaluations a kernel serves before it is replaced */
+  maxEvaluations: number;
+  /** Seconds an idle kernel is kept alive (0 = never shut down) */
+  idleTimeout: number;
+  /** OS-level limits applied to each kernel process */
+  processLimits?: KernelProcessLimits;
+}
+
+/**
+ * Snapshot of pool activity, reported by /health
+ */
+export interface KernelPoolStats {
+  size: number;
+  running: number;
+  starting: number;
+  idle: number;
+  busy: number;
+  waiting: number;
+  totalEvaluations: number;
+  recycled: number;
+  crashed: number;
+}
+
+interface Waiter {
+  resolve: (kernel: WolframKernel) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Fixed-size pool of WolframKernel processes
+ */
+export class KernelPool {
+  private readonly options: KernelPoolOptions;
+  private readonly kernels = new Set<WolframKernel>();
+  private readonly idle: WolframKernel[] = [];
+  private readonly waiters: Waiter[] = [];
+  /** Busy kernels to replace instead of reset when they are released, and why */
+  private readonly stale = new Map<WolframKernel, string>();
+  private idleTimer: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
+  private totalEvaluations = 0;
+  private recycled = 0;
+  private crashed = 0;
+
+  constructor(options: KernelPoolOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start all kernels up front so the first calls hit a warm kernel
+   * @throws If no kernel could be started
+   */
+  public async start(): Promise<void> {
+    logger.info(`Starting kernel pool with ${this.options.size} kernel(s)...`);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: this.options.size }, () => this.spawnKernel())
+    );
+
+    const started = results.filter(r => r.status === 'fulfilled').length;
+
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        this.makeAvailable(result.value);
+      } else {
+        logger.error('Failed to start kernel:', result.reason);
+      }
+    }
+
+    if (started === 0) {
+      const firstFailure = results.find(r => r.status === 'rejected');
+      throw firstFailure?.status === 'rejected'
+        ? firstFailure.reason
+        : new MathematicaExecutionError('No kernel could be started');
+    }
+
+    if (this.options.idleTimeout > 0) {
+      const intervalMs = Math.min(this.options.idleTimeout, 60) * 1000;
+      this.idleTimer = setInterval(() => this.reapIdleKernels(), intervalMs);
+      this.idleTimer.unref?.();
+    }
+
+    logger.info(`Kernel pool started (${started}/${this.options.size} kernels ready)`);
+  }
+
+  /**
+   * Run a function with exclusive use of a kernel.
+   * The kernel is reset (or recycled) in the background after the function settles.
+   * @param signal - Aborting it while waiting for a kernel cancels the call
+   */
+  public async withKernel<T>(
+    fn: (kernel: WolframKernel) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const kernel = await this.acquire(signal);
+
+    kernel.evaluations++;
+    this.totalEvaluations++;
+
+    try {
+      return await fn(kernel);
+    } finally {
+      this.release(kernel).catch(error => {
+        logger.error(`[Kernel ${kernel.id}] Failed to return kernel to pool:`, error);
+      });
+    }
+  }
+
+  /**
+   * Take a kernel out of the pool, starting one or waiting if necessary
+   * @throws {MathematicaCancelledError} If the signal is aborted before a kernel is available
+   */
+  public async acquire(signal?: AbortSignal): Promise<WolframKernel> {
+    if (this.closed) {
+      throw new MathematicaExecutionError('Kernel pool is shut down');
+    }
+
+    if (signal?.aborted) {
+      throw cancelledErrorFromSignal(signal);
+    }
+
+    // Most recently used first, so surplus kernels age out through the idle timer
+    const kernel = this.idle.pop();
+    if (kernel) {
+      return kernel;
+    }
+
+    if (this.kernels.size < this.options.size) {
+      return await this.spawnKernel();
+    }
+
+    logger.debug(`All ${this.options.size} kernel(s) busy, waiting (${this.waiters.length} ahead)`);
+
+    return await new Promise<WolframKernel>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+          reject(cancelledErrorFromSignal(signal!));
+        }
+      };
+
+      const waiter: Waiter = {
+        resolve: kernel => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(kernel);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Return a kernel after use: reset it, or replace it when it is worn out or dead
+   */
+  public async release(kernel: WolframKernel): Promise<void> {
+    if (kernel.state !== 'ready' || !this.kernels.has(kernel)) {
+      this.kernels.delete(kernel);
+      this.stale.delete(kernel);
+      this.serveWaiters();
+      return;
+    }
+
+    if (kernel.evaluations >= this.options.maxEvaluations) {
+      logger.info(`[Kernel ${kernel.id}] Recycling after ${kernel.evaluations} evaluations`);
+      this.recycled++;
+      await this.retire(kernel);
+      return;
+    }
+
+    const staleReason = this.stale.get(kernel);
+
+    if (staleReason !== undefined) {
+      logger.info(`[Kernel ${kernel.id}] Recycling after ${staleReason}`);
+      this.recycled++;
+      await this.retire(kernel);
+      return;
+    }
+
+    try {
+      const { data } = await kernel.evaluate(KERNEL_RESET_CODE, { timeoutMs: KERNEL_RESET_TIMEOUT_MS });
+
+      if (data.changedState === true) {
+        logger.info(`[Kernel ${kernel.id}] Recycling after changes outside Global\``);
+        this.recycled++;
+        await this.retire(kernel);
+        return;
+      }
+
+      if (data.clean !== true) {
+        logger.info(`[Kernel ${kernel.id}] Recycling, since its Global\` symbols could not be removed`);
+        this.recycled++;
+        await this.retire(kernel);
+        return;
+      }
+    } catch (error) {
+      logger.warn(`[Kernel ${kernel.id}] Reset failed, replacing kernel:`, error);
+      await this.retire(kernel);
+      return;
+    }
+
+    this.makeAvailable(kernel);
+  }
+
+  /**
+   * Replace every kernel: idle kernels now, busy ones when they are released.
+   * Replacements start on demand, so they see packages installed since.
+   */
+  public async recycle(): Promise<void> {
+    logger.info(`Recycling ${this.kernels.size} kernel(s) after package changes`);
+
+    for (const kernel of this.kernels) {
+      this.stale.set(kernel, 'package changes');
+    }
+
+    const idle = this.idle.splice(0);
+    this.recycled += idle.length;
+
+    await Promise.all(idle.map(kernel => this.retire(kernel)));
+  }
+
+  /**
+   * Current pool statistics
+   */
+  public getStats(): KernelPoolStats {
+    let starting = 0;
+    let busy = 0;
+
+    for (const kernel of this.kernels) {
+      if (kernel.state === 'starting') {
+        starting++;
+      } else if (!this.idle.includes(kernel)) {
+        busy++;
+      }
+    }
+
+    return {
+      size: this.options.size,
+      running: this.kernels.size - starting,
+      starting,
+      idle: this.idle.length,
+      busy,
+      waiting: this.waiters.length,
+      totalEvaluations: this.totalEvaluations,
+      recycled: this.recycled,
+      crashed: this.crashed,
+    };
+  }
+
+  /**
+   * Stop all kernels and reject pending waiters
+   */
+  public async shutdown(): Promise<void> {
+    this.closed = true;
+
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(new MathematicaExecutionError('Kernel pool is shutting down'));
+    }
+
+    const kernels = [...this.kernels];
+    this.kernels.clear();
+    this.stale.clear();
+    this.idle.length = 0;
+
+    await Promise.all(kernels.map(kernel => kernel.stop()));
+
+    logger.info(`Kernel pool stopped (${kernels.length} kernel(s))`);
+  }
+
+  /**
+   * Start a new kernel and track it in the pool
+   */
+  private async spawnKernel(): Promise<WolframKernel> {
+    const kernel = new WolframKernel(this.options.wolframPath, this.options.processLimits);
+    kernel.onExit = (exited, exitCode) => this.handleKernelExit(exited, exitCode);
+    this.kernels.add(kernel);
+
+    try {
+      await kernel.start(KERNEL_STARTUP_TIMEOUT_MS);
+      await startFrontEnd(kernel);
+      await installSandbox(kernel);
+      await loadPreloadPackages(kernel);
+      await kernel.evaluate(KERNEL_BASELINE_CODE, { timeoutMs: KERNEL_RESET_TIMEOUT_MS });
+    } catch (error) {
+      this.kernels.delete(kernel);
+      kernel.kill();
+      throw error;
+    }
+
+    return kernel;
+  }
+
+  /**
+   * Hand a ready kernel to the next waiter, or park it as idle
+   */
+  private makeAvailable(kernel: WolframKernel): void {
+    const waiter = this.waiters.shift();
+
+    if (waiter) {
+      waiter.resolve(kernel);
+      return;
+    }
+
+    kernel.lastUsedAt = Date.now();
+    this.idle.push(kernel);
+  }
+
+  /**
+   * Remove a kernel from the pool and stop it
+   */
+  private async retire(kernel: WolframKernel): Promise<void> {
+    this.kernels.delete(kernel);
+    this.stale.delete(kernel);
+    this.removeIdle(kernel);
+    this.serveWaiters();
+    await kernel.stop();
+  }
+
+  /**
+   * Start replacement kernels for waiters while there is free capacity
+   */
+  private serveWaiters(): void {
+    while (!this.closed && this.waiters.length > 0 && this.kernels.size < this.options.size) {
+      const waiter = this.waiters.shift()!;
+      this.spawnKernel().then(waiter.resolve, waiter.reject);
+    }
+  }
+
+  /**
+   * Forget a kernel that exited while it still belonged to the pool
+   */
+  private handleKernelExit(kernel: WolframKernel, exitCode: number | null): void {
+    if (!this.kernels.has(kernel)) {
+      return;
+    }
+
+    logger.warn(`[Kernel ${kernel.id}] Exited unexpectedly (exit code ${exitCode})`);
+
+    this.crashed++;
+    this.kernels.delete(kernel);
+    this.stale.delete(kernel);
+    this.removeIdle(kernel);
+    this.serveWaiters();
+  }
+
+  /**
+   * Stop kernels that have been idle longer than the configured timeout
+   */
+  private reapIdleKernels(): void {
+    const cutoff = Date.now() - this.options.idleTimeout * 1000;
+
+    for (const kernel of [...this.idle]) {
+      if (kernel.lastUsedAt < cutoff) {
+        logger.info(`[Kernel ${kernel.id}] Shutting down after ${this.options.idleTimeout}s idle`);
+        this.retire(kernel).catch(error => {
+          logger.error(`[Kernel ${kernel.id}] Failed to stop idle kernel:`, error);
+        });
+      }
+    }
+  }
+
+  private removeIdle(kernel: WolframKernel): void {
+    const index = this.idle.indexOf(kernel);
+    if (index !== -1) {
+      this.idle.splice(index, 1);
+    }
+  }
+}
+
+// Global pool instance, created during server startup
+let kernelPool: KernelPool | null = null;
+
+/**
+ * Create the global kernel pool (replacing any previous one)
+ */
+export function initKernelPool(options: KernelPoolOptions): KernelPool {
+  kernelPool = new KernelPool(options);
+  return kernelPool;
+}
+
+/**
+ * Get the global kernel pool
+ * @throws {MathematicaExecutionError} If the pool has not been initialized
+ */
+export function getKernelPool(): KernelPool {
+  if (!kernelPool) {
+    throw new MathematicaExecutionError('Kernel pool has not been initialized');
+  }
+  return kernelPool;
+}
+
+/**
+ * Get statistics of the global kernel pool, or null if it is not running
+ */
+export function getKernelPoolStats(): KernelPoolStats | null {
+  return kernelPool ? kernelPool.getStats() : null;
+}
+
+/**
+ * Shut down the global kernel pool if it exists
+ */
+export async function shutdownKernelPool(): Promise<void> {
+  if (kernelPool) {
+    const pool = kernelPool;
+    kernelPool = null;
+    await pool.shutdown();
+  }
+}
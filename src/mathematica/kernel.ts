@@ -0,0 +1,706 @@
+/**
+ * Long-lived Wolfram kernel process.
+ * Runs wolframscript with a small REPL driver that reads one request per line
+ * from stdin and answers with framed result lines on stdout.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { Subprocess } from 'bun';
+import {
+  MathematicaCancelledError,
+  MathematicaCpuLimitError,
+  MathematicaExecutionError,
+  MathematicaMemoryLimitError,
+  MathematicaOutputLimitError,
+  MathematicaTimeoutError,
+  WolframScriptNotFoundError,
+} from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import {
+  KernelCgroup,
+  buildKernelCommand,
+  readProcessTreeCpuSeconds,
+  type KernelProcessLimits,
+} from './resource-limits.ts';
+
+/**
+ * Prefix that marks protocol frames on the kernel's stdout.
+ * Every other stdout line is output printed by the evaluated code.
+ */
+const FRAME_PREFIX = '__MMA_MCP__';
+
+/**
+ * Time to wait for a kernel to exit after its stdin is closed
+ */
+const STOP_GRACE_MS = 5000;
+
+/**
+ * Time between SIGTERM and SIGKILL when killing a kernel's process tree
+ */
+const KILL_GRACE_MS = 3000;
+
+/**
+ * How often the CPU time of a kernel is sampled while a CPU limit applies
+ */
+const CPU_SAMPLE_INTERVAL_MS = 500;
+
+/**
+ * Printed by the kernel when an allocation fails under its memory rlimit
+ */
+const OUT_OF_MEMORY_MARKER = 'No more memory available';
+
+/**
+ * REPL driver evaluated by wolframscript.
+ * Each request line is "<token> <base64 code>", where the token is a random value
+ * chosen per request. The decoded code must evaluate to an Association, which is
+ * sent back as base64-encoded JSON in a RESULT frame carrying the token. Only
+ * frames with the pending request's token are accepted, and the token is kept in
+ * a local of the driver loop, so evaluated code cannot print a frame that ends its
+ * own request early.
+ * All driver symbols live in MCP`Private` so resetting Global` cannot break the loop.
+ *
+ * The driver also defines MCP`ReportProgress[fraction, message], which user code can
+ * call (as ReportProgress) to emit PROGRESS frames for the running request. It
+ * closes over the token, and it is locked like MCP`$InitialContextPath, since both
+ * are visible on $ContextPath. The sandbox's runtime blocks (see sandbox.ts) leave
+ * writes to stdout allowed for it.
+ */
+const DRIVER_CODE = `
+$ContextPath = Append[$ContextPath, "MCP\`"];
+Module[{MCP\`Private\`stdin = First[Streams["stdin"]], MCP\`Private\`line,
+    MCP\`Private\`parts, MCP\`Private\`token = "", MCP\`Private\`result, MCP\`Private\`json},
+  MCP\`ReportProgress[MCP\`Private\`fraction_?NumericQ, MCP\`Private\`message_String : ""] := (
+    WriteString["stdout", "${FRAME_PREFIX} PROGRESS " <> MCP\`Private\`token <> " " <>
+      BaseEncode[StringToByteArray[ExportString[
+        <|"progress" -> N[MCP\`Private\`fraction], "message" -> MCP\`Private\`message|>,
+        "RawJSON", "Compact" -> True
+      ], "UTF-8"]] <> "\\n"];
+    Null
+  );
+  MCP\`$InitialContextPath = $ContextPath;
+  SetAttributes[{MCP\`ReportProgress, MCP\`$InitialContextPath}, {Protected, ReadProtected, Locked}];
+  WriteString["stdout", "${FRAME_PREFIX} READY\\n"];
+  While[True,
+    MCP\`Private\`line = ReadLine[MCP\`Private\`stdin];
+    If[!StringQ[MCP\`Private\`line], Exit[0]];
+    MCP\`Private\`parts = StringSplit[MCP\`Private\`line, " ", 2];
+    If[Length[MCP\`Private\`parts] =!= 2, Continue[]];
+    MCP\`Private\`token = MCP\`Private\`parts[[1]];
+    MCP\`Private\`result = CheckAbort[
+      ToExpression[ByteArrayToString[BaseDecode[MCP\`Private\`parts[[2]]], "UTF-8"]],
+      <|"status" -> "aborted"|>
+    ];
+    If[!AssociationQ[MCP\`Private\`result],
+      MCP\`Private\`result = <|"status" -> "error", "error" -> ToString[MCP\`Private\`result, InputForm]|>
+    ];
+    MCP\`Private\`json = Quiet[ExportString[MCP\`Private\`result, "RawJSON", "Compact" -> True]];
+    If[!StringQ[MCP\`Private\`json],
+      MCP\`Private\`json = "{\\"status\\":\\"error\\",\\"error\\":\\"Result could not be serialized\\"}"
+    ];
+    WriteString["stdout", "${FRAME_PREFIX} RESULT " <> MCP\`Private\`token <> " " <>
+      BaseEncode[StringToByteArray[MCP\`Private\`json, "UTF-8"]] <> "\\n"];
+    MCP\`Private\`token = "";
+  ]
+]
+`;
+
+/**
+ * Known benign wolframscript stderr lines
+ */
+const BENIGN_WARNINGS = [
+  'Failed to open configuaration file at path:', // WolframScript config file warning (typo is intentional)
+  'Failed to open configuration file at path:',  // Also handle correct spelling
+];
+
+/**
+ * Kernel lifecycle state
+ */
+export type KernelState = 'starting' | 'ready' | 'stopped';
+
+/**
+ * Result of a single request sent to the kernel
+ */
+export interface KernelEvaluation {
+  /** Association returned by the evaluated code, decoded from JSON */
+  data: Record<string, unknown>;
+  /** Lines printed to stdout while the request was running */
+  stdout: string[];
+  /** Lines printed to stderr while the request was running */
+  stderr: string[];
+}
+
+/**
+ * Progress reported by evaluated code through ReportProgress
+ */
+export interface KernelProgress {
+  /** Fraction of work done, as reported by the code (normally 0 to 1) */
+  progress: number;
+  message: string;
+}
+
+/**
+ * Options for a single kernel request
+ */
+export interface KernelRequestOptions {
+  /** Hard deadline; the kernel is killed when it is exceeded */
+  timeoutMs: number;
+  /** Aborting it kills the kernel and cancels the request */
+  signal?: AbortSignal;
+  /** Called for every ReportProgress call made while the request runs */
+  onProgress?: (progress: KernelProgress) => void;
+  /** Called for every line printed while the request runs, as soon as it arrives */
+  onOutput?: (line: string, stream: 'stdout' | 'stderr') => void;
+  /** Bytes the request may print; the kernel is killed when it prints more */
+  maxOutputBytes?: number;
+  /** CPU seconds the request may use; the kernel is killed when it uses more */
+  maxCpuSeconds?: number;
+}
+
+interface PendingEvaluation {
+  id: string;
+  onProgress?: (progress: KernelProgress) => void;
+  onOutput?: (line: string, stream: 'stdout' | 'stderr') => void;
+  resolve: (evaluation: KernelEvaluation) => void;
+  reject: (error: Error) => void;
+  stdout: string[];
+  stderr: string[];
+  outputBytes: number;
+  maxOutputBytes?: number;
+}
+
+interface PendingStartup {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+let nextKernelId = 1;
+
+/**
+ * Build the error for an aborted signal, keeping the client's reason if it sent one
+ */
+export function cancelledErrorFromSignal(signal: AbortSignal): MathematicaCancelledError {
+  return new MathematicaCancelledError(
+    typeof signal.reason === 'string' ? signal.reason : undefined
+  );
+}
+
+/**
+ * A single wolframscript process running the REPL driver
+ */
+export class WolframKernel {
+  public readonly id: number;
+  public state: KernelState = 'starting';
+
+  /** Number of evaluations served (maintained by the owner, e.g. the pool) */
+  public evaluations = 0;
+
+  /** Timestamp of the last completed request */
+  public lastUsedAt = Date.now();
+
+  /** Called once when the process exits, for whatever reason */
+  public onExit?: (kernel: WolframKernel, exitCode: number | null) => void;
+
+  private readonly wolframPath: string;
+  private readonly limits?: KernelProcessLimits;
+  private proc: Subprocess<'pipe', 'pipe', 'pipe'> | null = null;
+  private cgroup: KernelCgroup | null = null;
+  private outOfMemory = false;
+  private startup: PendingStartup | null = null;
+  private pending: PendingEvaluation | null = null;
+  private startupStderr: string[] = [];
+
+  /**
+   * @param wolframPath - Path to the wolframscript executable
+   * @param limits - OS-level limits applied to the kernel process for its lifetime
+   */
+  constructor(wolframPath: string, limits?: KernelProcessLimits) {
+    this.id = nextKernelId++;
+    this.wolframPath = wolframPath;
+    this.limits = limits;
+  }
+
+  /**
+   * Process id of the running kernel, if any
+   */
+  public get pid(): number | undefined {
+    return this.proc?.pid;
+  }
+
+  /**
+   * Whether a request is currently in flight
+   */
+  public get busy(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Spawn the kernel and wait until the driver reports READY
+   * @param timeoutMs - Maximum time to wait for the kernel to come up
+   * @throws {WolframScriptNotFoundError} If wolframscript cannot be spawned
+   * @throws {MathematicaExecutionError} If the kernel exits or does not start in time
+   */
+  public async start(timeoutMs: number): Promise<void> {
+    logger.debug(`[Kernel ${this.id}] Starting wolframscript kernel`);
+
+    try {
+      // Own process group, so the kernel and everything it spawns can be killed together
+      this.proc = Bun.spawn(buildKernelCommand(this.wolframPath, ['-code', DRIVER_CODE], this.limits), {
+        detached: true,
+        stdin: 'pipe',
+        stdout: 'pipe',
+        stderr: 'pipe',
+        onExit: (_proc, exitCode) => this.handleExit(exitCode),
+      });
+    } catch (error: any) {
+      this.state = 'stopped';
+
+      if (error?.code === 'ENOENT') {
+        throw new WolframScriptNotFoundError(this.wolframPath);
+      }
+
+      throw new MathematicaExecutionError(`Failed to spawn kernel: ${error?.message ?? error}`, error);
+    }
+
+    if (this.limits?.cgroupRoot && this.limits.memoryMb > 0) {
+      this.cgroup = KernelCgroup.attach(
+        this.limits.cgroupRoot,
+        `mma-kernel-${process.pid}-${this.id}`,
+        this.proc.pid,
+        this.limits.memoryMb
+      );
+    }
+
+    this.readLines(this.proc.stdout, line => this.handleStdoutLine(line));
+    this.readLines(this.proc.stderr, line => this.handleStderrLine(line));
+
+    const startedAt = Date.now();
+
+    await new Promise<void>((resolve, reject) => {
+      if (this.state === 'stopped') {
+        reject(new MathematicaExecutionError('Kernel exited during startup'));
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.startup = null;
+        this.kill();
+        reject(new MathematicaExecutionError(`Kernel did not start within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.startup = {
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error: Error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+    });
+
+    this.state = 'ready';
+    this.lastUsedAt = Date.now();
+    logger.debug(`[Kernel ${this.id}] Ready (pid ${this.pid}) in ${Date.now() - startedAt}ms`);
+  }
+
+  /**
+   * Send code to the kernel and wait for its result frame
+   * @param code - Wolfram Language code that evaluates to an Association
+   * @param options - Deadline, limits, cancellation signal and callbacks
+   * @returns Decoded result and output captured while it ran
+   * @throws {MathematicaTimeoutError} If no result arrives before the deadline
+   * @throws {MathematicaCancelledError} If the signal is aborted
+   * @throws {MathematicaOutputLimitError} If the request prints more than maxOutputBytes
+   * @throws {MathematicaCpuLimitError} If the request uses more than maxCpuSeconds
+   * @throws {MathematicaMemoryLimitError} If the kernel is stopped by its OS memory limit
+   * @throws {MathematicaExecutionError} If the kernel is not usable or exits
+   */
+  public evaluate(code: string, options: KernelRequestOptions): Promise<KernelEvaluation> {
+    const { timeoutMs, signal, onProgress, onOutput, maxOutputBytes, maxCpuSeconds } = options;
+    const proc = this.proc;
+
+    if (signal?.aborted) {
+      return Promise.reject(cancelledErrorFromSignal(signal));
+    }
+
+    if (this.state !== 'ready' || !proc) {
+      return Promise.reject(new MathematicaExecutionError(`Kernel ${this.id} is not running`));
+    }
+
+    if (this.pending) {
+      return Promise.reject(new MathematicaExecutionError(`Kernel ${this.id} is busy`));
+    }
+
+    const id = randomBytes(16).toString('hex');
+    const encoded = Buffer.from(code, 'utf-8').toString('base64');
+
+    return new Promise<KernelEvaluation>((resolve, reject) => {
+      let stopCpuWatch: (() => void) | null = null;
+
+      const onAbort = () => {
+        if (this.pending?.id === id) {
+          logger.info(`[Kernel ${this.id}] Request cancelled, killing kernel`);
+          this.failPending(cancelledErrorFromSignal(signal!));
+        }
+      };
+
+      const settle = <T>(fn: (value: T) => void) => (value: T) => {
+        clearTimeout(timer);
+        stopCpuWatch?.();
+        signal?.removeEventListener('abort', onAbort);
+        fn(value);
+      };
+
+      const timer = setTimeout(() => {
+        logger.warn(`[Kernel ${this.id}] No result within ${timeoutMs}ms, killing kernel`);
+        this.failPending(new MathematicaTimeoutError(timeoutMs));
+      }, timeoutMs);
+
+      this.pending = {
+        id,
+        onProgress,
+        onOutput,
+        resolve: settle(resolve),
+        reject: settle(reject),
+        stdout: [],
+        stderr: [],
+        outputBytes: 0,
+        maxOutputBytes,
+      };
+
+      if (maxCpuSeconds) {
+        stopCpuWatch = this.watchCpu(id, maxCpuSeconds);
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        proc.stdin.write(`${id} ${encoded}\n`);
+        proc.stdin.flush();
+      } catch (error) {
+        const pending = this.pending;
+        this.pending = null;
+        pending.reject(new MathematicaExecutionError(`Failed to write to kernel ${this.id}`, error));
+      }
+    });
+  }
+
+  /**
+   * Stop the kernel gracefully by closing its stdin, killing it if it lingers
+   */
+  public async stop(): Promise<void> {
+    const proc = this.proc;
+
+    if (!proc || this.state === 'stopped') {
+      return;
+    }
+
+    logger.debug(`[Kernel ${this.id}] Stopping`);
+
+    try {
+      proc.stdin.end();
+    } catch {
+      // stdin already closed
+    }
+
+    const exited = await Promise.race([
+      proc.exited.then(() => true),
+      Bun.sleep(STOP_GRACE_MS).then(() => false),
+    ]);
+
+    if (!exited) {
+      this.kill();
+    }
+  }
+
+  /**
+   * Kill the kernel's whole process tree: SIGTERM first, SIGKILL after a grace period
+   */
+  public kill(): void {
+    const proc = this.proc;
+
+    if (!proc || proc.exitCode !== null || proc.signalCode !== null) {
+      return;
+    }
+
+    // Mark as stopped right away so nobody hands out a dying kernel
+    this.state = 'stopped';
+
+    logger.debug(`[Kernel ${this.id}] Killing process group ${proc.pid}`);
+    this.signalProcessGroup('SIGTERM');
+
+    // Children may outlive the wolframscript leader, so the group is killed regardless
+    const timer = setTimeout(() => this.signalProcessGroup('SIGKILL'), KILL_GRACE_MS);
+    timer.unref?.();
+  }
+
+  /**
+   * Kill the kernel and fail the request in flight with the given error
+   */
+  private failPending(error: Error): void {
+    const pending = this.pending;
+
+    if (!pending) {
+      return;
+    }
+
+    this.pending = null;
+    this.kill();
+    pending.reject(error);
+  }
+
+  /**
+   * Sample the CPU time of the kernel's process tree (or its cgroup) and fail
+   * the request once it has used more than the limit since it started. Samples
+   * are read asynchronously, one at a time.
+   * @returns Function that stops sampling
+   */
+  private watchCpu(id: string, limitSeconds: number): () => void {
+    const pid = this.pid;
+    const cgroup = this.cgroup;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    if (pid === undefined) {
+      return () => {};
+    }
+
+    const read = () => (cgroup ? cgroup.cpuSeconds() : readProcessTreeCpuSeconds(pid));
+
+    const schedule = (baseline: number) => {
+      timer = setTimeout(async () => {
+        const used = await read();
+
+        if (stopped || this.pending?.id !== id) {
+          return;
+        }
+
+        if (used !== null && used - baseline > limitSeconds) {
+          logger.warn(`[Kernel ${this.id}] CPU limit of ${limitSeconds}s exceeded, killing kernel`);
+          this.failPending(new MathematicaCpuLimitError(limitSeconds));
+          return;
+        }
+
+        schedule(baseline);
+      }, CPU_SAMPLE_INTERVAL_MS);
+      timer.unref?.();
+    };
+
+    void read().then(baseline => {
+      if (baseline === null) {
+        logger.warn(`[Kernel ${this.id}] CPU time cannot be measured on this platform, CPU limit not enforced`);
+      } else if (!stopped) {
+        schedule(baseline);
+      }
+    });
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+
+  /**
+   * Count printed bytes against the request's output limit
+   * @returns false if the limit was exceeded and the request failed
+   */
+  private countOutput(pending: PendingEvaluation, line: string): boolean {
+    pending.outputBytes += Buffer.byteLength(line, 'utf-8') + 1;
+
+    if (pending.maxOutputBytes !== undefined && pending.outputBytes > pending.maxOutputBytes) {
+      logger.warn(`[Kernel ${this.id}] Output limit of ${pending.maxOutputBytes} bytes exceeded, killing kernel`);
+      this.failPending(new MathematicaOutputLimitError(pending.maxOutputBytes));
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Send a signal to the kernel's process group, falling back to the process itself
+   */
+  private signalProcessGroup(signal: NodeJS.Signals): void {
+    const proc = this.proc;
+
+    if (!proc) {
+      return;
+    }
+
+    try {
+      process.kill(-proc.pid, signal);
+    } catch {
+      // Group already gone, or not a group leader
+      try {
+        proc.kill(signal);
+      } catch {
+        // Process already exited
+      }
+    }
+  }
+
+  /**
+   * Read a byte stream line by line
+   */
+  private readLines(stream: ReadableStream<Uint8Array>, onLine: (line: string) => void): void {
+    const read = async () => {
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for await (const chunk of stream) {
+        buffer += decoder.decode(chunk, { stream: true });
+
+        let index: number;
+        while ((index = buffer.indexOf('\n')) !== -1) {
+          onLine(buffer.slice(0, index).replace(/\r$/, ''));
+          buffer = buffer.slice(index + 1);
+        }
+      }
+
+      if (buffer.length > 0) {
+        onLine(buffer);
+      }
+    };
+
+    read().catch(error => {
+      logger.debug(`[Kernel ${this.id}] Stream closed with error:`, error);
+    });
+  }
+
+  /**
+   * Dispatch a stdout line: protocol frame or printed output
+   */
+  private handleStdoutLine(line: string): void {
+    if (!line.startsWith(`${FRAME_PREFIX} `)) {
+      if (line.includes(OUT_OF_MEMORY_MARKER)) {
+        this.outOfMemory = true;
+      }
+
+      if (this.pending) {
+        if (this.countOutput(this.pending, line)) {
+          this.pending.stdout.push(line);
+          this.pending.onOutput?.(line, 'stdout');
+        }
+      } else {
+        logger.debug(`[Kernel ${this.id}] stdout:`, line);
+      }
+      return;
+    }
+
+    const [, type, id, payload] = line.split(' ');
+
+    if (type === 'READY') {
+      this.startup?.resolve();
+      this.startup = null;
+      return;
+    }
+
+    if (type === 'RESULT') {
+      const pending = this.pending;
+
+      if (!pending || pending.id !== id) {
+        logger.warn(`[Kernel ${this.id}] Discarding result for unknown request ${id}`);
+        return;
+      }
+
+      this.pending = null;
+      this.lastUsedAt = Date.now();
+
+      try {
+        const data = JSON.parse(Buffer.from(payload ?? '', 'base64').toString('utf-8'));
+        pending.resolve({ data, stdout: pending.stdout, stderr: pending.stderr });
+      } catch (error) {
+        pending.reject(new MathematicaExecutionError('Malformed result from kernel', error));
+      }
+      return;
+    }
+
+    if (type === 'PROGRESS') {
+      const pending = this.pending;
+
+      if (!pending || pending.id !== id) {
+        return;
+      }
+
+      try {
+        const data = JSON.parse(Buffer.from(payload ?? '', 'base64').toString('utf-8'));
+        pending.onProgress?.({
+          progress: Number(data.progress),
+          message: String(data.message ?? ''),
+        });
+      } catch (error) {
+        logger.debug(`[Kernel ${this.id}] Malformed progress frame:`, error);
+      }
+      return;
+    }
+
+    logger.warn(`[Kernel ${this.id}] Unknown protocol frame: ${type}`);
+  }
+
+  /**
+   * Collect stderr output, ignoring known benign wolframscript warnings
+   */
+  private handleStderrLine(line: string): void {
+    if (BENIGN_WARNINGS.some(warning => line.includes(warning))) {
+      logger.debug(`[Kernel ${this.id}] WolframScript benign warning (ignored):`, line);
+      return;
+    }
+
+    if (line.includes(OUT_OF_MEMORY_MARKER)) {
+      this.outOfMemory = true;
+    }
+
+    if (this.pending) {
+      if (this.countOutput(this.pending, line)) {
+        this.pending.stderr.push(line);
+        this.pending.onOutput?.(line, 'stderr');
+      }
+    } else if (this.startup) {
+      this.startupStderr.push(line);
+    }
+
+    if (line.trim().length > 0) {
+      logger.warn(`[Kernel ${this.id}] WolframScript stderr output:`, line);
+    }
+  }
+
+  /**
+   * Fail whatever is outstanding when the process exits
+   */
+  private handleExit(exitCode: number | null): void {
+    this.state = 'stopped';
+
+    logger.debug(`[Kernel ${this.id}] Exited with code ${exitCode}`);
+
+    const outOfMemory = this.outOfMemory || (this.cgroup?.oomKilled() ?? false);
+    this.cgroup?.remove();
+    this.cgroup = null;
+
+    if (this.startup) {
+      const details = this.startupStderr.join('\n').trim();
+      // 127: the shell used for rlimits could not find wolframscript
+      this.startup.reject(exitCode === 127
+        ? new WolframScriptNotFoundError(this.wolframPath)
+        : new MathematicaExecutionError(
+          `Kernel exited during startup (exit code ${exitCode})${details ? `: ${details}` : ''}`
+        ));
+      this.startup = null;
+    }
+
+    if (this.pending) {
+      const pending = this.pending;
+      this.pending = null;
+
+      if (outOfMemory && this.limits && this.limits.memoryMb > 0) {
+        logger.warn(`[Kernel ${this.id}] Stopped by its memory limit of ${this.limits.memoryMb}MB`);
+        pending.reject(new MathematicaMemoryLimitError(this.limits.memoryMb * 1024 * 1024, 'process'));
+      } else {
+        pending.reject(new MathematicaExecutionError(
+          `Kernel exited unexpectedly (exit code ${exitCode})`
+        ));
+      }
+    }
+
+    this.onExit?.(this, exitCode);
+  }
+}
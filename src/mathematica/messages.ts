@@ -0,0 +1,175 @@
+/**
+ * Structured capture of kernel messages (Power::infy, Solve::svars, ...).
+ * Messages are recorded by an in-kernel handler instead of being printed,
+ * so they are returned next to the result rather than mixed into it.
+ */
+
+import type { KernelMessage } from '../config/schema.ts';
+import { isErrorOutput } from './formatter.ts';
+import { toWolframString } from './wolfram-code.ts';
+
+/**
+ * Times a message is reported per evaluation before General::stop suppresses it,
+ * matching the kernel's own default
+ */
+export const DEFAULT_MESSAGE_LIMIT = 3;
+
+/**
+ * Handler installed for the "Message" handler while user code runs.
+ * It receives Hold[Message[s::t, args...], on], where `on` is False for messages
+ * that are switched off or quieted. Each distinct rendered message is counted once
+ * it occurs; after `limit` occurrences of the same name a General::stop entry is
+ * recorded instead, like the kernel's own General::stop.
+ */
+const MESSAGE_HANDLER_CODE = `
+ClearAll[MCP\`Private\`messageText, MCP\`Private\`addMessage, MCP\`Private\`recordMessage];
+SetAttributes[MCP\`Private\`messageText, HoldFirst];
+MCP\`Private\`messageText[MCP\`Private\`s_Symbol, MCP\`Private\`t_String, MCP\`Private\`args_List] :=
+  Module[{MCP\`Private\`template = MessageName[MCP\`Private\`s, MCP\`Private\`t]},
+    If[!StringQ[MCP\`Private\`template], MCP\`Private\`template = MessageName[General, MCP\`Private\`t]];
+    If[!StringQ[MCP\`Private\`template], MCP\`Private\`template = "-- Message text not found --"];
+    ToString[StringForm[MCP\`Private\`template, Sequence @@ MCP\`Private\`args], OutputForm, PageWidth -> Infinity]
+  ];
+MCP\`Private\`addMessage[MCP\`Private\`key_List] :=
+  MCP\`Private\`messages[MCP\`Private\`key] = Lookup[MCP\`Private\`messages, Key[MCP\`Private\`key], 0] + 1;
+MCP\`Private\`recordMessage[
+  Hold[Message[MessageName[MCP\`Private\`s_Symbol, MCP\`Private\`t_String, ___], MCP\`Private\`args___], True],
+  MCP\`Private\`limit_Integer
+] := Module[{MCP\`Private\`name = SymbolName[Unevaluated[MCP\`Private\`s]], MCP\`Private\`count},
+  MCP\`Private\`count = Lookup[MCP\`Private\`messageCounts, Key[{MCP\`Private\`name, MCP\`Private\`t}], 0] + 1;
+  MCP\`Private\`messageCounts[{MCP\`Private\`name, MCP\`Private\`t}] = MCP\`Private\`count;
+  Which[
+    MCP\`Private\`count <= MCP\`Private\`limit,
+      MCP\`Private\`addMessage[{MCP\`Private\`name, MCP\`Private\`t,
+        MCP\`Private\`messageText[MCP\`Private\`s, MCP\`Private\`t,
+          Short /@ HoldForm /@ Unevaluated[{MCP\`Private\`args}]]}],
+    MCP\`Private\`count == MCP\`Private\`limit + 1,
+      MCP\`Private\`addMessage[{"General", "stop", "Further output of " <> MCP\`Private\`name <> "::" <>
+        MCP\`Private\`t <> " will be suppressed during this calculation."}]
+  ]
+];
+MCP\`Private\`recordMessage[___] := Null;
+`;
+
+/**
+ * Options controlling message capture
+ */
+export interface MessageCaptureOptions {
+  /** Message names to suppress with Quiet, e.g. ["Power::infy"] */
+  quiet?: string[];
+  /** Occurrences of one message reported before General::stop (default 3) */
+  limit?: number;
+}
+
+/**
+ * Wrap user code in Quiet for the given message names
+ * @param expression - Wolfram Language expression to wrap (unevaluated code)
+ * @param names - Message names, already validated by the input schema
+ * @returns Code that evaluates the expression with those messages quieted
+ */
+export function quietMessages(expression: string, names: string[] | undefined): string {
+  if (!names || names.length === 0) {
+    return expression;
+  }
+
+  // Names are parsed held in the kernel, so only the message names reach Quiet
+  const heldNames = `{${names.map(toWolframString).join(', ')}}`;
+
+  return `Replace[
+    Flatten[Hold @@ (ToExpression[#, InputForm, Hold] & /@ ${heldNames}), 1, Hold],
+    Hold[MCP\`Private\`names___] :> Quiet[${expression}, {MCP\`Private\`names}]
+  ]`;
+}
+
+/**
+ * Wrap code that evaluates to an Association so that messages raised while it
+ * runs are captured and added to it under "messages"
+ * @param body - Code evaluating to an Association
+ * @param options - Capture options
+ * @returns Wrapped code
+ */
+export function captureMessages(body: string, options: MessageCaptureOptions = {}): string {
+  const limit = options.limit ?? DEFAULT_MESSAGE_LIMIT;
+
+  return `
+${MESSAGE_HANDLER_CODE}
+Block[{MCP\`Private\`messages = <||>, MCP\`Private\`messageCounts = <||>,
+    MCP\`Private\`stopWasOn = Head[General::stop] =!= $Off, MCP\`Private\`captured},
+  Off[General::stop];
+  MCP\`Private\`captured = Internal\`HandlerBlock[
+    {"Message", MCP\`Private\`recordMessage[#, ${limit}] &},
+    Block[{$Messages = {}}, ${body}]
+  ];
+  If[MCP\`Private\`stopWasOn, On[General::stop]];
+  If[AssociationQ[MCP\`Private\`captured],
+    Append[MCP\`Private\`captured, "messages" -> KeyValueMap[
+      <|"symbol" -> #1[[1]], "tag" -> #1[[2]], "text" -> #1[[3]], "count" -> #2|> &,
+      MCP\`Private\`messages
+    ]],
+    MCP\`Private\`captured
+  ]
+]`;
+}
+
+/**
+ * Read the messages returned by captureMessages
+ * @param value - "messages" value decoded from the kernel's JSON result
+ * @returns Well-formed message entries
+ */
+export function parseCapturedMessages(value: unknown): KernelMessage[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap(entry => {
+    if (!entry || typeof entry !== 'object') {
+      return [];
+    }
+
+    const { symbol, tag, text, count } = entry as Record<string, unknown>;
+
+    if (typeof symbol !== 'string' || typeof tag !== 'string') {
+      return [];
+    }
+
+    return [{
+      symbol,
+      tag,
+      text: typeof text === 'string' ? text : '',
+      count: typeof count === 'number' ? count : 1,
+    }];
+  });
+}
+
+/**
+ * Pick messages out of printed lines, for messages that bypassed the handler
+ * (e.g. printed by wolframscript itself on stderr)
+ * @param lines - Printed lines
+ * @returns Message entries, one per distinct line
+ */
+export function extractMessagesFromLines(lines: string[]): KernelMessage[] {
+  const messages = new Map<string, KernelMessage>();
+
+  for (const line of lines) {
+    if (!isErrorOutput(line)) {
+      continue;
+    }
+
+    const match = line.trim().match(/^([A-Za-z$][A-Za-z0-9$`]*)::([A-Za-z0-9$]+):\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+
+    const [, symbol = '', tag = '', text = ''] = match;
+    const key = `${symbol}::${tag}: ${text}`;
+    const existing = messages.get(key);
+
+    if (existing) {
+      existing.count++;
+    } else {
+      messages.set(key, { symbol, tag, text, count: 1 });
+    }
+  }
+
+  return [...messages.values()];
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import type { ExecutionResult } from '../config/schema.ts';
+import { ResourceNotFoundError } from '../utils/errors.ts';
+import { OutputStore, type OutputStoreOptions } from './output-store.ts';
+
+const stores: OutputStore[] = [];
+
+/**
+ * Create a store that is shut down after the test
+ */
+function createStore(options: Partial<OutputStoreOptions> = {}): OutputStore {
+  const store = new OutputStore({ inlineLimit: 10, retention: 60, maxEntries: 10, ...options });
+  stores.push(store);
+  return store;
+}
+
+afterEach(() => {
+  stores.splice(0).forEach(store => store.shutdown());
+  setSystemTime();
+});
+
+describe('OutputStore.read', () => {
+  test('pages through an output', () => {
+    const store = createStore();
+    const { id } = store.save('abcdefghijklmnopqrstuvwxy', 'text', 'client');
+
+    expect(store.read(id, 'client', 0)).toMatchObject({ text: 'abcdefghij', offset: 0, nextOffset: 10 });
+    expect(store.read(id, 'client', 10, 5)).toMatchObject({ text: 'klmno', nextOffset: 15 });
+    expect(store.read(id, 'client', 20)).toMatchObject({ text: 'uvwxy', nextOffset: null });
+  });
+
+  test('returns an empty last page past the end', () => {
+    const store = createStore();
+    const { id } = store.save('abc', 'text', 'client');
+
+    expect(store.read(id, 'client', 3)).toMatchObject({ text: '', nextOffset: null });
+    expect(store.read(id, 'client', 100)).toMatchObject({ text: '', offset: 100, nextOffset: null });
+  });
+
+  test('hides outputs from other clients', () => {
+    const store = createStore();
+    const { id } = store.save('abc', 'text', 'client');
+
+    expect(() => store.read(id, 'other', 0)).toThrow(ResourceNotFoundError);
+    expect(store.list('other')).toEqual([]);
+  });
+
+  test('expires outputs after the retention period', () => {
+    const store = createStore({ retention: 60 });
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const { id } = store.save('abc', 'text', 'client');
+
+    setSystemTime(new Date('2026-01-01T00:00:59Z'));
+    expect(store.read(id, 'client', 0).text).toBe('abc');
+
+    setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    expect(() => store.read(id, 'client', 0)).toThrow(ResourceNotFoundError);
+    expect(store.list('client')).toEqual([]);
+  });
+});
+
+describe('OutputStore.save', () => {
+  test('drops the oldest outputs beyond maxEntries', () => {
+    const store = createStore({ maxEntries: 2 });
+    const [first, second, third] = ['a', 'b', 'c'].map(text => store.save(text, 'text', 'client'));
+
+    expect(() => store.read(first!.id, 'client', 0)).toThrow(ResourceNotFoundError);
+    expect(store.list('client').map(info => info.id)).toEqual([third!.id, second!.id]);
+  });
+});
+
+describe('OutputStore.truncateResult', () => {
+  test('leaves short outputs alone', () => {
+    const result: ExecutionResult = { format: 'text', content: 'short' };
+
+    expect(createStore().truncateResult(result, 'client')).toBe(result);
+  });
+
+  test('stores the primary output once when it is also in outputs', () => {
+    const store = createStore();
+    const text = 'x'.repeat(25);
+    const latex = 'y'.repeat(30);
+    const truncated = store.truncateResult({ format: 'text', content: text, outputs: { text, latex } }, 'client');
+
+    expect(truncated.truncated?.map(output => output.format)).toEqual(['text', 'latex']);
+    expect(store.list('client')).toHaveLength(2);
+    expect(truncated.outputs?.text).toBe(truncated.content);
+    expect(truncated.content).toStartWith('x'.repeat(10));
+    expect(truncated.content).toContain(truncated.truncated![0]!.uri);
+  });
+
+  test('stores long cell outputs with their cell index', () => {
+    const store = createStore();
+    const truncated = store.truncateResult({
+      format: 'text',
+      content: 'done',
+      cells: [
+        { input: 'a', output: 'short', messages: [], timing: 1 },
+        { input: 'b', output: 'z'.repeat(20), messages: [], timing: 1 },
+      ],
+    }, 'client');
+
+    expect(truncated.truncated).toEqual([expect.objectContaining({ format: 'text', cell: 1, length: 20 })]);
+    expect(truncated.cells?.[0]?.output).toBe('short');
+  });
+
+  test('stores nothing without an inline limit', () => {
+    const store = createStore({ inlineLimit: 0 });
+    const result: ExecutionResult = { format: 'text', content: 'x'.repeat(100) };
+
+    expect(store.truncateResult(result, 'client')).toBe(result);
+    expect(store.list('client')).toEqual([]);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Stored outputs.
+ * Outputs longer than the inline limit are cut to a preview in the tool result
+ * and kept here in full for a retention period, so clients can read them in
+ * pages as mma://outputs/{id} resources instead of receiving them at once.
+ */
+
+import type {
+  CellResult,
+  ExecutionResult,
+  OutputFormat,
+  StoredOutput,
+} from '../config/schema.ts';
+import { MathematicaExecutionError, ResourceNotFoundError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { truncateOutput } from './formatter.ts';
+
+/**
+ * URI prefix of stored outputs
+ */
+export const OUTPUT_URI_PREFIX = 'mma://outputs/';
+
+/**
+ * Output store configuration
+ */
+export interface OutputStoreOptions {
+  /** Characters of an output returned inline (0 = no limit, nothing is stored) */
+  inlineLimit: number;
+  /** Seconds a stored output stays readable */
+  retention: number;
+  /** Outputs kept at once; the oldest are dropped first */
+  maxEntries: number;
+}
+
+/**
+ * Public description of a stored output
+ */
+export interface StoredOutputInfo {
+  id: string;
+  uri: string;
+  format: OutputFormat;
+  length: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * A page of a stored output
+ */
+export interface StoredOutputPage {
+  info: StoredOutputInfo;
+  text: string;
+  offset: number;
+  /** Offset of the next page, or null after the last page */
+  nextOffset: number | null;
+}
+
+interface Entry {
+  id: string;
+  clientId: string;
+  format: OutputFormat;
+  text: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Build the URI of a stored output
+ */
+export function outputUri(id: string): string {
+  return `${OUTPUT_URI_PREFIX}${id}`;
+}
+
+/**
+ * Keeps full outputs per client and expires them after the retention period
+ */
+export class OutputStore {
+  private readonly options: OutputStoreOptions;
+  /** Insertion order is age order: the first entry is the oldest */
+  private readonly entries = new Map<string, Entry>();
+  private readonly reapTimer: ReturnType<typeof setInterval>;
+
+  constructor(options: OutputStoreOptions) {
+    this.options = options;
+
+    const intervalMs = Math.min(options.retention, 60) * 1000;
+    this.reapTimer = setInterval(() => this.reapExpiredOutputs(), intervalMs);
+    this.reapTimer.unref?.();
+  }
+
+  /**
+   * Characters of an output returned inline (0 = no limit)
+   */
+  public get inlineLimit(): number {
+    return this.options.inlineLimit;
+  }
+
+  /**
+   * Store the full text of an output
+   * @param text - Full output
+   * @param format - Format the output is in
+   * @param clientId - Client allowed to read it
+   * @returns Description of the stored output
+   */
+  public save(text: string, format: OutputFormat, clientId: string): StoredOutputInfo {
+    const now = Date.now();
+    const entry: Entry = {
+      id: crypto.randomUUID(),
+      clientId,
+      format,
+      text,
+      createdAt: now,
+      expiresAt: now + this.options.retention * 1000,
+    };
+
+    this.entries.set(entry.id, entry);
+
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries) {
+        break;
+      }
+      logger.debug(`[Output ${id}] Dropped to stay within ${this.options.maxEntries} stored outputs`);
+      this.entries.delete(id);
+    }
+
+    logger.debug(`[Output ${entry.id}] Stored ${text.length} characters (client: ${clientId})`);
+
+    return this.describe(entry);
+  }
+
+  /**
+   * Read a page of a stored output
+   * @param id - Output id
+   * @param clientId - Client reading it
+   * @param offset - First character of the page
+   * @param length - Characters in the page (default: the inline limit, or the rest)
+   * @throws {ResourceNotFoundError} If the output does not exist, has expired or belongs to another client
+   */
+  public read(id: string, clientId: string, offset: number, length?: number): StoredOutputPage {
+    const entry = this.lookup(id, clientId);
+    const pageLength = length ?? (this.options.inlineLimit || entry.text.length);
+    const end = Math.min(offset + pageLength, entry.text.length);
+
+    return {
+      info: this.describe(entry),
+      text: entry.text.slice(offset, end),
+      offset,
+      nextOffset: end < entry.text.length ? end : null,
+    };
+  }
+
+  /**
+   * List the stored outputs of a client, newest first
+   */
+  public list(clientId: string): StoredOutputInfo[] {
+    const now = Date.now();
+
+    return [...this.entries.values()]
+      .filter(entry => entry.clientId === clientId && entry.expiresAt > now)
+      .reverse()
+      .map(entry => this.describe(entry));
+  }
+
+  /**
+   * Cut outputs longer than the inline limit to a preview and store them in full.
+   * The result itself is left unchanged; a copy is returned.
+   * @param result - Result of an evaluation
+   * @param clientId - Client the stored outputs belong to
+   * @returns The result with previews and a `truncated` entry per stored output
+   */
+  public truncateResult(result: ExecutionResult, clientId: string): ExecutionResult {
+    const limit = this.options.inlineLimit;
+
+    if (limit === 0) {
+      return result;
+    }
+
+    const truncated: StoredOutput[] = [];
+
+    const offload = (text: string, format: OutputFormat, cell?: number): string => {
+      if (text.length <= limit) {
+        return text;
+      }
+
+      const stored = this.save(text, format, clientId);
+      truncated.push({
+        uri: stored.uri,
+        format,
+        ...(cell !== undefined ? { cell } : {}),
+        length: stored.length,
+        expiresAt: stored.expiresAt,
+      });
+
+      return truncateOutput(text, limit, stored.uri);
+    };
+
+    // The primary output appears both as output/content and in outputs; store it once
+    const offloadAll = (
+      output: string,
+      outputs: Partial<Record<OutputFormat, string>> | undefined,
+      format: OutputFormat,
+      cell?: number
+    ) => {
+      const previews = outputs
+        ? Object.fromEntries(
+            Object.entries(outputs).map(([outputFormat, text]) => [
+              outputFormat,
+              offload(text, outputFormat as OutputFormat, cell),
+            ])
+          ) as Partial<Record<OutputFormat, string>>
+        : undefined;
+
+      return {
+        output: previews?.[format] ?? offload(output, format, cell),
+        outputs: previews,
+      };
+    };
+
+    const cells = result.cells?.map((cell, index): CellResult => {
+      const { output, outputs } = offloadAll(cell.output, cell.outputs, result.format, index);
+      return outputs ? { ...cell, output, outputs } : { ...cell, output };
+    });
+
+    const { output: content, outputs } = offloadAll(result.content, result.outputs, result.format);
+
+    if (truncated.length === 0) {
+      return result;
+    }
+
+    logger.info(`Truncated ${truncated.length} output(s) over ${limit} characters`);
+
+    return {
+      ...result,
+      content,
+      ...(outputs ? { outputs } : {}),
+      ...(cells ? { cells } : {}),
+      truncated,
+    };
+  }
+
+  /**
+   * Drop every stored output
+   */
+  public shutdown(): void {
+    clearInterval(this.reapTimer);
+    this.entries.clear();
+  }
+
+  private lookup(id: string, clientId: string): Entry {
+    const entry = this.entries.get(id);
+
+    if (!entry || entry.clientId !== clientId || entry.expiresAt <= Date.now()) {
+      throw new ResourceNotFoundError(outputUri(id));
+    }
+
+    return entry;
+  }
+
+  private describe(entry: Entry): StoredOutputInfo {
+    return {
+      id: entry.id,
+      uri: outputUri(entry.id),
+      format: entry.format,
+      length: entry.text.length,
+      createdAt: new Date(entry.createdAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+    };
+  }
+
+  /**
+   * Drop outputs older than the retention period
+   */
+  private reapExpiredOutputs(): void {
+    const now = Date.now();
+
+    for (const entry of [...this.entries.values()]) {
+      if (entry.expiresAt <= now) {
+        logger.debug(`[Output ${entry.id}] Expired after ${this.options.retention}s`);
+        this.entries.delete(entry.id);
+      }
+    }
+  }
+}
+
+// Global output store, created during server startup
+let outputStore: OutputStore | null = null;
+
+/**
+ * Create the global output store (replacing any previous one)
+ */
+export function initOutputStore(options: OutputStoreOptions): OutputStore {
+  outputStore?.shutdown();
+  outputStore = new OutputStore(options);
+  return outputStore;
+}
+
+/**
+ * Get the global output store
+ * @throws {MathematicaExecutionError} If the output store has not been initialized
+ */
+export function getOutputStore(): OutputStore {
+  if (!outputStore) {
+    throw new MathematicaExecutionError('Output store has not been initialized');
+  }
+  return outputStore;
+}
+
+/**
+ * Drop the global output store and its outputs
+ */
+export function shutdownOutputStore(): void {
+  if (outputStore) {
+    outputStore.shutdown();
+    outputStore = null;
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * Package management.
+ * Lists the paclets and $Path packages the kernels can load, installs packages
+ * from the workspace and removes them again, and loads the PRELOAD_PACKAGES in
+ * every pooled kernel so that evaluations can use them without Needs[].
+ */
+
+import { existsSync } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import type { z } from 'zod';
+import {
+  InstalledPackageSchema,
+  PackageListSchema,
+  UninstalledPackageSchema,
+  type InstalledPackage,
+  type PackageList,
+  type PreloadStatus,
+  type UninstalledPackage,
+} from '../config/schema.ts';
+import {
+  getErrorMessage,
+  MathematicaExecutionError,
+  PackageInstallError,
+  PackageNotFoundError,
+} from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import type { WolframKernel } from './kernel.ts';
+import { getKernelPool } from './kernel-pool.ts';
+import { captureMessages, parseCapturedMessages } from './messages.ts';
+import { getResultCache } from './result-cache.ts';
+import { getScheduler, type ScheduleOptions } from './scheduler.ts';
+import { toWolframString } from './wolfram-code.ts';
+import { resolveWorkspacePath } from './workspace.ts';
+
+/**
+ * Time allowed for loading one preloaded package in a new kernel
+ */
+const PRELOAD_TIMEOUT_MS = 120_000;
+
+/**
+ * Time allowed for listing packages
+ */
+const LIST_TIMEOUT_MS = 60_000;
+
+/**
+ * Time allowed for installing or uninstalling a package
+ */
+const INSTALL_TIMEOUT_MS = 300_000;
+
+/**
+ * Names of the metadata file that makes a directory a paclet
+ */
+const PACLET_INFO_FILES = ['PacletInfo.wl', 'PacletInfo.m'];
+
+/**
+ * Directory names usable as the context of an application package
+ */
+const CONTEXT_NAME_PATTERN = /^[A-Za-z$][A-Za-z0-9$]*$/;
+
+// Contexts from PRELOAD_PACKAGES, set during kernel warmup
+let preloadPackages: string[] = [];
+
+// Outcome of the latest attempt to load each preloaded package
+const preloadResults = new Map<string, { loaded: boolean; error: string | null }>();
+
+/**
+ * Qualify a package name as a context
+ */
+function toContext(name: string): string {
+  return name.endsWith('`') ? name : `${name}\``;
+}
+
+/**
+ * Set the packages every kernel loads (replacing any previous list)
+ * @param packages - Contexts, with or without the trailing backquote
+ */
+export function initPreloadPackages(packages: string[]): void {
+  preloadPackages = [...new Set(packages.map(toContext))];
+  preloadResults.clear();
+
+  if (preloadPackages.length > 0) {
+    logger.info(`Preloading packages: ${preloadPackages.join(', ')}`);
+  }
+}
+
+/**
+ * Packages every kernel loads, as contexts
+ */
+export function getPreloadPackages(): string[] {
+  return preloadPackages;
+}
+
+/**
+ * Load state of each preloaded package, reported by /health and list_packages
+ */
+export function getPreloadStatus(): PreloadStatus[] {
+  return preloadPackages.map(context => ({
+    package: context,
+    loaded: preloadResults.get(context)?.loaded ?? false,
+    error: preloadResults.get(context)?.error ?? null,
+  }));
+}
+
+/**
+ * Load the preloaded packages in a new kernel. Failures are recorded for /health,
+ * and the package is left out of evaluations until a later kernel loads it.
+ */
+export async function loadPreloadPackages(kernel: WolframKernel): Promise<void> {
+  for (const context of preloadPackages) {
+    let error: string | null = null;
+
+    try {
+      const { data } = await kernel.evaluate(
+        captureMessages(`<|"status" -> "ok", "loaded" -> (Needs[${toWolframString(context)}] =!= $Failed)|>`),
+        { timeoutMs: PRELOAD_TIMEOUT_MS }
+      );
+
+      if (data.loaded !== true) {
+        const [message] = parseCapturedMessages(data.messages);
+        error = message
+          ? `${message.symbol}::${message.tag}: ${message.text}`
+          : String(data.error ?? 'Needs returned $Failed');
+      }
+    } catch (failure) {
+      error = getErrorMessage(failure);
+    }
+
+    if (error) {
+      logger.warn(`[Kernel ${kernel.id}] Failed to preload ${context}: ${error}`);
+    } else {
+      logger.debug(`[Kernel ${kernel.id}] Preloaded ${context}`);
+    }
+
+    preloadResults.set(context, { loaded: error === null, error });
+  }
+}
+
+/**
+ * Code that puts the preloaded packages on $ContextPath before an evaluation.
+ * Resetting a kernel keeps them loaded but takes them off $ContextPath, and
+ * session kernels load them here the first time. Packages that failed to load
+ * are left out, so their messages do not repeat in every result.
+ */
+export function buildPreloadCode(): string {
+  const contexts = preloadPackages.filter(context => preloadResults.get(context)?.loaded !== false);
+
+  return contexts.length > 0
+    ? `Quiet[Needs /@ {${contexts.map(toWolframString).join(', ')}}];`
+    : '';
+}
+
+/**
+ * Code for the contexts of a paclet, which gives one context or a list of them
+ */
+function pacletContexts(paclet: string): string {
+  return `Replace[${paclet}["Context"], {
+    MCP\`Private\`context_String :> {MCP\`Private\`context},
+    MCP\`Private\`contexts_List :> Select[MCP\`Private\`contexts, StringQ],
+    _ -> {}
+  }]`;
+}
+
+/**
+ * Code listing the installed paclets and the package files and directories on $Path
+ */
+const LIST_PACKAGES_CODE = `
+Block[{MCP\`Private\`packageQ},
+  MCP\`Private\`packageQ[MCP\`Private\`path_String] := If[DirectoryQ[MCP\`Private\`path],
+    AnyTrue[
+      {"init.m", "init.wl", FileNameJoin[{"Kernel", "init.m"}], FileNameJoin[{"Kernel", "init.wl"}],
+        FileNameTake[MCP\`Private\`path] <> ".m", FileNameTake[MCP\`Private\`path] <> ".wl"},
+      FileExistsQ[FileNameJoin[{MCP\`Private\`path, #}]] &
+    ],
+    MemberQ[{"m", "wl"}, FileExtension[MCP\`Private\`path]]
+  ];
+  <|
+    "status" -> "ok",
+    "paclets" -> Map[
+      <|
+        "name" -> #["Name"],
+        "version" -> #["Version"],
+        "location" -> #["Location"],
+        "contexts" -> ${pacletContexts('#')}
+      |> &,
+      PacletFind[]
+    ],
+    "packages" -> Flatten[Map[
+      Function[MCP\`Private\`directory,
+        <|"context" -> FileBaseName[#] <> "\`", "location" -> #|> & /@
+          Select[FileNames["*", MCP\`Private\`directory], MCP\`Private\`packageQ]
+      ],
+      Select[DeleteDuplicates[$Path], StringQ[#] && # =!= "." && DirectoryQ[#] &]
+    ]]
+  |>
+]`;
+
+/**
+ * Code describing a paclet object (or the failure in its place) as a result
+ */
+function pacletResult(expression: string): string {
+  return `Replace[Quiet[${expression}], {
+    MCP\`Private\`p_?PacletObjectQ :> <|
+      "status" -> "ok",
+      "name" -> MCP\`Private\`p["Name"],
+      "kind" -> "paclet",
+      "version" -> MCP\`Private\`p["Version"],
+      "location" -> MCP\`Private\`p["Location"],
+      "contexts" -> ${pacletContexts('MCP`Private`p')}
+    |>,
+    MCP\`Private\`f_?FailureQ :> <|"status" -> "error", "error" -> ToString[MCP\`Private\`f["Message"]]|>,
+    MCP\`Private\`other_ :> <|"status" -> "error", "error" -> ToString[MCP\`Private\`other, InputForm]|>
+  }]`;
+}
+
+/**
+ * Build the code installing a .paclet file or a directory with paclet metadata
+ */
+function buildPacletInstallCode(path: string, isArchive: boolean): string {
+  const source = toWolframString(path);
+
+  // A paclet directory is packed into an archive first, so the installed copy is independent of it
+  return pacletResult(isArchive
+    ? `PacletInstall[File[${source}], ForceVersionInstall -> True]`
+    : `Replace[CreatePacletArchive[${source}, $TemporaryDirectory], {
+        MCP\`Private\`archive_String :> PacletInstall[File[MCP\`Private\`archive], ForceVersionInstall -> True]
+      }]`);
+}
+
+/**
+ * File install_package leaves in the package directories it copies to
+ * $UserBaseDirectory/Applications, so that it only replaces or removes those
+ */
+const INSTALL_MARKER_FILE = '.mathematica-mcp-installed';
+
+/**
+ * Build the code naming a directory in $UserBaseDirectory/Applications and its install marker
+ */
+function applicationTargetVariables(name: string): string {
+  return `MCP\`Private\`target = FileNameJoin[{$UserBaseDirectory, "Applications", ${toWolframString(name)}}],
+    MCP\`Private\`marker = FileNameJoin[{$UserBaseDirectory, "Applications", ${toWolframString(name)}, ${toWolframString(INSTALL_MARKER_FILE)}}]`;
+}
+
+/**
+ * Build the code copying a package directory to $UserBaseDirectory/Applications,
+ * replacing an earlier copy made by install_package but no other directory
+ */
+function buildApplicationInstallCode(path: string, name: string): string {
+  return `Block[{${applicationTargetVariables(name)}},
+  Which[
+    DirectoryQ[MCP\`Private\`target] && !FileExistsQ[MCP\`Private\`marker],
+      <|"status" -> "error", "error" -> MCP\`Private\`target <> " exists and was not installed by install_package"|>,
+    (
+      Quiet[
+        If[DirectoryQ[MCP\`Private\`target], DeleteDirectory[MCP\`Private\`target, DeleteContents -> True]];
+        CreateDirectory[DirectoryName[MCP\`Private\`target], CreateIntermediateDirectories -> True]
+      ];
+      Quiet[CopyDirectory[${toWolframString(path)}, MCP\`Private\`target]] === $Failed ||
+        Quiet[CreateFile[MCP\`Private\`marker]] === $Failed
+    ),
+      <|"status" -> "error", "error" -> "could not copy the directory to " <> MCP\`Private\`target|>,
+    True,
+      <|
+        "status" -> "ok",
+        "name" -> ${toWolframString(name)},
+        "kind" -> "application",
+        "version" -> Null,
+        "location" -> MCP\`Private\`target,
+        "contexts" -> {${toWolframString(`${name}\``)}}
+      |>
+  ]
+]`;
+}
+
+/**
+ * Build the code removing a paclet, or else a directory installed by install_package
+ */
+function buildUninstallCode(name: string): string {
+  return `Block[{MCP\`Private\`paclets = PacletFind[${toWolframString(name)}], MCP\`Private\`failures,
+    ${applicationTargetVariables(name)}},
+  Which[
+    MCP\`Private\`paclets =!= {},
+      MCP\`Private\`failures = Select[Quiet[PacletUninstall /@ MCP\`Private\`paclets], FailureQ];
+      If[MCP\`Private\`failures =!= {},
+        <|"status" -> "error", "error" -> ToString[First[MCP\`Private\`failures]["Message"]]|>,
+        <|"status" -> "ok", "name" -> ${toWolframString(name)}, "kind" -> "paclet",
+          "removed" -> Map[#["Location"] &, MCP\`Private\`paclets]|>
+      ],
+    DirectoryQ[MCP\`Private\`target] && !FileExistsQ[MCP\`Private\`marker],
+      <|"status" -> "error", "error" -> MCP\`Private\`target <> " was not installed by install_package"|>,
+    DirectoryQ[MCP\`Private\`target],
+      If[Quiet[DeleteDirectory[MCP\`Private\`target, DeleteContents -> True]] === $Failed,
+        <|"status" -> "error", "error" -> "could not delete " <> MCP\`Private\`target|>,
+        <|"status" -> "ok", "name" -> ${toWolframString(name)}, "kind" -> "application",
+          "removed" -> {MCP\`Private\`target}|>
+      ],
+    True,
+      <|"status" -> "notfound"|>
+  ]
+]`;
+}
+
+/**
+ * Run package code in a pooled kernel. The code runs outside the sandbox, since
+ * it is built here; user input only ever reaches it as string literals.
+ * @param recycle - Replace all pooled kernels after a successful change, so they see it
+ */
+async function evaluate(
+  code: string,
+  timeoutMs: number,
+  schedule: ScheduleOptions,
+  recycle = false
+): Promise<Record<string, unknown>> {
+  const { signal } = schedule;
+
+  const { value } = await getScheduler().run(
+    () => getKernelPool().withKernel(async kernel => {
+      const { data } = await kernel.evaluate(code, { timeoutMs, signal });
+
+      // Marks this kernel too, so it is replaced when it is released
+      if (recycle && data.status === 'ok') {
+        await getKernelPool().recycle();
+      }
+
+      return data;
+    }, signal),
+    schedule
+  );
+
+  return value;
+}
+
+/**
+ * Validate the kernel's answer
+ * @throws {MathematicaExecutionError} If it does not have the expected shape
+ */
+function parseResult<T>(schema: z.ZodType<T>, data: Record<string, unknown>, what: string): T {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    throw new MathematicaExecutionError(`${what} returned unexpected data: ${result.error.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * List the paclets and $Path packages the kernels can load
+ * @param query - Only list packages whose name, context or location contains this text
+ * @param schedule - Queueing options
+ */
+export async function listPackages(query: string | undefined, schedule: ScheduleOptions): Promise<PackageList> {
+  const data = await evaluate(LIST_PACKAGES_CODE, LIST_TIMEOUT_MS, schedule);
+
+  if (data.status !== 'ok') {
+    throw new MathematicaExecutionError(`Listing packages failed: ${String(data.error ?? data.status)}`);
+  }
+
+  const list = parseResult(PackageListSchema, { ...data, preloaded: getPreloadStatus() }, 'Listing packages');
+  const needle = query?.toLowerCase();
+  const matches = (...fields: string[]) => !needle || fields.some(field => field.toLowerCase().includes(needle));
+
+  return {
+    paclets: list.paclets.filter(paclet => matches(paclet.name, paclet.location, ...paclet.contexts)),
+    packages: list.packages.filter(entry => matches(entry.context, entry.location)),
+    preloaded: list.preloaded,
+  };
+}
+
+/**
+ * Install a package from the workspace: a .paclet file, a paclet directory
+ * (with PacletInfo.wl or PacletInfo.m), or a package directory, which is copied
+ * to $UserBaseDirectory/Applications. Afterwards the pooled kernels are replaced
+ * and the result cache is purged, since results may depend on installed packages.
+ * @param path - File or directory, inside the workspace roots
+ * @param schedule - Queueing options
+ * @throws {PathNotAllowedError} If the path is outside the workspace roots
+ * @throws {PackageInstallError} If the path is no package or installing fails
+ */
+export async function installPackage(path: string, schedule: ScheduleOptions): Promise<InstalledPackage> {
+  const source = resolveWorkspacePath(path);
+  let code: string;
+
+  try {
+    if ((await stat(source)).isDirectory()) {
+      const name = basename(source);
+
+      if (PACLET_INFO_FILES.some(file => existsSync(join(source, file)))) {
+        code = buildPacletInstallCode(source, false);
+      } else if (CONTEXT_NAME_PATTERN.test(name)) {
+        code = buildApplicationInstallCode(source, name);
+      } else {
+        throw new PackageInstallError(path, 'install', `directory name ${name} is not a valid context name`);
+      }
+    } else if (extname(source) === '.paclet') {
+      code = buildPacletInstallCode(source, true);
+    } else {
+      throw new PackageInstallError(path, 'install', 'expected a .paclet file or a package directory');
+    }
+  } catch (error) {
+    throw error instanceof PackageInstallError ? error : new PackageInstallError(path, 'install', getErrorMessage(error));
+  }
+
+  const data = await evaluate(code, INSTALL_TIMEOUT_MS, schedule, true);
+
+  if (data.status !== 'ok') {
+    throw new PackageInstallError(path, 'install', String(data.error ?? `kernel returned status ${data.status}`));
+  }
+
+  const installed = parseResult(InstalledPackageSchema, data, 'Installing a package');
+  logger.info(`Installed ${installed.kind} ${installed.name} at ${installed.location}`);
+
+  await getResultCache()?.purge();
+
+  return installed;
+}
+
+/**
+ * Remove a paclet, or a package directory installed by install_package.
+ * Afterwards the pooled kernels are replaced and the result cache is purged.
+ * @param name - Paclet or package name
+ * @param schedule - Queueing options
+ * @throws {PackageNotFoundError} If there is no such paclet or package directory
+ * @throws {PackageInstallError} If removing it fails
+ */
+export async function uninstallPackage(name: string, schedule: ScheduleOptions): Promise<UninstalledPackage> {
+  const packageName = name.replace(/`$/, '');
+  const data = await evaluate(buildUninstallCode(packageName), INSTALL_TIMEOUT_MS, schedule, true);
+
+  if (data.status === 'notfound') {
+    throw new PackageNotFoundError(packageName);
+  }
+
+  if (data.status !== 'ok') {
+    throw new PackageInstallError(packageName, 'uninstall', String(data.error ?? `kernel returned status ${data.status}`));
+  }
+
+  const uninstalled = parseResult(UninstalledPackageSchema, data, 'Uninstalling a package');
+  logger.info(`Uninstalled ${uninstalled.kind} ${uninstalled.name} (${uninstalled.removed.join(', ')})`);
+
+  await getResultCache()?.purge();
+
+  return uninstalled;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test';
+import { existsSync } from 'node:fs';
+import { readProcessTreeCpuSeconds } from './resource-limits.ts';
+
+const hasProc = existsSync('/proc/self/stat');
+
+describe('readProcessTreeCpuSeconds', () => {
+  test.skipIf(!hasProc)('counts the CPU time of descendants', async () => {
+    // The busy loop runs in a grandchild, under a shell that waits for it; its
+    // own process group lets both be killed together
+    const proc = Bun.spawn(['/bin/sh', '-c', 'sh -c "while :; do :; done" & wait'], { detached: true });
+
+    try {
+      await Bun.sleep(1000);
+      expect(await readProcessTreeCpuSeconds(proc.pid)).toBeGreaterThan(0.2);
+    } finally {
+      process.kill(-proc.pid, 'SIGKILL');
+    }
+  });
+
+  test.skipIf(!hasProc)('returns null for a process that does not exist', async () => {
+    expect(await readProcessTreeCpuSeconds(2 ** 22 + 1)).toBeNull();
+  });
+});
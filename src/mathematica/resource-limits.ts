@@ -0,0 +1,190 @@
+/**
+ * OS-level resource limits for kernel processes.
+ * Caps a kernel's memory with an address-space rlimit or a cgroup v2 memory.max,
+ * and measures the CPU time used by its process tree through /proc, or by its
+ * cgroup through cpu.stat.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmdirSync, writeFileSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { logger } from '../utils/logger.ts';
+
+/**
+ * Clock ticks per second used by /proc/<pid>/stat times (USER_HZ, 100 on Linux)
+ */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/**
+ * Limits applied to a kernel process for its whole lifetime
+ */
+export interface KernelProcessLimits {
+  /** Memory cap for the kernel's process tree in MB (0 = none) */
+  memoryMb: number;
+  /** Delegated cgroup v2 directory; when set, memory is capped with a cgroup instead of an rlimit */
+  cgroupRoot?: string;
+}
+
+/**
+ * Build the command line that starts a kernel under the given limits.
+ * Without a cgroup, the memory cap is applied as RLIMIT_AS through the shell's
+ * ulimit before exec'ing wolframscript, so the kernel keeps the same pid.
+ * @param wolframPath - Path to the wolframscript executable
+ * @param args - Arguments for wolframscript
+ * @param limits - Process limits, if any
+ * @returns Command and arguments for spawn
+ */
+export function buildKernelCommand(
+  wolframPath: string,
+  args: string[],
+  limits?: KernelProcessLimits
+): string[] {
+  if (!limits || limits.memoryMb <= 0 || limits.cgroupRoot) {
+    return [wolframPath, ...args];
+  }
+
+  const kilobytes = String(limits.memoryMb * 1024);
+
+  return ['/bin/sh', '-c', 'ulimit -v "$1" && shift && exec "$@"', 'mma-kernel', kilobytes, wolframPath, ...args];
+}
+
+/**
+ * Per-kernel cgroup v2 with a memory cap
+ */
+export class KernelCgroup {
+  public readonly path: string;
+
+  private constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Create a child cgroup and move a process into it
+   * @param root - Delegated cgroup v2 directory the server may write to
+   * @param name - Name of the child cgroup
+   * @param pid - Process to move into the cgroup (its children follow)
+   * @param memoryMb - Value for memory.max in MB
+   * @returns The cgroup, or null if it could not be set up
+   */
+  public static attach(root: string, name: string, pid: number, memoryMb: number): KernelCgroup | null {
+    const path = join(root, name);
+
+    try {
+      mkdirSync(path, { recursive: true });
+      writeFileSync(join(path, 'memory.max'), String(memoryMb * 1024 * 1024));
+      // Swapping would only delay the OOM kill
+      if (existsSync(join(path, 'memory.swap.max'))) {
+        writeFileSync(join(path, 'memory.swap.max'), '0');
+      }
+      writeFileSync(join(path, 'cgroup.procs'), String(pid));
+      return new KernelCgroup(path);
+    } catch (error) {
+      logger.warn(`Failed to set up cgroup ${path}, kernel runs without an OS memory limit:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether the kernel's memory cap triggered the OOM killer
+   */
+  public oomKilled(): boolean {
+    try {
+      const events = readFileSync(join(this.path, 'memory.events'), 'utf-8');
+      const match = events.match(/^oom_kill (\d+)$/m);
+      return match !== null && Number(match[1]) > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * CPU seconds used so far by every process that ran in the cgroup
+   * @returns CPU seconds, or null if cpu.stat cannot be read
+   */
+  public async cpuSeconds(): Promise<number | null> {
+    try {
+      const stat = await readFile(join(this.path, 'cpu.stat'), 'utf-8');
+      const match = stat.match(/^usage_usec (\d+)$/m);
+      return match ? Number(match[1]) / 1_000_000 : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove the cgroup once all its processes have exited
+   */
+  public remove(): void {
+    try {
+      rmdirSync(this.path);
+    } catch (error) {
+      logger.debug(`Failed to remove cgroup ${this.path}:`, error);
+    }
+  }
+}
+
+/**
+ * CPU seconds used so far by a process and its descendants, including children
+ * they have already reaped. Walks only the process's own tree through
+ * /proc/<pid>/task/<tid>/children, asynchronously, so sampling does not stall
+ * the event loop on a busy host.
+ * @param pid - Root of the process tree (the kernel's pid)
+ * @returns CPU seconds, or null if /proc is not available
+ */
+export async function readProcessTreeCpuSeconds(pid: number): Promise<number | null> {
+  const rootTicks = await readProcessTicks(pid);
+
+  if (rootTicks === null) {
+    return null;
+  }
+
+  let ticks = rootTicks;
+  const seen = new Set([pid]);
+  const queue = await readChildren(pid);
+
+  for (let child = queue.shift(); child !== undefined; child = queue.shift()) {
+    if (seen.has(child)) {
+      continue;
+    }
+
+    seen.add(child);
+    // A process that exited while walking the tree is in its parent's reaped times
+    ticks += (await readProcessTicks(child)) ?? 0;
+    queue.push(...await readChildren(child));
+  }
+
+  return ticks / CLOCK_TICKS_PER_SECOND;
+}
+
+/**
+ * Clock ticks a process and its reaped children have used, or null if it is gone
+ */
+async function readProcessTicks(pid: number): Promise<number | null> {
+  try {
+    const stat = await readFile(`/proc/${pid}/stat`, 'utf-8');
+    // Fields after "(comm)": state ppid pgrp ... utime(11) stime(12) cutime(13) cstime(14)
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+
+    return Number(fields[11]) + Number(fields[12]) + Number(fields[13]) + Number(fields[14]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Children of all threads of a process (empty if it is gone)
+ */
+async function readChildren(pid: number): Promise<number[]> {
+  const children: number[] = [];
+
+  try {
+    for (const task of await readdir(`/proc/${pid}/task`)) {
+      const list = await readFile(`/proc/${pid}/task/${task}/children`, 'utf-8').catch(() => '');
+      children.push(...list.split(' ').filter(entry => /^\d+$/.test(entry)).map(Number));
+    }
+  } catch {
+    // Process exited while reading
+  }
+
+  return children;
+}
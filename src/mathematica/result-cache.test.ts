@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'bun:test';
+import { findUncacheableSymbol, normalizeCode } from './result-cache.ts';
+
+describe('normalizeCode', () => {
+  test('drops comments and collapses whitespace', () => {
+    expect(normalizeCode('  Integrate[x^2,  (* note *) x]  ')).toBe('Integrate[x^2, x]');
+    expect(normalizeCode('a(* c *)b')).toBe('a b');
+  });
+
+  test('keeps line breaks, which separate expressions', () => {
+    expect(normalizeCode('x = 1  \n\n  x + 1')).toBe('x = 1\nx + 1');
+  });
+
+  test('keeps strings as written', () => {
+    expect(normalizeCode('StringLength["a  (* b *)  \\"c\\""]')).toBe('StringLength["a  (* b *)  \\"c\\""]');
+  });
+});
+
+describe('findUncacheableSymbol', () => {
+  test('passes deterministic code', () => {
+    expect(findUncacheableSymbol('Integrate[Sin[x], x]')).toBeNull();
+    expect(findUncacheableSymbol('"RandomReal[]" (* Now *)')).toBeNull();
+  });
+
+  test('finds nondeterministic and side-effecting symbols', () => {
+    expect(findUncacheableSymbol('RandomReal[]')).toBe('System`RandomReal');
+    expect(findUncacheableSymbol('Import["data.csv"]')).toBe('System`Import');
+  });
+
+  test('sees through character escapes and code built at runtime', () => {
+    expect(findUncacheableSymbol('\\:0052andomReal[]')).toBe('System`RandomReal');
+    expect(findUncacheableSymbol('BinaryDeserialize[bytes]')).toBe('System`BinaryDeserialize');
+  });
+});
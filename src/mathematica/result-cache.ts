@@ -0,0 +1,427 @@
+/**
+ * Result cache.
+ * Keeps the results of deterministic evaluations so that repeated computations
+ * are answered without a kernel. Entries are keyed by a hash of the normalized
+ * code, the output options, the kernel version and the prelude (sandbox policy,
+ * preloaded packages and working directory), held in an in-memory LRU and optionally mirrored to a
+ * directory that survives restarts.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import { readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ExecuteOptions, ExecutionResult } from '../config/schema.ts';
+import { getErrorMessage } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { getPreloadPackages } from './packages.ts';
+import { DYNAMIC_CODE_SYMBOLS, findSymbol, getSandboxPolicy, SIDE_EFFECT_SYMBOLS } from './sandbox.ts';
+import { getWorkspaceRoots, resolveWorkspacePath } from './workspace.ts';
+
+/**
+ * Symbols whose results change from one evaluation to the next: random numbers,
+ * the clock, timing and memory measurements, process identity and curated data
+ * fetched on demand. Code built at runtime, which the scan cannot see into, is
+ * added from the sandbox's list.
+ */
+const NONDETERMINISTIC_SYMBOLS = [
+  'Random', 'RandomReal', 'RandomInteger', 'RandomComplex', 'RandomChoice', 'RandomSample',
+  'RandomVariate', 'RandomPrime', 'RandomPermutation', 'RandomWord', 'RandomImage',
+  'RandomGraph', 'RandomPoint', 'RandomEntity', 'RandomColor', 'RandomFunction',
+  'RandomInstance', 'SeedRandom', '$RandomState',
+  'Now', 'Today', 'Tomorrow', 'Yesterday', 'Date', 'DateList', 'DateString', 'DateObject',
+  'DateValue', 'AbsoluteTime', 'UnixTime', 'SessionTime', 'TimeUsed', '$TimeZone',
+  'Timing', 'AbsoluteTiming', 'RepeatedTiming', 'TimeConstrained', 'MemoryConstrained',
+  'MemoryInUse', 'MaxMemoryUsed', 'Pause', 'CreateUUID', '$ProcessID', '$SessionID',
+  'WolframAlpha', 'EntityValue', ...DYNAMIC_CODE_SYMBOLS,
+];
+
+/**
+ * Result cache configuration
+ */
+export interface ResultCacheOptions {
+  /** Entries kept in memory */
+  maxEntries: number;
+  /** Seconds an entry may be served for */
+  ttl: number;
+  /** Directory mirroring the entries on disk (unset = memory only) */
+  directory?: string;
+  /** Version of the kernels producing the results, part of every key */
+  kernelVersion: string;
+}
+
+/**
+ * Snapshot of cache activity, reported by /health and /cache
+ */
+export interface ResultCacheStats {
+  entries: number;
+  maxEntries: number;
+  ttl: number;
+  directory: string | null;
+  kernelVersion: string;
+  hits: number;
+  misses: number;
+  bypassed: number;
+}
+
+interface CacheEntry {
+  result: ExecutionResult;
+  /** Epoch milliseconds after which the entry is stale */
+  expiresAt: number;
+}
+
+/**
+ * Normalize code for hashing: comments are dropped and whitespace outside
+ * strings is collapsed, keeping line breaks because they separate expressions
+ * @param code - Wolfram Language code
+ * @returns Code that hashes the same for cosmetic variants
+ */
+export function normalizeCode(code: string): string {
+  let result = '';
+  let depth = 0;
+  let inString = false;
+  // Whitespace seen since the last token: none, a space or a line break
+  let pending = '';
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i] as string;
+    const next = code[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\' && next !== undefined) {
+        result += next;
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '(' && next === '*') {
+      depth++;
+      i++;
+      continue;
+    }
+
+    if (depth > 0) {
+      if (char === '*' && next === ')') {
+        depth--;
+        i++;
+        // A comment separates tokens like whitespace does
+        pending ||= ' ';
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      pending = char === '\n' || pending === '\n' ? '\n' : ' ';
+      continue;
+    }
+
+    if (pending && result.length > 0) {
+      result += pending;
+    }
+    pending = '';
+
+    if (char === '"') {
+      inString = true;
+    }
+
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Find a symbol that makes code unsuitable for caching. Character escapes are
+ * decoded, so \:0052andomReal counts as RandomReal.
+ * @param code - Wolfram Language code
+ * @returns The nondeterministic or side-effecting symbol (fully qualified), or null
+ */
+export function findUncacheableSymbol(code: string): string | null {
+  return findSymbol(code, [...NONDETERMINISTIC_SYMBOLS, ...SIDE_EFFECT_SYMBOLS]);
+}
+
+/**
+ * In-memory LRU of results with an optional on-disk backing store
+ */
+export class ResultCache {
+  private readonly options: ResultCacheOptions;
+  /** Insertion order is recency order: the first entry is the least recently used */
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private bypassed = 0;
+
+  constructor(options: ResultCacheOptions) {
+    this.options = options;
+
+    if (options.directory) {
+      mkdirSync(options.directory, { recursive: true });
+    }
+  }
+
+  /**
+   * Compute the cache key of an evaluation
+   * @param code - Code to evaluate
+   * @param options - Execution options of the call
+   * @returns Hex key, or null if the evaluation must not be cached
+   */
+  public keyFor(code: string, options: ExecuteOptions): string | null {
+    // Session results depend on earlier calls
+    if (options.sessionId) {
+      this.bypassed++;
+      return null;
+    }
+
+    const symbol = findUncacheableSymbol(code);
+
+    if (symbol) {
+      logger.debug(`Result cache bypassed: code uses ${symbol}`);
+      this.bypassed++;
+      return null;
+    }
+
+    // Everything evaluated before the code, or confining it, can change its result
+    const prelude = {
+      sandbox: getSandboxPolicy(),
+      packages: getPreloadPackages(),
+      roots: getWorkspaceRoots(),
+      directory: resolveWorkspacePath(options.path),
+    };
+
+    const material = JSON.stringify({
+      code: normalizeCode(code),
+      format: options.format,
+      formats: options.formats ?? null,
+      mathmlType: options.mathmlType ?? null,
+      functionDefinition: options.functionDefinition ?? null,
+      cells: options.cells ?? false,
+      continueOnError: options.continueOnError ?? false,
+      failOnMessages: options.failOnMessages ?? false,
+      quietMessages: options.quietMessages ?? [],
+      messageLimit: options.messageLimit ?? null,
+      images: options.images ?? null,
+      script: options.script ?? null,
+      kernelVersion: this.options.kernelVersion,
+      prelude,
+    });
+
+    return createHash('sha256').update(material).digest('hex');
+  }
+
+  /**
+   * Look up a result, falling back to the disk store on a memory miss
+   * @returns The cached result, or undefined if there is no fresh entry
+   */
+  public async get(key: string): Promise<ExecutionResult | undefined> {
+    let entry = this.entries.get(key);
+
+    if (!entry && this.options.directory) {
+      entry = await this.readEntry(key);
+    }
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        await this.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-inserting marks the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+
+    this.hits++;
+    return entry.result;
+  }
+
+  /**
+   * Store a result
+   * @param key - Key from keyFor
+   * @param result - Result of the evaluation
+   * @param ttl - Seconds the entry may be served for (clamped to the configured TTL)
+   */
+  public async set(key: string, result: ExecutionResult, ttl?: number): Promise<void> {
+    const seconds = Math.min(ttl ?? this.options.ttl, this.options.ttl);
+    const entry: CacheEntry = { result, expiresAt: Date.now() + seconds * 1000 };
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+
+    if (this.options.directory) {
+      await this.writeEntry(key, entry);
+    }
+  }
+
+  /**
+   * Remove every entry from memory and disk
+   * @returns Number of entries removed
+   */
+  public async purge(): Promise<number> {
+    const keys = new Set(this.entries.keys());
+    this.entries.clear();
+
+    for (const key of await this.listStoredKeys()) {
+      keys.add(key);
+      await this.removeFile(key);
+    }
+
+    logger.info(`Result cache purged (${keys.size} entries)`);
+
+    return keys.size;
+  }
+
+  /**
+   * Remove expired entries from the disk store
+   */
+  public async pruneStore(): Promise<void> {
+    let pruned = 0;
+
+    for (const key of await this.listStoredKeys()) {
+      const entry = await this.readEntry(key);
+
+      if (!entry || entry.expiresAt <= Date.now()) {
+        await this.removeFile(key);
+        pruned++;
+      }
+    }
+
+    if (pruned > 0) {
+      logger.info(`Result cache removed ${pruned} expired entries from ${this.options.directory}`);
+    }
+  }
+
+  /**
+   * Get cache statistics
+   */
+  public getStats(): ResultCacheStats {
+    return {
+      entries: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttl: this.options.ttl,
+      directory: this.options.directory ?? null,
+      kernelVersion: this.options.kernelVersion,
+      hits: this.hits,
+      misses: this.misses,
+      bypassed: this.bypassed,
+    };
+  }
+
+  /**
+   * Drop least recently used entries from memory; they stay on disk
+   */
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+
+  private async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    await this.removeFile(key);
+  }
+
+  private entryPath(key: string): string {
+    return join(this.options.directory as string, `${key}.json`);
+  }
+
+  private async readEntry(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(this.entryPath(key), 'utf-8')) as CacheEntry;
+    } catch {
+      // Missing or unreadable files count as misses
+      return undefined;
+    }
+  }
+
+  private async writeEntry(key: string, entry: CacheEntry): Promise<void> {
+    const path = this.entryPath(key);
+    const temporary = `${path}.${process.pid}.tmp`;
+
+    try {
+      // Renaming makes the entry appear complete or not at all
+      await writeFile(temporary, JSON.stringify(entry), 'utf-8');
+      await rename(temporary, path);
+    } catch (error) {
+      logger.warn(`Failed to store cache entry ${key}: ${getErrorMessage(error)}`);
+      await rm(temporary, { force: true }).catch(() => undefined);
+    }
+  }
+
+  private async removeFile(key: string): Promise<void> {
+    if (!this.options.directory) {
+      return;
+    }
+
+    await rm(this.entryPath(key), { force: true }).catch(error => {
+      logger.warn(`Failed to remove cache entry ${key}: ${getErrorMessage(error)}`);
+    });
+  }
+
+  private async listStoredKeys(): Promise<string[]> {
+    if (!this.options.directory) {
+      return [];
+    }
+
+    try {
+      const files = await readdir(this.options.directory);
+      return files
+        .filter(file => /^[0-9a-f]{64}\.json$/.test(file))
+        .map(file => file.slice(0, -'.json'.length));
+    } catch (error) {
+      logger.warn(`Failed to list cache entries: ${getErrorMessage(error)}`);
+      return [];
+    }
+  }
+}
+
+// Global cache, created during server startup when caching is enabled
+let resultCache: ResultCache | null = null;
+
+/**
+ * Create the global result cache (replacing any previous one)
+ */
+export function initResultCache(options: ResultCacheOptions): ResultCache {
+  resultCache = new ResultCache(options);
+
+  logger.info(
+    `Result cache enabled: ${options.maxEntries} entries, ${options.ttl}s TTL` +
+    (options.directory ? `, stored in ${options.directory}` : '')
+  );
+
+  resultCache.pruneStore().catch(error => {
+    logger.warn(`Failed to prune the result cache: ${getErrorMessage(error)}`);
+  });
+
+  return resultCache;
+}
+
+/**
+ * Get the global result cache, or null if caching is disabled
+ */
+export function getResultCache(): ResultCache | null {
+  return resultCache;
+}
+
+/**
+ * Get statistics of the global result cache, or null if caching is disabled
+ */
+export function getResultCacheStats(): ResultCacheStats | null {
+  return resultCache ? resultCache.getStats() : null;
+}
+
+/**
+ * Drop the global result cache; entries on disk are kept
+ */
+export function shutdownResultCache(): void {
+  resultCache = null;
+}
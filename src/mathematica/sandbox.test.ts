@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  findForbiddenSymbol,
+  findForbiddenSymbolCode,
+  hasCharacterEscapes,
+  listIdentifiers,
+  resolveSandboxPolicy,
+} from './sandbox.ts';
+import { toWolframString } from './wolfram-code.ts';
+
+const wolframscript = Bun.which(process.env.WOLFRAM_SCRIPT_PATH ?? 'wolframscript');
+
+const readonly = resolveSandboxPolicy('filesystem-readonly');
+const strict = resolveSandboxPolicy('strict');
+
+/**
+ * Parse code in a fresh kernel and run the parsed check on it
+ */
+function findInKernel(code: string): string {
+  const held = `Module[{s = StringToStream[${toWolframString(code)}], parsed},
+    parsed = Quiet[ReadList[s, Hold[Expression]]];
+    Close[s];
+    parsed
+  ]`;
+  const proc = Bun.spawnSync(
+    [wolframscript!, '-code', `ToString[${findForbiddenSymbolCode(held, strict)}, InputForm]`],
+    { timeout: 120_000 }
+  );
+
+  return proc.stdout.toString().trim();
+}
+
+describe('listIdentifiers', () => {
+  test('skips comments, strings and relative context names', () => {
+    expect(listIdentifiers('f[x_] := Run["ls"] (* Plot *) + `y + a`b')).toEqual(['f', 'x', 'Run', 'a`b']);
+  });
+
+  test('skips number marks', () => {
+    expect(listIdentifiers('N[1.5`20 x, 10]')).toEqual(['N', 'x']);
+  });
+
+  test('decodes character escapes', () => {
+    expect(listIdentifiers('\\:0055nprotect[Join]; \\.55nprotect; \\|000052un; \\122andomReal[]')).toEqual([
+      'Unprotect', 'Join', 'Unprotect', 'Run', 'RandomReal',
+    ]);
+  });
+});
+
+describe('hasCharacterEscapes', () => {
+  test('finds escapes in code but not in strings', () => {
+    expect(hasCharacterEscapes('\\:0052andomReal[]')).toBe(true);
+    expect(hasCharacterEscapes('StringLength["\\:0041"] + \\[Alpha]')).toBe(false);
+  });
+});
+
+describe('findForbiddenSymbol', () => {
+  test('finds denied symbols, qualified', () => {
+    expect(findForbiddenSymbol('Plot[Sin[x], {x, 0, 1}]', readonly)).toBeNull();
+    expect(findForbiddenSymbol('Run["ls"]', readonly)).toBe('System`Run');
+    expect(findForbiddenSymbol('JLink`InstallJava[]', readonly)).toBe('JLink`InstallJava');
+    expect(findForbiddenSymbol('MCP`Private`$driverKey', readonly)).toBe('MCP`Private`$driverKey');
+  });
+
+  test('sees through character escapes', () => {
+    expect(findForbiddenSymbol('\\:0052un["ls"]', readonly)).toBe('System`Run');
+    expect(findForbiddenSymbol('\\.55nprotect[Join]', strict)).toBe('System`Unprotect');
+  });
+
+  test('denies code built from bytes under the strict preset', () => {
+    expect(findForbiddenSymbol('BinaryDeserialize[ByteArray[{56, 67}]]', strict)).toBe('System`BinaryDeserialize');
+    expect(findForbiddenSymbol('ImportByteArray[b, "Package"]', strict)).toBe('System`ImportByteArray');
+  });
+
+  test('lets the default preset read files and build code, but not write or run programs', () => {
+    expect(findForbiddenSymbol('ToExpression["x^2"] + Symbol["a"]', readonly)).toBeNull();
+    expect(findForbiddenSymbol('Import["data.csv"]', readonly)).toBeNull();
+    expect(findForbiddenSymbol('Export["out.csv", data]', readonly)).toBe('System`Export');
+    expect(findForbiddenSymbol('Environment["HOME"]', readonly)).toBe('System`Environment');
+    expect(findForbiddenSymbol('RunProcess[{"ls"}]', readonly)).toBe('System`RunProcess');
+  });
+
+  test('lets everything pass without a policy', () => {
+    expect(findForbiddenSymbol('Run["ls"]', resolveSandboxPolicy('unrestricted'))).toBeNull();
+  });
+});
+
+describe('resolveSandboxPolicy', () => {
+  test('qualifies names and normalizes contexts', () => {
+    const policy = resolveSandboxPolicy('unrestricted', { denySymbols: ['Plot', 'Foo`bar'], denyContexts: ['Foo'] });
+
+    expect(policy.denySymbols).toEqual(['System`Plot', 'Foo`bar']);
+    expect(policy.denyContexts).toEqual(['Foo`']);
+    expect(policy.blockPipes).toBe(false);
+  });
+
+  test('lets allow entries win over the preset', () => {
+    const policy = resolveSandboxPolicy('strict', { allowSymbols: ['Import'], allowContexts: ['Developer'] });
+
+    expect(policy.denySymbols).not.toContain('System`Import');
+    expect(policy.denySymbols).toContain('System`Export');
+    expect(policy.denyContexts).not.toContain('Developer`');
+    expect(policy.blockPipes).toBe(true);
+  });
+});
+
+describe('parsed check', () => {
+  test.skipIf(!wolframscript)('resolves character escapes before matching', () => {
+    expect(findInKernel('\\:0055nprotect[Join]')).toBe('"System`Unprotect"');
+    expect(findInKernel('x = \\.52un')).toBe('"System`Run"');
+    expect(findInKernel('Sin[x]')).toBe('Null');
+  });
+});
@@ -0,0 +1,612 @@
+/**
+ * Code sandbox policy.
+ * Decides which Wolfram Language symbols and contexts submitted code may use,
+ * checks code statically before it is sent to a kernel, and installs runtime
+ * blocks in each kernel so that calls the static check cannot see are stopped too.
+ */
+
+import type { EnvConfig, SandboxPreset } from '../config/schema.ts';
+import {
+  MathematicaExecutionError,
+  SandboxViolationError,
+} from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import type { WolframKernel } from './kernel.ts';
+import { toWolframString } from './wolfram-code.ts';
+import { buildPathGuardCode, getWorkspaceRoots } from './workspace.ts';
+
+/**
+ * Time allowed for installing the runtime blocks in a new kernel
+ */
+const SANDBOX_INSTALL_TIMEOUT_MS = 60_000;
+
+/**
+ * Running external programs, linking native code and controlling the host
+ */
+const PROCESS_SYMBOLS = [
+  'Run', 'RunProcess', 'StartProcess', 'KillProcess', 'RunThrough', 'SystemOpen',
+  'SystemProcesses', 'SystemProcessData', 'Install', 'LinkLaunch', 'LinkConnect',
+  'LinkCreate', 'ExternalEvaluate', 'StartExternalSession', 'ExternalFunction',
+  'LibraryFunctionLoad', 'LibraryLoad', 'LaunchKernels', 'RemoteRun', 'RemoteRunProcess',
+  'Environment', 'GetEnvironment', 'SetEnvironment', 'Quit', 'Exit',
+];
+
+/**
+ * Creating, changing and deleting files and persistent state
+ */
+const FILE_WRITE_SYMBOLS = [
+  'Put', 'PutAppend', 'Save', 'DumpSave', 'Export', 'Write', 'WriteString', 'WriteLine',
+  'BinaryWrite', 'OpenWrite', 'OpenAppend', 'DeleteFile', 'DeleteDirectory', 'CreateFile',
+  'CreateDirectory', 'CopyFile', 'CopyDirectory', 'RenameFile', 'RenameDirectory',
+  'SetFileDate', 'CreateArchive', 'ExtractArchive', 'Splice', 'Encode', 'URLDownload',
+  'URLSave', 'PersistentSymbol', 'PersistentValue', 'InitializationValue', 'LocalObject',
+];
+
+/**
+ * Writing to a stream; the standard streams stay writable, since ReportProgress
+ * uses them
+ */
+const STREAM_WRITE_SYMBOLS = ['Write', 'WriteString', 'WriteLine'];
+
+/**
+ * Building symbols and code from strings and bytes, reading code from the
+ * driver's input, and lifting protection. The strict preset denies them, so that
+ * code cannot name the driver's internals without writing them out. Kernel
+ * functions implemented in top-level code use them too, so they are only checked
+ * before evaluation.
+ */
+export const DYNAMIC_CODE_SYMBOLS: readonly string[] = [
+  'ToExpression', 'ToHeldExpression', 'MakeExpression', 'Symbol', 'Unprotect', 'Uncompress',
+  'BinaryDeserialize', 'ImportByteArray', 'ImportString', 'StringToStream', 'Interpreter',
+  'SemanticImportString', 'ResourceFunction', 'Input', 'InputString',
+];
+
+/**
+ * Functions that change attributes, guarded at runtime so that code cannot lift
+ * the protection of kernel functions the driver calls after it
+ */
+const ATTRIBUTE_SYMBOLS = ['Unprotect', 'ClearAttributes', 'SetAttributes'];
+
+/**
+ * Reading files outside of package loading
+ */
+const FILE_READ_SYMBOLS = [
+  'Import', 'ReadList', 'ReadString', 'ReadLine', 'ReadByteArray', 'Read', 'OpenRead',
+  'BinaryRead', 'BinaryReadList', 'FindList', 'FilePrint', 'FileNames', 'Streams',
+];
+
+/**
+ * Network and cloud access
+ */
+const NETWORK_SYMBOLS = [
+  'URLRead', 'URLFetch', 'URLFetchAsynchronous', 'URLExecute', 'URLSubmit', 'SendMail',
+  'SocketConnect', 'SocketOpen', 'SocketListen', 'ServiceConnect', 'ServiceExecute',
+  'CloudGet', 'CloudPut', 'CloudDeploy', 'CloudEvaluate', 'CloudExport', 'CloudImport',
+  'CloudConnect',
+];
+
+/**
+ * Symbols whose results depend on or change state outside the kernel:
+ * processes, files (including code read with Get) and the network
+ */
+export const SIDE_EFFECT_SYMBOLS: readonly string[] = [
+  ...PROCESS_SYMBOLS, ...FILE_WRITE_SYMBOLS, ...FILE_READ_SYMBOLS, ...NETWORK_SYMBOLS, 'Get',
+];
+
+/**
+ * Symbols that run a shell command when given a file name of the form "!command"
+ */
+const PIPE_SYMBOLS = [
+  'Get', 'Needs', 'Import', 'ReadList', 'ReadString', 'OpenRead', 'FindList', 'Put',
+  'PutAppend', 'Export', 'OpenWrite', 'OpenAppend',
+];
+
+/**
+ * Contexts that bridge to other runtimes or expose kernel internals
+ */
+const BRIDGE_CONTEXTS = ['JLink`', 'NETLink`', 'RLink`', 'LibraryLink`'];
+
+/**
+ * Driver internals; code may never touch these while a sandbox is active
+ */
+const INTERNAL_CONTEXT = 'MCP`Private`';
+
+/**
+ * Resolved sandbox policy
+ */
+export interface SandboxPolicy {
+  /** Preset the policy is based on */
+  preset: SandboxPreset;
+  /** Fully qualified symbols code may not use */
+  denySymbols: string[];
+  /** Contexts whose symbols code may not use or load */
+  denyContexts: string[];
+  /** Whether "!command" file names are blocked */
+  blockPipes: boolean;
+}
+
+/**
+ * Deny lists for each preset
+ */
+const PRESETS: Record<SandboxPreset, { symbols: string[]; contexts: string[]; blockPipes: boolean }> = {
+  unrestricted: {
+    symbols: [],
+    contexts: [],
+    blockPipes: false,
+  },
+  'filesystem-readonly': {
+    symbols: [...PROCESS_SYMBOLS, ...FILE_WRITE_SYMBOLS],
+    contexts: [...BRIDGE_CONTEXTS],
+    blockPipes: true,
+  },
+  strict: {
+    symbols: [
+      ...PROCESS_SYMBOLS, ...FILE_WRITE_SYMBOLS, ...FILE_READ_SYMBOLS, ...NETWORK_SYMBOLS,
+      ...DYNAMIC_CODE_SYMBOLS,
+    ],
+    contexts: [...BRIDGE_CONTEXTS, 'Internal`', 'Developer`', 'System`Private`'],
+    blockPipes: true,
+  },
+};
+
+/**
+ * Qualify a symbol name; bare names refer to System`
+ */
+function qualifySymbol(name: string): string {
+  return name.includes('`') ? name : `System\`${name}`;
+}
+
+/**
+ * Normalize a context name to end with a backtick
+ */
+function normalizeContext(context: string): string {
+  return context.endsWith('`') ? context : `${context}\``;
+}
+
+/**
+ * Build a policy from a preset and additional allow/deny lists.
+ * Allow entries take precedence over deny entries, so a preset can be loosened.
+ * @param preset - Base preset
+ * @param lists - Extra symbols and contexts to allow or deny
+ * @returns Resolved policy
+ */
+export function resolveSandboxPolicy(
+  preset: SandboxPreset,
+  lists: {
+    allowSymbols?: string[];
+    denySymbols?: string[];
+    allowContexts?: string[];
+    denyContexts?: string[];
+  } = {}
+): SandboxPolicy {
+  const base = PRESETS[preset];
+
+  const allowSymbols = new Set((lists.allowSymbols ?? []).map(qualifySymbol));
+  const allowContexts = (lists.allowContexts ?? []).map(normalizeContext);
+
+  const denySymbols = [...new Set([...base.symbols, ...(lists.denySymbols ?? [])].map(qualifySymbol))]
+    .filter(symbol => !allowSymbols.has(symbol));
+
+  const denyContexts = [...new Set([...base.contexts, ...(lists.denyContexts ?? [])].map(normalizeContext))]
+    .filter(context => !allowContexts.includes(context));
+
+  return {
+    preset,
+    denySymbols,
+    denyContexts,
+    blockPipes: base.blockPipes && !PIPE_SYMBOLS.every(symbol => allowSymbols.has(qualifySymbol(symbol))),
+  };
+}
+
+/**
+ * Whether a policy restricts anything at all
+ */
+export function isSandboxActive(policy: SandboxPolicy): boolean {
+  return policy.denySymbols.length > 0 || policy.denyContexts.length > 0 || policy.blockPipes;
+}
+
+/**
+ * Strip comments and string literals, keeping everything else in place
+ */
+function stripCommentsAndStrings(code: string): string {
+  let result = '';
+  let depth = 0;
+  let inString = false;
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    const next = code[i + 1];
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      result += ' ';
+      continue;
+    }
+
+    if (char === '(' && next === '*') {
+      depth++;
+      i++;
+      result += '  ';
+      continue;
+    }
+
+    if (depth > 0) {
+      if (char === '*' && next === ')') {
+        depth--;
+        i++;
+        result += '  ';
+      } else {
+        result += ' ';
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      result += ' ';
+      continue;
+    }
+
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Character escapes the parser resolves inside identifiers: \:xxxx, \.xx,
+ * \|xxxxxx and octal \ooo
+ */
+const CHARACTER_ESCAPE_PATTERN = /\\(?::([0-9A-Fa-f]{4})|\.([0-9A-Fa-f]{2})|\|([0-9A-Fa-f]{6})|([0-7]{3}))/g;
+
+/**
+ * Whether code outside comments and strings uses character escapes
+ */
+export function hasCharacterEscapes(code: string): boolean {
+  return new RegExp(CHARACTER_ESCAPE_PATTERN.source).test(stripCommentsAndStrings(code));
+}
+
+/**
+ * Replace character escapes with the characters they stand for, so that
+ * \:0055nprotect reads as Unprotect
+ */
+function decodeCharacterEscapes(code: string): string {
+  return code.replace(CHARACTER_ESCAPE_PATTERN, (_match, hex4, hex2, hex6, octal) =>
+    String.fromCodePoint(hex4 || hex2 || hex6 ? parseInt(hex4 ?? hex2 ?? hex6, 16) : parseInt(octal, 8))
+  );
+}
+
+/**
+ * List the identifiers code mentions, skipping comments, strings and relative
+ * context names (`x), which resolve against the current context. Character
+ * escapes are decoded first.
+ * @param code - Wolfram Language code
+ * @returns Identifiers as written, in order of appearance
+ */
+export function listIdentifiers(code: string): string[] {
+  const stripped = decodeCharacterEscapes(stripCommentsAndStrings(code));
+
+  // Identifiers: letters, digits, $ and context marks, not starting with a digit.
+  // Number marks such as 1.5`20 are skipped because the match must start the token.
+  const identifierPattern = /(?<![A-Za-z0-9$`.])[A-Za-z$`][A-Za-z0-9$`]*/g;
+
+  return [...stripped.matchAll(identifierPattern)]
+    .map(match => match[0])
+    .filter(identifier => !identifier.startsWith('`'));
+}
+
+/**
+ * Find the first of the given symbols that code mentions
+ * @param code - Wolfram Language code
+ * @param symbols - Symbols to look for; bare names refer to System`
+ * @returns The symbol found (fully qualified), or null
+ */
+export function findSymbol(code: string, symbols: Iterable<string>): string | null {
+  const wanted = new Set([...symbols].map(qualifySymbol));
+
+  return listIdentifiers(code).map(qualifySymbol).find(symbol => wanted.has(symbol)) ?? null;
+}
+
+/**
+ * Find the first symbol in the code that the policy forbids
+ * @param code - Wolfram Language code
+ * @param policy - Sandbox policy
+ * @returns Offending symbol (fully qualified), or null if the code passes
+ */
+export function findForbiddenSymbol(code: string, policy: SandboxPolicy): string | null {
+  if (!isSandboxActive(policy)) {
+    return null;
+  }
+
+  const denied = new Set(policy.denySymbols);
+  const contexts = [...policy.denyContexts, INTERNAL_CONTEXT];
+
+  for (const identifier of listIdentifiers(code)) {
+    const symbol = qualifySymbol(identifier);
+
+    if (denied.has(symbol)) {
+      return symbol;
+    }
+
+    if (identifier.includes('`') && contexts.some(context => symbol.startsWith(context))) {
+      return symbol;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Statically check code against the policy before it is evaluated
+ * @throws {SandboxViolationError} If the code mentions a forbidden symbol or context
+ */
+export function assertCodeAllowed(code: string, policy: SandboxPolicy): void {
+  const symbol = findForbiddenSymbol(code, policy);
+
+  if (symbol) {
+    logger.warn(`Sandbox (${policy.preset}) rejected code using ${symbol}`);
+    throw new SandboxViolationError(symbol, policy.preset, 'static');
+  }
+}
+
+/**
+ * Whether kernels get runtime guards, from the sandbox policy or the workspace roots
+ */
+export function runtimeGuardsActive(): boolean {
+  return isSandboxActive(sandboxPolicy) || getWorkspaceRoots().length > 0;
+}
+
+/**
+ * Build the code that installs the runtime blocks in a kernel.
+ * Each denied symbol gets a leading definition that records the violation and
+ * aborts, active only while MCP`Private`sealedQ[] is True, i.e. while user code
+ * runs. The driver holds a random key in MCP`Private`$driverKey, which
+ * sandboxExpression blocks for user code; only its hash is stored in the kernel,
+ * so code cannot unseal itself by rebinding the key. Package loading of denied
+ * contexts and file access outside the workspace roots are blocked the same way,
+ * the attribute functions are guarded (see buildAttributeGuardCode), and every
+ * touched symbol and guard helper is locked afterwards.
+ * MCP`Private`violationKind tells the two kinds of violation apart ("sandbox" or "path").
+ * @param policy - Sandbox policy
+ * @param roots - Workspace roots
+ * @param key - Secret the driver keeps while its own code runs
+ */
+export function buildSandboxInstallCode(policy: SandboxPolicy, roots: string[], key: string): string {
+  const list = (values: string[]) => `{${values.map(toWolframString).join(', ')}}`;
+
+  const staticOnly = DYNAMIC_CODE_SYMBOLS.map(qualifySymbol);
+  const streamWriters = STREAM_WRITE_SYMBOLS.map(qualifySymbol);
+  const denied = policy.denySymbols.filter(symbol => !staticOnly.includes(symbol));
+  const deniedWriters = denied.filter(symbol => streamWriters.includes(symbol));
+  const deniedOthers = denied.filter(symbol => !streamWriters.includes(symbol));
+
+  const pipeSymbols = policy.blockPipes
+    ? PIPE_SYMBOLS.map(qualifySymbol).filter(symbol => !denied.includes(symbol))
+    : [];
+  const guardedLoaders = policy.denyContexts.length > 0 ? ['System`Needs', 'System`Get'] : [];
+  const pathGuards = roots.length > 0 ? buildPathGuardCode(roots) : { code: '', symbols: [] };
+  const attributeGuards = isSandboxActive(policy) ? buildAttributeGuardCode() : { code: '', symbols: [] };
+  const blocked = [...new Set([
+    ...denied, ...pipeSymbols, ...guardedLoaders, ...pathGuards.symbols, ...attributeGuards.symbols,
+  ])];
+
+  return `
+MCP\`Private\`$driverKey = ${toWolframString(key)};
+With[{MCP\`Private\`hash = Hash[MCP\`Private\`$driverKey, "SHA256"]},
+  MCP\`Private\`sealed[MCP\`Private\`hash] = False
+];
+MCP\`Private\`sealed[_] = True;
+MCP\`Private\`sealedQ[] := MCP\`Private\`sealed[Hash[MCP\`Private\`$driverKey, "SHA256"]];
+SetAttributes[{MCP\`Private\`sealed, MCP\`Private\`sealedQ}, {Protected, ReadProtected, Locked}];
+MCP\`Private\`violation = Null;
+MCP\`Private\`violationKind = "sandbox";
+MCP\`Private\`sandboxViolation[MCP\`Private\`name_String, MCP\`Private\`kind_String : "sandbox"] := (
+  MCP\`Private\`violation = MCP\`Private\`name;
+  MCP\`Private\`violationKind = MCP\`Private\`kind;
+  Abort[]
+);
+MCP\`Private\`deniedContextQ[MCP\`Private\`ctx_String] :=
+  AnyTrue[${list(policy.denyContexts)}, StringStartsQ[MCP\`Private\`ctx, #] &];
+MCP\`Private\`addBlock[MCP\`Private\`name_String, MCP\`Private\`rule_] := With[
+  {MCP\`Private\`s = Symbol[MCP\`Private\`name], MCP\`Private\`attributes = Attributes[MCP\`Private\`name]},
+  Unprotect[MCP\`Private\`name];
+  ClearAttributes[MCP\`Private\`name, ReadProtected];
+  DownValues[MCP\`Private\`s] = Prepend[DownValues[MCP\`Private\`s], MCP\`Private\`rule];
+  SetAttributes[MCP\`Private\`name, MCP\`Private\`attributes];
+];
+Quiet[
+  Scan[
+    Function[MCP\`Private\`name, With[{MCP\`Private\`s = Symbol[MCP\`Private\`name]},
+      MCP\`Private\`addBlock[MCP\`Private\`name,
+        HoldPattern[MCP\`Private\`s[___]] :>
+          MCP\`Private\`sandboxViolation[MCP\`Private\`name] /; MCP\`Private\`sealedQ[]]
+    ]],
+    ${list(deniedOthers)}
+  ];
+  Scan[
+    Function[MCP\`Private\`name, With[{MCP\`Private\`s = Symbol[MCP\`Private\`name]},
+      MCP\`Private\`addBlock[MCP\`Private\`name,
+        HoldPattern[MCP\`Private\`s[Except["stdout" | "stderr"], ___]] :>
+          MCP\`Private\`sandboxViolation[MCP\`Private\`name] /; MCP\`Private\`sealedQ[]]
+    ]],
+    ${list(deniedWriters)}
+  ];
+  Scan[
+    Function[MCP\`Private\`name, With[{MCP\`Private\`s = Symbol[MCP\`Private\`name]},
+      MCP\`Private\`addBlock[MCP\`Private\`name,
+        HoldPattern[MCP\`Private\`s[MCP\`Private\`file_String /; StringStartsQ[MCP\`Private\`file, "!"], ___]] :>
+          MCP\`Private\`sandboxViolation[MCP\`Private\`name] /; MCP\`Private\`sealedQ[]]
+    ]],
+    ${list(pipeSymbols)}
+  ];
+  Scan[
+    Function[MCP\`Private\`name, With[{MCP\`Private\`s = Symbol[MCP\`Private\`name]},
+      MCP\`Private\`addBlock[MCP\`Private\`name,
+        HoldPattern[MCP\`Private\`s[MCP\`Private\`ctx_String /; MCP\`Private\`deniedContextQ[MCP\`Private\`ctx], ___]] :>
+          MCP\`Private\`sandboxViolation[MCP\`Private\`ctx] /; MCP\`Private\`sealedQ[]]
+    ]],
+    ${list(guardedLoaders)}
+  ];
+];
+${pathGuards.code}
+${attributeGuards.code}
+SetAttributes[{MCP\`Private\`sandboxViolation, MCP\`Private\`deniedContextQ, MCP\`Private\`addBlock},
+  {Protected, Locked}];
+Quiet[
+  (* Locked keeps code from unprotecting the symbols and clearing the blocks *)
+  Scan[SetAttributes[#, {Protected, Locked}] &, ${list(blocked)}];
+];
+<|"status" -> "ok"|>
+`;
+}
+
+/**
+ * Build the kernel code that guards the attribute functions.
+ * Unprotect and ClearAttributes are blocked while user code runs when one of
+ * their targets is a protected symbol outside Global`, and SetAttributes when it
+ * sets more than protection on one; otherwise code could redefine a System
+ * function that the driver calls after the user code, with its key in place.
+ * Targets are the symbols and names found anywhere in the held arguments, so
+ * Unprotect[Evaluate[...]] counts as a System` target. Package files loaded with
+ * Get may change attributes, since kernel functions that load on first use do.
+ * Installed after the other guards, whose installation uses these functions.
+ * @returns Install code and the fully qualified symbols it guards
+ */
+function buildAttributeGuardCode(): { code: string; symbols: string[] } {
+  const symbols = ATTRIBUTE_SYMBOLS.map(qualifySymbol);
+
+  const code = `
+SetAttributes[MCP\`Private\`protectedTargetQ, HoldAll];
+MCP\`Private\`protectedTargetQ[MCP\`Private\`targets___] := Quiet[AnyTrue[
+  Join[
+    Cases[Hold[MCP\`Private\`targets],
+      MCP\`Private\`s_Symbol :> Context[Unevaluated[MCP\`Private\`s]] <> SymbolName[Unevaluated[MCP\`Private\`s]],
+      {1, Infinity}],
+    Flatten[Names /@ Cases[Hold[MCP\`Private\`targets], _String, {1, Infinity}]]
+  ],
+  Context[#] =!= "Global\`" && MemberQ[Attributes[#], Protected] &
+]];
+MCP\`Private\`loadingQ[] := MemberQ[Stack[], Get];
+SetAttributes[MCP\`Private\`attributeGuardQ, HoldAll];
+MCP\`Private\`attributeGuardQ[MCP\`Private\`check_] :=
+  MCP\`Private\`sealedQ[] && !MCP\`Private\`loadingQ[] && MCP\`Private\`check;
+Quiet[
+  MCP\`Private\`addBlock["System\`Unprotect",
+    HoldPattern[Unprotect[MCP\`Private\`targets___]] :>
+      MCP\`Private\`sandboxViolation["System\`Unprotect"] /;
+        MCP\`Private\`attributeGuardQ[MCP\`Private\`protectedTargetQ[MCP\`Private\`targets]]];
+  MCP\`Private\`addBlock["System\`ClearAttributes",
+    HoldPattern[ClearAttributes[MCP\`Private\`target_, ___]] :>
+      MCP\`Private\`sandboxViolation["System\`ClearAttributes"] /;
+        MCP\`Private\`attributeGuardQ[MCP\`Private\`protectedTargetQ[MCP\`Private\`target]]];
+  MCP\`Private\`addBlock["System\`SetAttributes",
+    HoldPattern[SetAttributes[MCP\`Private\`target_, MCP\`Private\`attributes_]] :>
+      MCP\`Private\`sandboxViolation["System\`SetAttributes"] /;
+        MCP\`Private\`attributeGuardQ[
+          !SubsetQ[{Protected, ReadProtected, Locked}, Flatten[{MCP\`Private\`attributes}]] &&
+            MCP\`Private\`protectedTargetQ[MCP\`Private\`target]]];
+];
+SetAttributes[{MCP\`Private\`protectedTargetQ, MCP\`Private\`loadingQ, MCP\`Private\`attributeGuardQ},
+  {Protected, Locked}];
+`;
+
+  return { code, symbols };
+}
+
+/**
+ * Wrap an expression so that it runs with the runtime blocks active, i.e.
+ * without the driver's key.
+ * A violation aborts the expression; the wrapper evaluates to $Aborted and
+ * MCP`Private`violation names the blocked symbol. Other aborts are passed on.
+ * @param expression - Code to evaluate under the sandbox
+ */
+export function sandboxExpression(expression: string): string {
+  return `(
+    MCP\`Private\`violation = Null;
+    CheckAbort[
+      Block[{MCP\`Private\`$driverKey = Null}, ${expression}],
+      If[MCP\`Private\`violation === Null, Abort[]]; $Aborted
+    ]
+  )`;
+}
+
+/**
+ * Build the code that finds the first symbol in parsed code that the policy
+ * forbids, or that lies in MCP`Private`. Checking the parsed expressions sees
+ * symbols as the kernel resolved them: through character escapes, $Context and
+ * $ContextPath, none of which a scan of the text can follow.
+ * @param held - Code evaluating to the parsed code, wrapped in Hold
+ * @param policy - Sandbox policy
+ * @returns Code evaluating to the symbol's full name, or Null
+ */
+export function findForbiddenSymbolCode(held: string, policy: SandboxPolicy): string {
+  const list = (values: string[]) => `{${values.map(toWolframString).join(', ')}}`;
+
+  return `With[{MCP\`Private\`denied = ${list(policy.denySymbols)},
+      MCP\`Private\`contexts = ${list([...policy.denyContexts, INTERNAL_CONTEXT])}},
+    SelectFirst[
+      Cases[${held},
+        MCP\`Private\`s_Symbol :> Context[Unevaluated[MCP\`Private\`s]] <> SymbolName[Unevaluated[MCP\`Private\`s]],
+        {0, Infinity}, Heads -> True],
+      MemberQ[MCP\`Private\`denied, #] || StringStartsQ[#, Alternatives @@ MCP\`Private\`contexts] &,
+      Null
+    ]
+  ]`;
+}
+
+/**
+ * Install the runtime blocks of the global policy and workspace roots in a
+ * freshly started kernel
+ * @throws {MathematicaExecutionError} If the blocks could not be installed
+ */
+export async function installSandbox(kernel: WolframKernel): Promise<void> {
+  const policy = getSandboxPolicy();
+
+  if (!runtimeGuardsActive()) {
+    return;
+  }
+
+  const key = crypto.randomUUID();
+  const { data } = await kernel.evaluate(buildSandboxInstallCode(policy, getWorkspaceRoots(), key), {
+    timeoutMs: SANDBOX_INSTALL_TIMEOUT_MS,
+  });
+
+  if (data.status !== 'ok') {
+    throw new MathematicaExecutionError(`Failed to install sandbox policy: ${String(data.error)}`);
+  }
+
+  logger.debug(`[Kernel ${kernel.id}] Sandbox policy "${policy.preset}" installed`);
+}
+
+// Global policy, set during server startup
+let sandboxPolicy: SandboxPolicy = resolveSandboxPolicy('unrestricted');
+
+/**
+ * Set the global sandbox policy from the configuration
+ */
+export function initSandboxPolicy(config: EnvConfig): SandboxPolicy {
+  sandboxPolicy = resolveSandboxPolicy(config.SANDBOX_POLICY, {
+    allowSymbols: config.SANDBOX_ALLOW_SYMBOLS,
+    denySymbols: config.SANDBOX_DENY_SYMBOLS,
+    allowContexts: config.SANDBOX_ALLOW_CONTEXTS,
+    denyContexts: config.SANDBOX_DENY_CONTEXTS,
+  });
+
+  logger.info(
+    `Sandbox policy: ${sandboxPolicy.preset} ` +
+    `(${sandboxPolicy.denySymbols.length} symbols, ${sandboxPolicy.denyContexts.length} contexts denied)`
+  );
+
+  return sandboxPolicy;
+}
+
+/**
+ * Get the global sandbox policy
+ */
+export function getSandboxPolicy(): SandboxPolicy {
+  return sandboxPolicy;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, test } from 'bun:test';
+import type { ExecutionPriority } from '../config/schema.ts';
+import { ExecutionScheduler } from './scheduler.ts';
+
+/**
+ * A promise that settles when the test says so
+ */
+function gate(): { promise: Promise<void>; open: () => void } {
+  let open!: () => void;
+  const promise = new Promise<void>(resolve => {
+    open = resolve;
+  });
+  return { promise, open };
+}
+
+/**
+ * Occupy the scheduler's only pool slot, queue the given calls behind it, then
+ * free the slot and collect the order in which the calls started
+ */
+async function startOrder(calls: Array<{ clientId: string; priority: ExecutionPriority; label: string }>) {
+  const scheduler = new ExecutionScheduler({ maxConcurrent: 4, poolSize: 1, maxQueueSize: 10, queueTimeout: 0 });
+  const blocker = gate();
+  const order: string[] = [];
+
+  const first = scheduler.run(() => blocker.promise, { clientId: 'blocker', priority: 'normal' });
+  const queued = calls.map(call =>
+    scheduler.run(async () => {
+      order.push(call.label);
+    }, call)
+  );
+
+  blocker.open();
+  await first;
+  const results = await Promise.all(queued);
+
+  return { order, positions: results.map(result => result.queue.position) };
+}
+
+describe('ExecutionScheduler', () => {
+  test('starts no more calls at once than there are pool kernels', async () => {
+    const scheduler = new ExecutionScheduler({ maxConcurrent: 4, poolSize: 2, maxQueueSize: 10, queueTimeout: 0 });
+    const blocker = gate();
+    let active = 0;
+    let peak = 0;
+
+    const calls = Array.from({ length: 5 }, () =>
+      scheduler.run(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await blocker.promise;
+        active--;
+      }, { clientId: 'a', priority: 'normal' })
+    );
+
+    expect(scheduler.getStats().running).toBe(2);
+    expect(scheduler.getStats().queued).toBe(3);
+
+    blocker.open();
+    await Promise.all(calls);
+
+    expect(peak).toBe(2);
+  });
+
+  test('starts queued calls by priority class', async () => {
+    const { order, positions } = await startOrder([
+      { clientId: 'a', priority: 'low', label: 'low' },
+      { clientId: 'a', priority: 'normal', label: 'normal' },
+      { clientId: 'a', priority: 'high', label: 'high' },
+    ]);
+
+    expect(order).toEqual(['high', 'normal', 'low']);
+    // Positions are reported when a call is queued, before later calls overtake it
+    expect(positions).toEqual([1, 1, 1]);
+  });
+
+  test('takes turns between clients within a priority class', async () => {
+    const { order, positions } = await startOrder([
+      { clientId: 'a', priority: 'normal', label: 'a1' },
+      { clientId: 'a', priority: 'normal', label: 'a2' },
+      { clientId: 'a', priority: 'normal', label: 'a3' },
+      { clientId: 'b', priority: 'normal', label: 'b1' },
+    ]);
+
+    expect(order).toEqual(['a1', 'b1', 'a2', 'a3']);
+    expect(positions).toEqual([1, 2, 3, 2]);
+  });
+
+  test('holds a slot for a session only while one is free', async () => {
+    const scheduler = new ExecutionScheduler({ maxConcurrent: 3, maxQueueSize: 10, queueTimeout: 0 });
+    const blocker = gate();
+
+    const calls = [1, 2].map(() => scheduler.run(() => blocker.promise, { clientId: 'a', priority: 'normal' }));
+    const release = scheduler.reserve();
+
+    expect(() => scheduler.reserve()).toThrow('all 3 evaluation slots are in use');
+
+    blocker.open();
+    await Promise.all(calls);
+
+    const second = scheduler.reserve();
+    // One slot stays free for queued calls
+    expect(() => scheduler.reserve()).toThrow('held by sessions');
+
+    release();
+    second();
+    expect(scheduler.getStats().reserved).toBe(0);
+  });
+
+  test('rejects calls beyond the queue bound', async () => {
+    const scheduler = new ExecutionScheduler({ maxConcurrent: 4, poolSize: 1, maxQueueSize: 1, queueTimeout: 0 });
+    const blocker = gate();
+
+    const running = scheduler.run(() => blocker.promise, { clientId: 'a', priority: 'normal' });
+    const queued = scheduler.run(async () => undefined, { clientId: 'a', priority: 'normal' });
+
+    await expect(scheduler.run(async () => undefined, { clientId: 'b', priority: 'high' }))
+      .rejects.toThrow('Server busy');
+
+    blocker.open();
+    await Promise.all([running, queued]);
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Execution scheduler.
+ * Limits how many evaluations run at once and queues the rest in a bounded queue,
+ * ordered by priority class and round-robin across clients within a class.
+ */
+
+import type { ExecutionPriority, QueueInfo } from '../config/schema.ts';
+import {
+  MathematicaExecutionError,
+  QueueTimeoutError,
+  ServerBusyError,
+} from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { cancelledErrorFromSignal } from './kernel.ts';
+
+/**
+ * Priority classes, highest first
+ */
+const PRIORITIES: readonly ExecutionPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Scheduler configuration
+ */
+export interface SchedulerOptions {
+  /** Evaluations allowed to run at the same time */
+  maxConcurrent: number;
+  /**
+   * Kernels in the pool. Queued calls run on pool kernels, so no more of them
+   * are started than there are kernels; the rest wait here, in order.
+   * Defaults to maxConcurrent.
+   */
+  poolSize?: number;
+  /** Calls allowed to wait for a slot (0 = reject when all slots are busy) */
+  maxQueueSize: number;
+  /** Seconds a call may wait for a slot (0 = wait indefinitely) */
+  queueTimeout: number;
+}
+
+/**
+ * Options for a single scheduled call
+ */
+export interface ScheduleOptions {
+  /** Client the call belongs to, used for fair ordering */
+  clientId: string;
+  priority: ExecutionPriority;
+  /** Aborting it while queued removes the call from the queue */
+  signal?: AbortSignal;
+  /** Run at once in a slot the caller already holds (see reserve()) */
+  reserved?: boolean;
+}
+
+/**
+ * Value returned by the scheduled function plus its queue statistics
+ */
+export interface ScheduledResult<T> {
+  value: T;
+  queue: QueueInfo;
+}
+
+/**
+ * Snapshot of scheduler activity, reported by /health
+ */
+export interface SchedulerStats {
+  maxConcurrent: number;
+  /** Queued calls allowed to run at once, at most one per pool kernel */
+  maxPooled: number;
+  maxQueueSize: number;
+  running: number;
+  /** Slots held by session kernels */
+  reserved: number;
+  queued: number;
+  queuedByPriority: Record<ExecutionPriority, number>;
+  completed: number;
+  rejected: number;
+  timedOut: number;
+  cancelled: number;
+}
+
+interface QueuedCall {
+  clientId: string;
+  priority: ExecutionPriority;
+  start: () => void;
+}
+
+/**
+ * Concurrency limiter with a fair, bounded wait queue
+ */
+export class ExecutionScheduler {
+  private readonly options: SchedulerOptions;
+  // Per priority class: client -> pending calls. Map order is the round-robin order.
+  private readonly queues: Record<ExecutionPriority, Map<string, QueuedCall[]>> = {
+    high: new Map(),
+    normal: new Map(),
+    low: new Map(),
+  };
+  private running = 0;
+  private reserved = 0;
+  private queued = 0;
+  private closed = false;
+  private completed = 0;
+  private rejected = 0;
+  private timedOut = 0;
+  private cancelled = 0;
+
+  constructor(options: SchedulerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Run a function once a slot is free
+   * @throws {ServerBusyError} If the queue is full
+   * @throws {QueueTimeoutError} If no slot frees up within the queue timeout
+   * @throws {MathematicaCancelledError} If the signal is aborted while queued
+   */
+  public async run<T>(
+    fn: () => Promise<T>,
+    options: ScheduleOptions
+  ): Promise<ScheduledResult<T>> {
+    if (this.closed) {
+      throw new MathematicaExecutionError('Execution scheduler is shut down');
+    }
+
+    if (options.signal?.aborted) {
+      throw cancelledErrorFromSignal(options.signal);
+    }
+
+    const enqueuedAt = Date.now();
+    let queue: QueueInfo = { position: 0, depth: this.queued, waitTime: 0 };
+
+    if (options.reserved) {
+      try {
+        return { value: await fn(), queue };
+      } finally {
+        this.completed++;
+      }
+    }
+
+    if (this.running < this.capacity && this.queued === 0) {
+      this.running++;
+    } else {
+      // drain() takes the slot on our behalf before it resolves
+      queue = await this.enqueue(options, enqueuedAt);
+    }
+
+    try {
+      return { value: await fn(), queue };
+    } finally {
+      this.running--;
+      this.completed++;
+      this.drain();
+    }
+  }
+
+  /**
+   * Hold a slot until the returned function is called, for a kernel that runs
+   * evaluations outside the queue (a session kernel). Only a free slot can be
+   * held, and one slot is always left for queued calls.
+   * @returns Function releasing the slot
+   * @throws {ServerBusyError} If no slot can be held
+   */
+  public reserve(): () => void {
+    if (this.closed) {
+      throw new MathematicaExecutionError('Execution scheduler is shut down');
+    }
+
+    if (this.reserved + 1 >= this.options.maxConcurrent) {
+      throw new ServerBusyError(
+        this.queued,
+        this.options.maxQueueSize,
+        `Server busy: ${this.reserved} of ${this.options.maxConcurrent} evaluation slots are held by sessions. Close a session or retry later.`
+      );
+    }
+
+    if (this.running + this.reserved + 1 > this.options.maxConcurrent) {
+      throw new ServerBusyError(
+        this.queued,
+        this.options.maxQueueSize,
+        `Server busy: all ${this.options.maxConcurrent} evaluation slots are in use. Retry later.`
+      );
+    }
+
+    this.reserved++;
+    let released = false;
+
+    return () => {
+      if (!released) {
+        released = true;
+        this.reserved--;
+        this.drain();
+      }
+    };
+  }
+
+  /**
+   * Current scheduler statistics
+   */
+  public getStats(): SchedulerStats {
+    const queuedByPriority = {} as Record<ExecutionPriority, number>;
+
+    for (const priority of PRIORITIES) {
+      let count = 0;
+      for (const calls of this.queues[priority].values()) {
+        count += calls.length;
+      }
+      queuedByPriority[priority] = count;
+    }
+
+    return {
+      maxConcurrent: this.options.maxConcurrent,
+      maxPooled: this.options.poolSize ?? this.options.maxConcurrent,
+      maxQueueSize: this.options.maxQueueSize,
+      running: this.running,
+      reserved: this.reserved,
+      queued: this.queued,
+      queuedByPriority,
+      completed: this.completed,
+      rejected: this.rejected,
+      timedOut: this.timedOut,
+      cancelled: this.cancelled,
+    };
+  }
+
+  /**
+   * Reject all queued calls; running calls are left to finish
+   */
+  public shutdown(): void {
+    this.closed = true;
+
+    for (const priority of PRIORITIES) {
+      for (const calls of this.queues[priority].values()) {
+        for (const call of calls) {
+          call.start();
+        }
+      }
+      this.queues[priority].clear();
+    }
+
+    this.queued = 0;
+  }
+
+  /**
+   * Slots available to queued calls: those not held by sessions, but no more
+   * than there are pool kernels
+   */
+  private get capacity(): number {
+    return Math.min(
+      this.options.maxConcurrent - this.reserved,
+      this.options.poolSize ?? this.options.maxConcurrent
+    );
+  }
+
+  /**
+   * Wait in the queue until drain() hands this call a slot
+   */
+  private enqueue(options: ScheduleOptions, enqueuedAt: number): Promise<QueueInfo> {
+    const { clientId, priority, signal } = options;
+
+    if (this.queued >= this.options.maxQueueSize) {
+      this.rejected++;
+      logger.warn(`Execution queue full (${this.queued}/${this.options.maxQueueSize}), rejecting call from ${clientId}`);
+      throw new ServerBusyError(this.queued, this.options.maxQueueSize);
+    }
+
+    return new Promise<QueueInfo>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const cleanup = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const call: QueuedCall = {
+        clientId,
+        priority,
+        start: () => {
+          cleanup();
+          if (this.closed) {
+            reject(new MathematicaExecutionError('Execution scheduler is shutting down'));
+            return;
+          }
+          resolve({ position, depth, waitTime: Date.now() - enqueuedAt });
+        },
+      };
+
+      const onAbort = () => {
+        if (this.remove(call)) {
+          cleanup();
+          this.cancelled++;
+          reject(cancelledErrorFromSignal(signal!));
+        }
+      };
+
+      const clientCalls = this.queues[priority].get(clientId);
+      if (clientCalls) {
+        clientCalls.push(call);
+      } else {
+        this.queues[priority].set(clientId, [call]);
+      }
+      this.queued++;
+
+      const position = this.positionOf(call);
+      const depth = this.queued;
+
+      logger.debug(`Queued call from ${clientId} (${priority}) at position ${position} of ${depth}`);
+
+      if (this.options.queueTimeout > 0) {
+        timer = setTimeout(() => {
+          if (this.remove(call)) {
+            cleanup();
+            this.timedOut++;
+            const waitTime = Date.now() - enqueuedAt;
+            logger.warn(`Call from ${clientId} timed out after ${waitTime}ms in the execution queue`);
+            reject(new QueueTimeoutError(waitTime, this.queued, this.options.maxQueueSize));
+          }
+        }, this.options.queueTimeout * 1000);
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Start queued calls while slots are free
+   */
+  private drain(): void {
+    while (this.running < this.capacity) {
+      const call = this.next();
+      if (!call) {
+        return;
+      }
+      // Take the slot now; the caller only resumes after this loop has finished
+      this.running++;
+      call.start();
+    }
+  }
+
+  /**
+   * Take the next call: highest priority class first, then the client whose
+   * turn it is, then that client's oldest call
+   */
+  private next(): QueuedCall | undefined {
+    for (const priority of PRIORITIES) {
+      const queue = this.queues[priority];
+
+      for (const [clientId, calls] of queue) {
+        const call = calls.shift()!;
+        queue.delete(clientId);
+
+        // Move the client to the back of the rotation
+        if (calls.length > 0) {
+          queue.set(clientId, calls);
+        }
+
+        this.queued--;
+        return call;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 1-based position at which a queued call would start, given the current queue
+   */
+  private positionOf(target: QueuedCall): number {
+    let position = 0;
+
+    for (const priority of PRIORITIES) {
+      const clients = [...this.queues[priority].values()];
+      const rounds = Math.max(0, ...clients.map(calls => calls.length));
+
+      for (let round = 0; round < rounds; round++) {
+        for (const calls of clients) {
+          const call = calls[round];
+          if (call) {
+            position++;
+            if (call === target) {
+              return position;
+            }
+          }
+        }
+      }
+    }
+
+    return position;
+  }
+
+  /**
+   * Remove a call that is still waiting
+   * @returns Whether the call was found in the queue
+   */
+  private remove(call: QueuedCall): boolean {
+    const queue = this.queues[call.priority];
+    const calls = queue.get(call.clientId);
+    const index = calls ? calls.indexOf(call) : -1;
+
+    if (!calls || index === -1) {
+      return false;
+    }
+
+    calls.splice(index, 1);
+    if (calls.length === 0) {
+      queue.delete(call.clientId);
+    }
+    this.queued--;
+
+    return true;
+  }
+}
+
+// Global scheduler instance, created during server startup
+let scheduler: ExecutionScheduler | null = null;
+
+/**
+ * Create the global execution scheduler (replacing any previous one)
+ */
+export function initScheduler(options: SchedulerOptions): ExecutionScheduler {
+  scheduler = new ExecutionScheduler(options);
+  return scheduler;
+}
+
+/**
+ * Get the global execution scheduler
+ * @throws {MathematicaExecutionError} If the scheduler has not been initialized
+ */
+export function getScheduler(): ExecutionScheduler {
+  if (!scheduler) {
+    throw new MathematicaExecutionError('Execution scheduler has not been initialized');
+  }
+  return scheduler;
+}
+
+/**
+ * Get statistics of the global scheduler, or null if it is not running
+ */
+export function getSchedulerStats(): SchedulerStats | null {
+  return scheduler ? scheduler.getStats() : null;
+}
+
+/**
+ * Reject queued calls and drop the global scheduler
+ */
+export function shutdownScheduler(): void {
+  if (scheduler) {
+    scheduler.shutdown();
+    scheduler = null;
+  }
+}
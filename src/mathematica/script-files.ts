@@ -0,0 +1,60 @@
+/**
+ * Script files.
+ * Loads .m, .wl and .wls files from the workspace, so that they can be
+ * evaluated like submitted code, with the command line and standard input
+ * that wolframscript -file would give them.
+ */
+
+import { readFileSync, statSync } from 'node:fs';
+import { extname } from 'node:path';
+import { getErrorMessage, MathematicaExecutionError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { resolveWorkspacePath } from './workspace.ts';
+
+/**
+ * Extensions of the files that can be run as scripts
+ */
+export const SCRIPT_EXTENSIONS = ['.m', '.wl', '.wls'];
+
+/**
+ * Script file read from the workspace
+ */
+export interface ScriptFile {
+  /** Real path of the file */
+  path: string;
+  /** Code of the file, without its #! line */
+  code: string;
+}
+
+/**
+ * Read a script file from the workspace
+ * @param file - Path of the file; relative paths resolve against the default root
+ * @returns The real path and the code of the file
+ * @throws {PathNotAllowedError} If the file is outside the workspace roots
+ * @throws {MathematicaExecutionError} If the file does not exist, is no script file or cannot be read
+ */
+export function loadScriptFile(file: string): ScriptFile {
+  const path = resolveWorkspacePath(file);
+
+  if (!SCRIPT_EXTENSIONS.includes(extname(path).toLowerCase())) {
+    throw new MathematicaExecutionError(`Not a script file: ${file} (expected ${SCRIPT_EXTENSIONS.join(', ')})`);
+  }
+
+  let text: string;
+
+  try {
+    if (!statSync(path).isFile()) {
+      throw new Error('not a regular file');
+    }
+    text = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new MathematicaExecutionError(`Failed to read script file ${file}: ${getErrorMessage(error)}`);
+  }
+
+  // The kernel cannot parse the #! line of .wls files; blanking it keeps the line numbers
+  const code = text.replace(/^\uFEFF/, '').replace(/^#![^\n]*/, '');
+
+  logger.debug(`Loaded script file ${path} (${code.length} characters)`);
+
+  return { path, code };
+}
@@ -0,0 +1,398 @@
+/**
+ * Stateful evaluation sessions.
+ * Each session owns a dedicated kernel that keeps definitions, Out[n] history
+ * and loaded packages across tool calls, in its own context.
+ */
+
+import {
+  MathematicaExecutionError,
+  SessionLimitError,
+  SessionNotFoundError,
+} from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { startFrontEnd } from './graphics.ts';
+import { WolframKernel, cancelledErrorFromSignal } from './kernel.ts';
+import type { KernelProcessLimits } from './resource-limits.ts';
+import { installSandbox } from './sandbox.ts';
+import { getScheduler } from './scheduler.ts';
+import { toWolframString } from './wolfram-code.ts';
+
+/**
+ * Time allowed for a session kernel to start
+ */
+const SESSION_STARTUP_TIMEOUT_MS = 120_000;
+
+/**
+ * Time allowed for switching a session kernel into its own context
+ */
+const SESSION_INIT_TIMEOUT_MS = 30_000;
+
+/**
+ * Session manager configuration
+ */
+export interface SessionManagerOptions {
+  /** Path to the wolframscript executable */
+  wolframPath: string;
+  /** Seconds a session may stay unused before it is closed */
+  idleTtl: number;
+  /** Maximum number of open sessions per client */
+  maxPerClient: number;
+  /** Maximum number of open sessions across all clients */
+  maxTotal: number;
+  /** OS-level limits applied to each session kernel process */
+  processLimits?: KernelProcessLimits;
+}
+
+/**
+ * Public description of a session
+ */
+export interface SessionInfo {
+  id: string;
+  name?: string;
+  context: string;
+  evaluations: number;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+interface Session {
+  id: string;
+  name?: string;
+  clientId: string;
+  context: string;
+  kernel: WolframKernel;
+  /** Releases the scheduler slot the session's kernel holds */
+  releaseSlot: () => void;
+  evaluations: number;
+  createdAt: number;
+  lastUsedAt: number;
+  /** Tail of the per-session queue; evaluations run one at a time */
+  queue: Promise<unknown>;
+}
+
+/**
+ * Owns session kernels, enforces limits and expires idle sessions
+ */
+export class SessionManager {
+  private readonly options: SessionManagerOptions;
+  private readonly sessions = new Map<string, Session>();
+  /** Sessions per client whose kernels are still starting */
+  private readonly creating = new Map<string, number>();
+  private readonly reapTimer: ReturnType<typeof setInterval>;
+
+  constructor(options: SessionManagerOptions) {
+    this.options = options;
+
+    const intervalMs = Math.min(options.idleTtl, 60) * 1000;
+    this.reapTimer = setInterval(() => this.reapExpiredSessions(), intervalMs);
+    this.reapTimer.unref?.();
+  }
+
+  /**
+   * Create a session with a freshly started kernel.
+   * The kernel holds one of the scheduler's slots until the session is closed.
+   * @throws {SessionLimitError} If the client or the server already has the maximum number of sessions
+   * @throws {ServerBusyError} If the scheduler has no slot left for another session
+   */
+  public async create(clientId: string, name?: string): Promise<SessionInfo> {
+    const pending = this.creating.get(clientId) ?? 0;
+    const owned = [...this.sessions.values()].filter(s => s.clientId === clientId).length;
+
+    if (owned + pending >= this.options.maxPerClient) {
+      throw new SessionLimitError(this.options.maxPerClient);
+    }
+
+    let pendingTotal = 0;
+    for (const count of this.creating.values()) {
+      pendingTotal += count;
+    }
+
+    if (this.sessions.size + pendingTotal >= this.options.maxTotal) {
+      throw new SessionLimitError(this.options.maxTotal, 'server');
+    }
+
+    const releaseSlot = getScheduler().reserve();
+    this.creating.set(clientId, pending + 1);
+
+    try {
+      return await this.startSession(clientId, name, releaseSlot);
+    } catch (error) {
+      releaseSlot();
+      throw error;
+    } finally {
+      const remaining = (this.creating.get(clientId) ?? 1) - 1;
+      if (remaining > 0) {
+        this.creating.set(clientId, remaining);
+      } else {
+        this.creating.delete(clientId);
+      }
+    }
+  }
+
+  /**
+   * Start a session kernel and switch it into the session's own context
+   */
+  private async startSession(
+    clientId: string,
+    name: string | undefined,
+    releaseSlot: () => void
+  ): Promise<SessionInfo> {
+    const id = crypto.randomUUID();
+    const context = `MCPSession${id.replace(/-/g, '').slice(0, 12)}\``;
+
+    logger.info(`[Session ${id}] Creating session (client: ${clientId})`);
+
+    const kernel = new WolframKernel(this.options.wolframPath, this.options.processLimits);
+    await kernel.start(SESSION_STARTUP_TIMEOUT_MS);
+
+    const init = await kernel.evaluate(
+      `$Context = ${toWolframString(context)}; ` +
+      `$ContextPath = {${toWolframString(context)}, "MCP\`", "System\`"}; ` +
+      `<|"status" -> "ok"|>`,
+      { timeoutMs: SESSION_INIT_TIMEOUT_MS }
+    ).catch(error => {
+      kernel.kill();
+      throw error;
+    });
+
+    if (init.data.status !== 'ok') {
+      kernel.kill();
+      throw new MathematicaExecutionError(`Failed to initialize session context: ${String(init.data.error)}`);
+    }
+
+    await startFrontEnd(kernel);
+
+    await installSandbox(kernel).catch(error => {
+      kernel.kill();
+      throw error;
+    });
+
+    const now = Date.now();
+    const session: Session = {
+      id,
+      name,
+      clientId,
+      context,
+      kernel,
+      releaseSlot,
+      evaluations: 0,
+      createdAt: now,
+      lastUsedAt: now,
+      queue: Promise.resolve(),
+    };
+
+    kernel.onExit = (_kernel, exitCode) => {
+      if (this.remove(session)) {
+        logger.warn(`[Session ${id}] Kernel exited (exit code ${exitCode}), session closed`);
+      }
+    };
+
+    this.sessions.set(id, session);
+
+    return this.describe(session);
+  }
+
+  /**
+   * Describe a session owned by a client
+   * @throws {SessionNotFoundError} If the session does not exist or is not owned by the client
+   */
+  public get(sessionId: string, clientId: string): SessionInfo {
+    return this.describe(this.lookup(sessionId, clientId));
+  }
+
+  /**
+   * List all sessions owned by a client
+   */
+  public list(clientId: string): SessionInfo[] {
+    return [...this.sessions.values()]
+      .filter(session => session.clientId === clientId)
+      .map(session => this.describe(session));
+  }
+
+  /**
+   * Close a session and stop its kernel
+   * @throws {SessionNotFoundError} If the session does not exist or is not owned by the client
+   */
+  public async close(sessionId: string, clientId: string): Promise<SessionInfo> {
+    const session = this.lookup(sessionId, clientId);
+    const info = this.describe(session);
+
+    this.remove(session);
+    logger.info(`[Session ${session.id}] Closed`);
+
+    await session.kernel.stop();
+
+    return info;
+  }
+
+  /**
+   * Run a function on a session's kernel.
+   * Calls to the same session are queued and run one at a time.
+   * @param signal - Aborting it while queued cancels the call
+   * @throws {SessionNotFoundError} If the session does not exist or is not owned by the client
+   */
+  public async withSession<T>(
+    sessionId: string,
+    clientId: string,
+    fn: (kernel: WolframKernel) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const session = this.lookup(sessionId, clientId);
+
+    const run = session.queue.then(async () => {
+      if (signal?.aborted) {
+        throw cancelledErrorFromSignal(signal);
+      }
+
+      if (!this.sessions.has(session.id)) {
+        throw new SessionNotFoundError(session.id);
+      }
+
+      session.evaluations++;
+      session.lastUsedAt = Date.now();
+
+      try {
+        await this.resetContext(session);
+        return await fn(session.kernel);
+      } finally {
+        session.lastUsedAt = Date.now();
+      }
+    });
+
+    session.queue = run.catch(() => undefined);
+
+    return await run;
+  }
+
+  /**
+   * Switch a session kernel back into the session's context before a call, so
+   * that code cannot carry Begin or $ContextPath changes over into the next one.
+   * Packages the session loaded stay on $ContextPath; driver contexts other than
+   * MCP` are removed.
+   * @throws {MathematicaExecutionError} If the context could not be restored
+   */
+  private async resetContext(session: Session): Promise<void> {
+    const context = toWolframString(session.context);
+
+    const { data } = await session.kernel.evaluate(
+      `$Context = ${context}; ` +
+      `$ContextPath = DeleteDuplicates[Join[{${context}}, ` +
+      `DeleteCases[$ContextPath, _String?(StringStartsQ["MCP\`"])], {"MCP\`", "System\`"}]]; ` +
+      `If[$Context === ${context}, <|"status" -> "ok"|>, <|"status" -> "error", "error" -> "$Context is protected"|>]`,
+      { timeoutMs: SESSION_INIT_TIMEOUT_MS }
+    );
+
+    if (data.status !== 'ok') {
+      throw new MathematicaExecutionError(`Failed to restore session context: ${String(data.error)}`);
+    }
+  }
+
+  /**
+   * Number of open sessions across all clients
+   */
+  public get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close every session
+   */
+  public async shutdown(): Promise<void> {
+    clearInterval(this.reapTimer);
+
+    const sessions = [...this.sessions.values()];
+    sessions.forEach(session => this.remove(session));
+
+    await Promise.all(sessions.map(session => session.kernel.stop()));
+
+    if (sessions.length > 0) {
+      logger.info(`Closed ${sessions.length} session(s)`);
+    }
+  }
+
+  /**
+   * Drop a session and give its scheduler slot back
+   * @returns Whether the session was still open
+   */
+  private remove(session: Session): boolean {
+    if (!this.sessions.delete(session.id)) {
+      return false;
+    }
+
+    session.releaseSlot();
+    return true;
+  }
+
+  private lookup(sessionId: string, clientId: string): Session {
+    const session = this.sessions.get(sessionId);
+
+    if (!session || session.clientId !== clientId) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    return session;
+  }
+
+  private describe(session: Session): SessionInfo {
+    return {
+      id: session.id,
+      name: session.name,
+      context: session.context,
+      evaluations: session.evaluations,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastUsedAt: new Date(session.lastUsedAt).toISOString(),
+      expiresAt: new Date(session.lastUsedAt + this.options.idleTtl * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Close sessions that have been idle longer than the TTL
+   */
+  private reapExpiredSessions(): void {
+    const cutoff = Date.now() - this.options.idleTtl * 1000;
+
+    for (const session of [...this.sessions.values()]) {
+      if (session.lastUsedAt < cutoff && !session.kernel.busy) {
+        logger.info(`[Session ${session.id}] Expired after ${this.options.idleTtl}s idle`);
+        this.remove(session);
+        session.kernel.stop().catch(error => {
+          logger.error(`[Session ${session.id}] Failed to stop kernel:`, error);
+        });
+      }
+    }
+  }
+}
+
+// Global session manager, created during server startup
+let sessionManager: SessionManager | null = null;
+
+/**
+ * Create the global session manager
+ */
+export function initSessionManager(options: SessionManagerOptions): SessionManager {
+  sessionManager = new SessionManager(options);
+  return sessionManager;
+}
+
+/**
+ * Get the global session manager
+ * @throws {MathematicaExecutionError} If sessions have not been initialized
+ */
+export function getSessionManager(): SessionManager {
+  if (!sessionManager) {
+    throw new MathematicaExecutionError('Session manager has not been initialized');
+  }
+  return sessionManager;
+}
+
+/**
+ * Close all sessions and drop the global session manager
+ */
+export async function shutdownSessionManager(): Promise<void> {
+  if (sessionManager) {
+    const manager = sessionManager;
+    sessionManager = null;
+    await manager.shutdown();
+  }
+}
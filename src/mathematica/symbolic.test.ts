@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  ComputeLimitInputSchema,
+  DifferentiateInputSchema,
+  DsolveInputSchema,
+  IntegrateInputSchema,
+  SeriesExpandInputSchema,
+  SimplifyInputSchema,
+  SolveEquationsInputSchema,
+} from '../config/schema.ts';
+import { InvalidExpressionError } from '../utils/errors.ts';
+import {
+  buildDifferentiateCode,
+  buildDsolveCode,
+  buildIntegrateCode,
+  buildLimitCode,
+  buildSeriesCode,
+  buildSimplifyCode,
+  buildSolveCode,
+} from './symbolic.ts';
+
+describe('symbolic code builders', () => {
+  test('solve_equations adds assumptions as conditions', () => {
+    expect(buildSolveCode(SolveEquationsInputSchema.parse({
+      equations: ['x^2 == 4'],
+      variables: ['x'],
+      domain: 'reals',
+      assumptions: 'x > 0',
+    }))).toBe('Solve[{(x^2 == 4), (x > 0)}, {x}, Reals]');
+    expect(buildSolveCode(SolveEquationsInputSchema.parse({
+      equations: ['x^5 == x + 1'],
+      variables: ['x'],
+      numeric: true,
+    }))).toBe('NSolve[{(x^5 == x + 1)}, {x}]');
+  });
+
+  test('integrate builds definite and numeric integrals', () => {
+    expect(buildIntegrateCode(IntegrateInputSchema.parse({ expression: 'Sin[x]', variable: 'x' })))
+      .toBe('Integrate[(Sin[x]), x]');
+    expect(buildIntegrateCode(IntegrateInputSchema.parse({
+      expression: 'Exp[-a x]',
+      variable: 'x',
+      lower: '0',
+      upper: 'Infinity',
+      assumptions: 'a > 0',
+    }))).toBe('Integrate[(Exp[-a x]), {x, (0), (Infinity)}, Assumptions -> (a > 0)]');
+    expect(buildIntegrateCode(IntegrateInputSchema.parse({
+      expression: 'Sin[x^2]',
+      variable: 'x',
+      lower: '0',
+      upper: '1',
+      numeric: true,
+    }))).toBe('NIntegrate[(Sin[x^2]), {x, (0), (1)}]');
+  });
+
+  test('differentiate simplifies only under assumptions', () => {
+    expect(buildDifferentiateCode(DifferentiateInputSchema.parse({ expression: 'x^3', variable: 'x', order: 2 })))
+      .toBe('D[(x^3), {x, 2}]');
+    expect(buildDifferentiateCode(DifferentiateInputSchema.parse({
+      expression: 'Sqrt[x^2]',
+      variable: 'x',
+      assumptions: 'x > 0',
+    }))).toBe('Simplify[D[(Sqrt[x^2]), {x, 1}], Assumptions -> (x > 0)]');
+  });
+
+  test('simplify picks FullSimplify when full', () => {
+    expect(buildSimplifyCode(SimplifyInputSchema.parse({ expression: 'Sin[x]^2 + Cos[x]^2' })))
+      .toBe('Simplify[(Sin[x]^2 + Cos[x]^2)]');
+    expect(buildSimplifyCode(SimplifyInputSchema.parse({ expression: 'Gamma[n + 1]/n!', full: true })))
+      .toBe('FullSimplify[(Gamma[n + 1]/n!)]');
+  });
+
+  test('series_expand drops the remainder when normal', () => {
+    expect(buildSeriesCode(SeriesExpandInputSchema.parse({ expression: 'Exp[x]', variable: 'x' })))
+      .toBe('Series[(Exp[x]), {x, (0), 5}]');
+    expect(buildSeriesCode(SeriesExpandInputSchema.parse({
+      expression: 'Log[x]',
+      variable: 'x',
+      point: '1',
+      order: 3,
+      normal: true,
+    }))).toBe('Normal[Series[(Log[x]), {x, (1), 3}]]');
+  });
+
+  test('compute_limit adds a direction for one-sided limits', () => {
+    expect(buildLimitCode(ComputeLimitInputSchema.parse({ expression: 'Sin[x]/x', variable: 'x', point: '0' })))
+      .toBe('Limit[(Sin[x]/x), x -> (0)]');
+    expect(buildLimitCode(ComputeLimitInputSchema.parse({
+      expression: '1/x',
+      variable: 'x',
+      point: '0',
+      direction: 'from_above',
+    }))).toBe('Limit[(1/x), x -> (0), Direction -> "FromAbove"]');
+  });
+
+  test('dsolve applies the functions to the variable', () => {
+    expect(buildDsolveCode(DsolveInputSchema.parse({
+      equations: ["y'[x] == y[x]", 'y[0] == 1'],
+      functions: ['y'],
+      variable: 'x',
+    }))).toBe("DSolve[{(y'[x] == y[x]), (y[0] == 1)}, {y[x]}, x]");
+  });
+});
+
+describe('embedded expressions', () => {
+  test('stay one argument whatever they contain', () => {
+    expect(buildSimplifyCode(SimplifyInputSchema.parse({ expression: 'x, Assumptions -> x < 0' })))
+      .toBe('Simplify[(x, Assumptions -> x < 0)]');
+    expect(buildLimitCode(ComputeLimitInputSchema.parse({ expression: 'f[x]', variable: 'x', point: 'a; Quit[]' })))
+      .toBe('Limit[(f[x]), x -> (a; Quit[])]');
+  });
+
+  test('are rejected with unbalanced delimiters, naming the argument', () => {
+    const unbalanced = () => buildSimplifyCode(SimplifyInputSchema.parse({ expression: 'x]; Run["ls"]; (x' }));
+
+    expect(unbalanced).toThrow(InvalidExpressionError);
+    expect(unbalanced).toThrow('Invalid expression in expression');
+    expect(() => buildDsolveCode(DsolveInputSchema.parse({
+      equations: ['y[x] == 1', 'y[0] == "1'],
+      functions: ['y'],
+      variable: 'x',
+    }))).toThrow('Invalid expression in equations[1]');
+    expect(() => buildIntegrateCode(IntegrateInputSchema.parse({ expression: 'x (* open', variable: 'x' })))
+      .toThrow(InvalidExpressionError);
+  });
+});
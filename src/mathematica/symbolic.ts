@@ -0,0 +1,151 @@
+/**
+ * Code builders for the symbolic tools.
+ * Variables are validated symbol names and options come from fixed lists. Each
+ * expression must have balanced delimiters and is wrapped in parentheses, so it
+ * stays one argument of the generated call whatever it contains.
+ */
+
+import type {
+  ComputeLimitInput,
+  DifferentiateInput,
+  DsolveInput,
+  IntegrateInput,
+  LimitDirection,
+  SeriesExpandInput,
+  SimplifyInput,
+  SolveDomain,
+  SolveEquationsInput,
+} from '../config/schema.ts';
+import { InvalidExpressionError } from '../utils/errors.ts';
+import { findUnbalancedDelimiter, toWolframString } from './wolfram-code.ts';
+
+/**
+ * Wolfram Language domain of each solve domain
+ */
+const SOLVE_DOMAINS: Record<SolveDomain, string> = {
+  complexes: 'Complexes',
+  reals: 'Reals',
+  integers: 'Integers',
+  rationals: 'Rationals',
+  algebraics: 'Algebraics',
+  primes: 'Primes',
+  booleans: 'Booleans',
+};
+
+/**
+ * Direction option of each limit direction (two-sided is the default)
+ */
+const LIMIT_DIRECTIONS: Record<LimitDirection, string | null> = {
+  both: null,
+  from_above: 'FromAbove',
+  from_below: 'FromBelow',
+};
+
+/**
+ * Embed an expression as a single argument
+ * @param argument - Name of the tool argument, for errors
+ * @param expression - Wolfram Language expression
+ * @throws {InvalidExpressionError} If a delimiter, string or comment is left open or closed too often
+ */
+function embed(argument: string, expression: string): string {
+  const problem = findUnbalancedDelimiter(expression);
+
+  if (problem) {
+    throw new InvalidExpressionError(argument, problem);
+  }
+
+  return `(${expression})`;
+}
+
+/**
+ * Embed a list of expressions
+ */
+function embedList(argument: string, expressions: string[]): string {
+  return `{${expressions.map((expression, index) => embed(`${argument}[${index}]`, expression)).join(', ')}}`;
+}
+
+/**
+ * Build the Assumptions option, or nothing without assumptions
+ */
+function assumptionsOption(assumptions: string | undefined): string {
+  return assumptions !== undefined ? `, Assumptions -> ${embed('assumptions', assumptions)}` : '';
+}
+
+/**
+ * Build code for solve_equations: Solve, or NSolve when numeric
+ */
+export function buildSolveCode(input: SolveEquationsInput): string {
+  // Solve treats the conditions in its list as a conjunction
+  const conditions = [
+    ...input.equations.map((equation, index) => embed(`equations[${index}]`, equation)),
+    ...(input.assumptions !== undefined ? [embed('assumptions', input.assumptions)] : []),
+  ];
+  const domain = input.domain ? `, ${SOLVE_DOMAINS[input.domain]}` : '';
+
+  return `${input.numeric ? 'NSolve' : 'Solve'}[{${conditions.join(', ')}}, ` +
+    `{${input.variables.join(', ')}}${domain}]`;
+}
+
+/**
+ * Build code for integrate: an indefinite or definite Integrate, or NIntegrate when numeric
+ */
+export function buildIntegrateCode(input: IntegrateInput): string {
+  const integrand = embed('expression', input.expression);
+  const range = input.lower !== undefined && input.upper !== undefined
+    ? `{${input.variable}, ${embed('lower', input.lower)}, ${embed('upper', input.upper)}}`
+    : input.variable;
+
+  if (input.numeric) {
+    return `NIntegrate[${integrand}, ${range}]`;
+  }
+
+  return `Integrate[${integrand}, ${range}${assumptionsOption(input.assumptions)}]`;
+}
+
+/**
+ * Build code for differentiate: D, simplified under the assumptions if there are any
+ */
+export function buildDifferentiateCode(input: DifferentiateInput): string {
+  const derivative = `D[${embed('expression', input.expression)}, {${input.variable}, ${input.order}}]`;
+
+  return input.assumptions !== undefined
+    ? `Simplify[${derivative}${assumptionsOption(input.assumptions)}]`
+    : derivative;
+}
+
+/**
+ * Build code for simplify: Simplify, or FullSimplify when full
+ */
+export function buildSimplifyCode(input: SimplifyInput): string {
+  return `${input.full ? 'FullSimplify' : 'Simplify'}[${embed('expression', input.expression)}` +
+    `${assumptionsOption(input.assumptions)}]`;
+}
+
+/**
+ * Build code for series_expand: Series, with the remainder dropped when normal
+ */
+export function buildSeriesCode(input: SeriesExpandInput): string {
+  const series = `Series[${embed('expression', input.expression)}, ` +
+    `{${input.variable}, ${embed('point', input.point)}, ${input.order}}${assumptionsOption(input.assumptions)}]`;
+
+  return input.normal ? `Normal[${series}]` : series;
+}
+
+/**
+ * Build code for compute_limit: Limit, with a direction for one-sided limits
+ */
+export function buildLimitCode(input: ComputeLimitInput): string {
+  const direction = LIMIT_DIRECTIONS[input.direction];
+
+  return `Limit[${embed('expression', input.expression)}, ${input.variable} -> ${embed('point', input.point)}` +
+    `${direction ? `, Direction -> ${toWolframString(direction)}` : ''}${assumptionsOption(input.assumptions)}]`;
+}
+
+/**
+ * Build code for dsolve: DSolve for the functions applied to the variable
+ */
+export function buildDsolveCode(input: DsolveInput): string {
+  const functions = input.functions.map(name => `${name}[${input.variable}]`).join(', ');
+
+  return `DSolve[${embedList('equations', input.equations)}, {${functions}}, ${input.variable}]`;
+}
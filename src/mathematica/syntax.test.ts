@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test';
+import { locateError } from './syntax.ts';
+
+describe('locateError', () => {
+  test('reports the token where the parser gave up', () => {
+    expect(locateError('x = 1 +* 2', 7, false)).toEqual({
+      message: 'Unexpected "*"',
+      line: 1,
+      column: 8,
+      offset: 7,
+      token: '*',
+    });
+  });
+
+  test('skips whitespace before the token and counts lines', () => {
+    expect(locateError('a = 1\nb = [2]', 9, false)).toEqual({
+      message: 'Unexpected "["',
+      line: 2,
+      column: 5,
+      offset: 10,
+      token: '[',
+    });
+  });
+
+  test('shortens long tokens', () => {
+    const name = `x${'y'.repeat(60)}`;
+    const error = locateError(`1 ${name}`, 2, false);
+
+    expect(error.token).toBe(name.slice(0, 40));
+    expect(error.message).toBe(`Unexpected "${name.slice(0, 40)}"`);
+  });
+
+  test('points past the end of incomplete code and names what is missing', () => {
+    expect(locateError('f[x, {1, 2}', 4, true)).toEqual({
+      message: 'Incomplete expression; more input is needed (missing "]")',
+      line: 1,
+      column: 12,
+      offset: 11,
+      token: null,
+    });
+  });
+
+  test('falls back to a plain message without a token', () => {
+    expect(locateError('x = ', 4, false)).toMatchObject({ message: 'Syntax error', column: 5, token: null });
+  });
+});
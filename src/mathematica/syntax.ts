@@ -0,0 +1,126 @@
+/**
+ * Syntax checking.
+ * Parses code with the kernel's parser without evaluating it, so that syntax
+ * errors can be located and fixed before a real evaluation is spent on them.
+ */
+
+import type { SyntaxCheckResult, SyntaxErrorLocation } from '../config/schema.ts';
+import { MathematicaExecutionError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { getKernelPool } from './kernel-pool.ts';
+import { getScheduler, type ScheduleOptions } from './scheduler.ts';
+import { findUnbalancedDelimiter, toWolframString } from './wolfram-code.ts';
+
+/**
+ * Time a parse may take in the kernel
+ */
+const SYNTAX_CHECK_TIMEOUT_MS = 30_000;
+
+/**
+ * Characters of the offending token reported at most
+ */
+const MAX_TOKEN_LENGTH = 40;
+
+/**
+ * A token: a symbol or number, a string opening, or a single other character
+ */
+const TOKEN_PATTERN = /^(?:[A-Za-z$][A-Za-z0-9$`]*|\d+(?:\.\d*)?|"|\S)/;
+
+/**
+ * Build the code that splits code into its top-level expressions, as cells mode
+ * does, with every expression held. Reading stops at the first expression that
+ * does not parse; SyntaxLength then finds how far into it the parser got.
+ * Runs as driver code, so the reading functions are not subject to the sandbox;
+ * the user code is only ever a string.
+ */
+function buildSyntaxCheckCode(code: string): string {
+  return `Block[{MCP\`Private\`code = ${toWolframString(code)}, MCP\`Private\`stream, MCP\`Private\`held,
+    MCP\`Private\`position, MCP\`Private\`expressions = {}, MCP\`Private\`rest = Null},
+  MCP\`Private\`stream = StringToStream[MCP\`Private\`code];
+  While[True,
+    MCP\`Private\`position = StreamPosition[MCP\`Private\`stream];
+    MCP\`Private\`held = Quiet[Read[MCP\`Private\`stream, Hold[Expression]]];
+    Which[
+      MCP\`Private\`held === EndOfFile, Break[],
+      MatchQ[MCP\`Private\`held, Hold[_]],
+      AppendTo[MCP\`Private\`expressions,
+        Replace[MCP\`Private\`held, Hold[MCP\`Private\`e_] :> ToString[Unevaluated[MCP\`Private\`e], InputForm]]],
+      True, MCP\`Private\`rest = StringDrop[MCP\`Private\`code, MCP\`Private\`position]; Break[]
+    ]
+  ];
+  Close[MCP\`Private\`stream];
+  <|
+    "status" -> "ok",
+    "expressions" -> MCP\`Private\`expressions,
+    "errorStart" -> If[StringQ[MCP\`Private\`rest], MCP\`Private\`position, Null],
+    "parsedLength" -> If[StringQ[MCP\`Private\`rest], SyntaxLength[MCP\`Private\`rest], Null]
+  |>
+]`;
+}
+
+/**
+ * Describe the syntax error at an offset of the code
+ * @param code - Code that was checked
+ * @param offset - Characters before the point where the parser gave up
+ * @param incomplete - Whether the code ended before the expression was complete
+ */
+export function locateError(code: string, offset: number, incomplete: boolean): SyntaxErrorLocation {
+  // The error is at the next token, not at the whitespace before it
+  const start = incomplete
+    ? code.length
+    : Math.min(offset + (/^\s*/.exec(code.slice(offset))?.[0].length ?? 0), code.length);
+
+  const before = code.slice(0, start).split('\n');
+  const token = incomplete ? null : TOKEN_PATTERN.exec(code.slice(start))?.[0] ?? null;
+  const unbalanced = incomplete ? findUnbalancedDelimiter(code) : null;
+
+  return {
+    message: incomplete
+      ? `Incomplete expression; more input is needed${unbalanced ? ` (${unbalanced})` : ''}`
+      : token ? `Unexpected "${token.slice(0, MAX_TOKEN_LENGTH)}"` : 'Syntax error',
+    line: before.length,
+    column: (before[before.length - 1]?.length ?? 0) + 1,
+    offset: start,
+    token: token?.slice(0, MAX_TOKEN_LENGTH) ?? null,
+  };
+}
+
+/**
+ * Parse code without evaluating it
+ * @param code - Code to check
+ * @param schedule - Queueing options; aborting the signal also cancels a running check
+ * @returns Whether the code is valid, its first error and its top-level expressions
+ * @throws {MathematicaExecutionError} If the kernel does not answer as expected
+ */
+export async function checkSyntax(code: string, schedule: ScheduleOptions): Promise<SyntaxCheckResult> {
+  const { signal } = schedule;
+
+  const { value: evaluation } = await getScheduler().run(
+    () => getKernelPool().withKernel(
+      kernel => kernel.evaluate(buildSyntaxCheckCode(code), { timeoutMs: SYNTAX_CHECK_TIMEOUT_MS, signal }),
+      signal
+    ),
+    schedule
+  );
+
+  const { data } = evaluation;
+
+  if (data.status !== 'ok' || !Array.isArray(data.expressions)) {
+    throw new MathematicaExecutionError(`Syntax check failed: ${String(data.error ?? `kernel returned status ${data.status}`)}`);
+  }
+
+  const expressions = data.expressions.map(String);
+
+  if (typeof data.errorStart !== 'number') {
+    return { valid: true, error: null, expressions };
+  }
+
+  // SyntaxLength counts past the end of the text when the input stops too early
+  const rest = code.length - data.errorStart;
+  const parsedLength = typeof data.parsedLength === 'number' ? data.parsedLength : 0;
+  const error = locateError(code, data.errorStart + Math.min(parsedLength, rest), parsedLength > rest);
+
+  logger.debug(`Syntax error at line ${error.line}, column ${error.column}: ${error.message}`);
+
+  return { valid: false, error, expressions };
+}
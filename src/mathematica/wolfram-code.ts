@@ -0,0 +1,97 @@
+/**
+ * Helpers for building Wolfram Language source code on the host side.
+ * User input is always embedded as quoted string literals, never spliced in raw.
+ */
+
+/**
+ * Quote a string as a Wolfram Language string literal
+ * @param value - Raw string
+ * @returns Escaped string literal including surrounding quotes
+ */
+export function toWolframString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"');
+
+  return `"${escaped}"`;
+}
+
+/**
+ * Write a number as a Wolfram Language numeric literal
+ * @param value - Finite number
+ * @returns Literal such as 42, -0.5 or 1.5*^-7
+ */
+export function toWolframNumber(value: number): string {
+  return String(value).replace(/e\+?/, '*^');
+}
+
+/**
+ * Closing delimiter of each opening one
+ */
+const CLOSING_DELIMITERS: Record<string, string> = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+};
+
+/**
+ * Check that brackets, braces and parentheses in code are balanced and that
+ * strings and comments are terminated, so the code can be embedded in a larger
+ * expression without changing its structure
+ * @param code - Wolfram Language code
+ * @returns Description of the first problem, or null if the code is balanced
+ */
+export function findUnbalancedDelimiter(code: string): string | null {
+  const open: string[] = [];
+  let commentDepth = 0;
+  let inString = false;
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i] as string;
+    const next = code[i + 1];
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '(' && next === '*') {
+      commentDepth++;
+      i++;
+      continue;
+    }
+
+    if (commentDepth > 0) {
+      if (char === '*' && next === ')') {
+        commentDepth--;
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char in CLOSING_DELIMITERS) {
+      open.push(CLOSING_DELIMITERS[char] as string);
+    } else if (char === ')' || char === ']' || char === '}') {
+      if (open.pop() !== char) {
+        return `unexpected "${char}" at position ${i + 1}`;
+      }
+    }
+  }
+
+  if (inString) {
+    return 'unterminated string';
+  }
+
+  if (commentDepth > 0) {
+    return 'unterminated comment';
+  }
+
+  const missing = open.pop();
+  return missing ? `missing "${missing}"` : null;
+}
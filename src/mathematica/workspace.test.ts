@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EnvSchema } from '../config/schema.ts';
+import { PathNotAllowedError } from '../utils/errors.ts';
+import { initWorkspace, isInsideRoots, resolveWorkspacePath } from './workspace.ts';
+
+describe('isInsideRoots', () => {
+  const roots = ['/ws'];
+
+  test('accepts the root itself and its entries', () => {
+    expect(isInsideRoots('/ws', roots)).toBe(true);
+    expect(isInsideRoots('/ws/data/a.csv', roots)).toBe(true);
+    expect(isInsideRoots('/ws/..cache', roots)).toBe(true);
+  });
+
+  test('rejects paths that lead out of the root', () => {
+    expect(isInsideRoots('/', roots)).toBe(false);
+    expect(isInsideRoots('/x', roots)).toBe(false);
+    expect(isInsideRoots('/wsx', roots)).toBe(false);
+  });
+
+  test('accepts a path inside any of several roots', () => {
+    expect(isInsideRoots('/data/b', ['/ws', '/data'])).toBe(true);
+  });
+});
+
+describe('resolveWorkspacePath', () => {
+  let base: string;
+  let root: string;
+
+  beforeAll(() => {
+    base = realpathSync(mkdtempSync(join(tmpdir(), 'workspace-test-')));
+    root = join(base, 'root');
+    mkdirSync(join(root, 'data'), { recursive: true });
+    mkdirSync(join(root, '..cache'));
+    mkdirSync(join(base, 'outside'));
+    symlinkSync(join(base, 'outside'), join(root, 'escape'));
+    initWorkspace(EnvSchema.parse({ WORKSPACE_ROOTS: root }));
+  });
+
+  afterAll(() => {
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  test('resolves relative paths against the default root', () => {
+    expect(resolveWorkspacePath(undefined)).toBe(root);
+    expect(resolveWorkspacePath('data')).toBe(join(root, 'data'));
+    expect(resolveWorkspacePath('..cache')).toBe(join(root, '..cache'));
+  });
+
+  test('rejects .. and paths above the root', () => {
+    expect(() => resolveWorkspacePath('..')).toThrow(PathNotAllowedError);
+    expect(() => resolveWorkspacePath('../outside')).toThrow(PathNotAllowedError);
+  });
+
+  test('follows symlinks before checking', () => {
+    expect(() => resolveWorkspacePath('escape')).toThrow(PathNotAllowedError);
+  });
+});
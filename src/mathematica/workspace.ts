@@ -0,0 +1,226 @@
+/**
+ * Workspace roots.
+ * Confines the `path` working directory and the kernel's file functions to the
+ * directories configured in WORKSPACE_ROOTS.
+ */
+
+import { realpathSync } from 'node:fs';
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+import type { EnvConfig } from '../config/schema.ts';
+import {
+  ConfigurationError,
+  MathematicaExecutionError,
+  PathNotAllowedError,
+} from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { toWolframString } from './wolfram-code.ts';
+
+/**
+ * Kernel file functions and the argument positions that hold file names
+ * (negative positions count from the end, as in Part).
+ * Read functions may also use the Wolfram installation and base directories,
+ * since loading packages reads from there.
+ */
+const PATH_ARGUMENTS: Record<'read' | 'write', Record<string, number[]>> = {
+  read: {
+    Get: [1], Needs: [2], Import: [1], OpenRead: [1], Read: [1], ReadList: [1],
+    ReadString: [1], ReadLine: [1], ReadByteArray: [1], BinaryRead: [1],
+    BinaryReadList: [1], FindList: [1], FilePrint: [1], FileNames: [1, 2],
+    FileExistsQ: [1], DirectoryQ: [1], FileType: [1], FileByteCount: [1],
+    FileDate: [1], FileHash: [1], SetDirectory: [1],
+  },
+  write: {
+    Export: [1], Put: [-1], PutAppend: [-1], Save: [1], DumpSave: [1], Splice: [1, 2],
+    Encode: [1, 2], OpenWrite: [1], OpenAppend: [1], Write: [1], WriteString: [1],
+    WriteLine: [1], BinaryWrite: [1], DeleteFile: [1], DeleteDirectory: [1],
+    CreateFile: [1], CreateDirectory: [1], CopyFile: [1, 2], CopyDirectory: [1, 2],
+    RenameFile: [1, 2], RenameDirectory: [1, 2], SetFileDate: [1], CreateArchive: [1, 2],
+    ExtractArchive: [1, 2], URLDownload: [2], URLSave: [2],
+  },
+};
+
+/**
+ * File functions that also accept a context name in place of a file, e.g. Get["Package`"]
+ */
+const CONTEXT_ARGUMENTS = ['Get'];
+
+/**
+ * Stream names that file functions accept in place of a file
+ */
+const STANDARD_STREAMS = ['stdout', 'stderr', 'stdin'];
+
+/**
+ * Check whether an absolute, symlink-free path lies inside one of the roots
+ */
+export function isInsideRoots(path: string, roots: string[]): boolean {
+  return roots.some(root => {
+    const rel = relative(root, path);
+    // Entries named like ..cache lie inside the root; only .. itself leads out
+    return rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+  });
+}
+
+/**
+ * Resolve a requested working directory or file to a real path inside the workspace.
+ * Relative paths resolve against the default (first) root; a missing path means
+ * the default root itself.
+ * @param path - Requested path, if any
+ * @returns Real path of the directory or file
+ * @throws {PathNotAllowedError} If the path resolves outside all roots
+ * @throws {MathematicaExecutionError} If the path does not exist
+ */
+export function resolveWorkspacePath(path: string | undefined): string {
+  const roots = getWorkspaceRoots();
+  const [defaultRoot] = roots;
+
+  if (!defaultRoot) {
+    throw new MathematicaExecutionError('Workspace roots are not initialized');
+  }
+
+  if (path === undefined) {
+    return defaultRoot;
+  }
+
+  let real: string;
+
+  try {
+    real = realpathSync(resolve(defaultRoot, path));
+  } catch {
+    throw new MathematicaExecutionError(`Path does not exist: ${path}`);
+  }
+
+  if (!isInsideRoots(real, roots)) {
+    logger.warn(`Rejected path outside the workspace: ${path} (resolves to ${real})`);
+    throw new PathNotAllowedError(path, roots);
+  }
+
+  return real;
+}
+
+/**
+ * Build the kernel code that limits file functions to the workspace roots.
+ * Uses the guard helpers installed by sandbox.ts: each file function gets a
+ * leading definition that records a "path" violation while user code runs and
+ * any of its file arguments lies outside the roots. A path must lie inside the
+ * roots both as written and with symlinks resolved: AbsoluteFileName resolves
+ * the longest part of it that exists, and the rest is appended as written.
+ * File functions called while a path is being checked are not checked again.
+ * @param roots - Real paths of the workspace roots
+ * @returns Install code and the fully qualified symbols it guards
+ */
+export function buildPathGuardCode(roots: string[]): { code: string; symbols: string[] } {
+  const list = (values: string[]) => `{${values.map(toWolframString).join(', ')}}`;
+
+  const guards = (['read', 'write'] as const).flatMap(mode =>
+    Object.entries(PATH_ARGUMENTS[mode]).map(([name, positions]) =>
+      `{${toWolframString(`System\`${name}`)}, {${positions.join(', ')}}, ${toWolframString(mode)}, ` +
+      `${CONTEXT_ARGUMENTS.includes(name) ? 'True' : 'False'}}`
+    )
+  );
+
+  const code = `
+MCP\`Private\`normalizePath[MCP\`Private\`p_String] := "/" <> StringRiffle[
+  Fold[
+    Which[#2 === "..", If[#1 === {}, {}, Most[#1]], #2 === "." || #2 === "", #1, True, Append[#1, #2]] &,
+    {},
+    StringSplit[ExpandFileName[MCP\`Private\`p], "/"]
+  ],
+  "/"
+];
+MCP\`Private\`realPath[MCP\`Private\`p_String] := Module[
+  {MCP\`Private\`parts = StringSplit[ExpandFileName[MCP\`Private\`p], "/"], MCP\`Private\`n, MCP\`Private\`real = $Failed},
+  MCP\`Private\`n = Length[MCP\`Private\`parts];
+  While[MCP\`Private\`n > 0 && !StringQ[MCP\`Private\`real =
+      Quiet[AbsoluteFileName["/" <> StringRiffle[Take[MCP\`Private\`parts, MCP\`Private\`n], "/"]]]],
+    MCP\`Private\`n--
+  ];
+  MCP\`Private\`normalizePath[StringRiffle[
+    Prepend[Drop[MCP\`Private\`parts, MCP\`Private\`n], If[StringQ[MCP\`Private\`real], MCP\`Private\`real, ""]],
+    "/"
+  ]]
+];
+MCP\`Private\`withRealPaths[MCP\`Private\`roots_List] :=
+  DeleteDuplicates[Join[MCP\`Private\`normalizePath /@ MCP\`Private\`roots, MCP\`Private\`realPath /@ MCP\`Private\`roots]];
+MCP\`Private\`writeRoots = MCP\`Private\`withRealPaths[${list(roots)}];
+MCP\`Private\`readRoots = DeleteDuplicates[Join[MCP\`Private\`writeRoots,
+  MCP\`Private\`withRealPaths[{$InstallationDirectory, $BaseDirectory, $UserBaseDirectory}]]];
+MCP\`Private\`insideRootsQ[MCP\`Private\`path_String, MCP\`Private\`roots_List] :=
+  AnyTrue[MCP\`Private\`roots, MCP\`Private\`path === # || StringStartsQ[MCP\`Private\`path, # <> "/"] &];
+MCP\`Private\`pathAllowedQ[MCP\`Private\`p_String, MCP\`Private\`mode_String] := Or[
+  MemberQ[${list(STANDARD_STREAMS)}, MCP\`Private\`p],
+  With[
+    {MCP\`Private\`roots = If[MCP\`Private\`mode === "read", MCP\`Private\`readRoots, MCP\`Private\`writeRoots]},
+    MCP\`Private\`insideRootsQ[MCP\`Private\`normalizePath[MCP\`Private\`p], MCP\`Private\`roots] &&
+      MCP\`Private\`insideRootsQ[MCP\`Private\`realPath[MCP\`Private\`p], MCP\`Private\`roots]
+  ]
+];
+MCP\`Private\`deniedPath[MCP\`Private\`args_List, MCP\`Private\`positions_List, MCP\`Private\`mode_String,
+    MCP\`Private\`contexts_] :=
+  SelectFirst[
+    Cases[
+      Flatten[{If[Abs[#] <= Length[MCP\`Private\`args], MCP\`Private\`args[[#]], Nothing] & /@ MCP\`Private\`positions}],
+      MCP\`Private\`p_String | File[MCP\`Private\`p_String] :> MCP\`Private\`p
+    ],
+    !(MCP\`Private\`contexts && StringEndsQ[#, "\`"]) && !MCP\`Private\`pathAllowedQ[#, MCP\`Private\`mode] &,
+    Null
+  ];
+Quiet[
+  Scan[
+    Function[MCP\`Private\`guard, With[
+      {MCP\`Private\`s = Symbol[MCP\`Private\`guard[[1]]], MCP\`Private\`positions = MCP\`Private\`guard[[2]],
+        MCP\`Private\`mode = MCP\`Private\`guard[[3]], MCP\`Private\`contexts = MCP\`Private\`guard[[4]]},
+      MCP\`Private\`addBlock[MCP\`Private\`guard[[1]],
+        HoldPattern[MCP\`Private\`s[MCP\`Private\`args___]] :> With[
+          {MCP\`Private\`bad = If[MCP\`Private\`sealedQ[] && !TrueQ[MCP\`Private\`checkingPath],
+            Block[{MCP\`Private\`checkingPath = True},
+              MCP\`Private\`deniedPath[{MCP\`Private\`args}, MCP\`Private\`positions, MCP\`Private\`mode,
+                MCP\`Private\`contexts]],
+            Null]},
+          MCP\`Private\`sandboxViolation[MCP\`Private\`bad, "path"] /; StringQ[MCP\`Private\`bad]
+        ]]
+    ]],
+    {${guards.join(',\n     ')}}
+  ]
+];
+SetAttributes[{MCP\`Private\`normalizePath, MCP\`Private\`realPath, MCP\`Private\`withRealPaths,
+  MCP\`Private\`writeRoots, MCP\`Private\`readRoots, MCP\`Private\`insideRootsQ, MCP\`Private\`pathAllowedQ,
+  MCP\`Private\`deniedPath}, {Protected, Locked}];
+`;
+
+  const symbols = (['read', 'write'] as const)
+    .flatMap(mode => Object.keys(PATH_ARGUMENTS[mode]))
+    .map(name => `System\`${name}`);
+
+  return { code, symbols };
+}
+
+// Real paths of the configured roots; the first one is the default
+let workspaceRoots: string[] = [];
+
+/**
+ * Resolve the configured workspace roots.
+ * Without WORKSPACE_ROOTS, the server's working directory is the only root.
+ * @throws {ConfigurationError} If a root does not exist
+ */
+export function initWorkspace(config: EnvConfig): string[] {
+  const configured = config.WORKSPACE_ROOTS.length > 0 ? config.WORKSPACE_ROOTS : [process.cwd()];
+
+  workspaceRoots = [...new Set(configured.map(root => {
+    try {
+      return realpathSync(resolve(root));
+    } catch {
+      throw new ConfigurationError(`Workspace root does not exist: ${root}`);
+    }
+  }))];
+
+  logger.info(`Workspace roots: ${workspaceRoots.join(', ')}`);
+
+  return workspaceRoots;
+}
+
+/**
+ * Get the real paths of the workspace roots (empty before initWorkspace)
+ */
+export function getWorkspaceRoots(): string[] {
+  return workspaceRoots;
+}
@@ -3,6 +3,8 @@
  * Validates API keys using timing-safe comparison to prevent timing attacks.
  */
 
+import { createHash } from 'node:crypto';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { InvalidTokenError } from '../utils/errors.ts';
 import { logger } from '../utils/logger.ts';
 
@@ -98,6 +100,29 @@ export function validateBearerToken(
   return isValid;
 }
 
+/**
+ * Build the auth info handed to MCP request handlers for an authenticated request.
+ * Its client ID is a fingerprint of the API key, so that records can name the
+ * key without revealing it.
+ * @param request - HTTP request whose bearer token has been validated
+ * @returns Auth info, or undefined if the request has no bearer token
+ */
+export function createAuthInfo(request: Request): AuthInfo | undefined {
+  const token = extractBearerToken(request);
+
+  if (!token) {
+    return undefined;
+  }
+
+  const fingerprint = createHash('sha256').update(token).digest('hex').slice(0, 12);
+
+  return {
+    token,
+    clientId: `key-${fingerprint}`,
+    scopes: [],
+  };
+}
+
 /**
  * Create an authentication middleware for Bun.serve
  * Returns a function that checks bearer token and throws if invalid
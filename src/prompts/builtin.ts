@@ -0,0 +1,175 @@
+/**
+ * Built-in prompt templates for common Mathematica workflows.
+ * Each produces code for one execute_mathematica call. Arguments are spliced
+ * into the code as written, so local variables get names that user expressions
+ * are unlikely to use; Module would otherwise rename the user's symbols too.
+ */
+
+import type { PromptTemplate } from '../config/schema.ts';
+
+export const BUILTIN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'solve-ode',
+    title: 'Solve an ODE with initial conditions',
+    description: 'Solve an ordinary differential equation with initial conditions in closed form.',
+    arguments: [
+      {
+        name: 'equation',
+        description: 'Differential equation, e.g. y\'\'[x] + y[x] == 0',
+        type: 'expression',
+      },
+      {
+        name: 'initial_conditions',
+        description: 'List of initial conditions, e.g. {y[0] == 1, y\'[0] == 0}',
+        type: 'expression',
+      },
+      {
+        name: 'function',
+        description: 'Unknown function',
+        type: 'expression',
+        default: 'y',
+      },
+      {
+        name: 'variable',
+        description: 'Independent variable',
+        type: 'expression',
+        default: 'x',
+      },
+    ],
+    code: [
+      'Module[{mcpSolution$},',
+      '  mcpSolution$ = DSolve[Flatten[{${equation}, ${initial_conditions}}], ${function}[${variable}], ${variable}];',
+      '  If[mcpSolution$ === {} || !FreeQ[mcpSolution$, DSolve],',
+      '    "No closed-form solution found",',
+      '    Simplify[${function}[${variable}] /. mcpSolution$]',
+      '  ]',
+      ']',
+    ].join('\n'),
+    format: 'text',
+    instructions: 'The result lists one solution per branch. If no closed-form solution is found, ' +
+      'solve numerically with NDSolve over a range of the independent variable instead.',
+  },
+  {
+    name: 'verify-identity',
+    title: 'Verify an identity',
+    description: 'Check symbolically whether two expressions are equal, optionally under assumptions.',
+    arguments: [
+      {
+        name: 'lhs',
+        description: 'Left-hand side, e.g. Sin[x]^2 + Cos[x]^2',
+        type: 'expression',
+      },
+      {
+        name: 'rhs',
+        description: 'Right-hand side, e.g. 1',
+        type: 'expression',
+      },
+      {
+        name: 'assumptions',
+        description: 'Assumptions on the variables, e.g. x > 0 && Element[n, Integers]',
+        type: 'expression',
+        default: 'True',
+      },
+    ],
+    code: [
+      'Module[{mcpDifference$ = FullSimplify[${lhs} - ${rhs}, ${assumptions}]},',
+      '  <|"holds" -> TrueQ[mcpDifference$ == 0], "difference" -> mcpDifference$|>',
+      ']',
+    ].join('\n'),
+    format: 'text',
+    instructions: '"holds" is True when the difference simplifies to zero. A nonzero "difference" does not ' +
+      'prove the identity false: simplification may be incomplete, so check it at a few numeric points ' +
+      'before concluding.',
+  },
+  {
+    name: 'fourier-transform',
+    title: 'Compute and plot a Fourier transform',
+    description: 'Compute the Fourier transform of an expression and plot its real part, imaginary part and magnitude.',
+    arguments: [
+      {
+        name: 'expression',
+        description: 'Expression to transform, e.g. Exp[-t^2]',
+        type: 'expression',
+      },
+      {
+        name: 'variable',
+        description: 'Variable of the expression',
+        type: 'expression',
+        default: 't',
+      },
+      {
+        name: 'frequency',
+        description: 'Frequency variable of the transform',
+        type: 'expression',
+        default: 'w',
+      },
+      {
+        name: 'from',
+        description: 'Lowest frequency plotted',
+        type: 'number',
+        default: '-10',
+      },
+      {
+        name: 'to',
+        description: 'Highest frequency plotted',
+        type: 'number',
+        default: '10',
+      },
+    ],
+    code: [
+      'Module[{mcpTransform$ = FourierTransform[${expression}, ${variable}, ${frequency}]},',
+      '  {',
+      '    mcpTransform$,',
+      '    Plot[Evaluate[{Re[mcpTransform$], Im[mcpTransform$], Abs[mcpTransform$]}], {${frequency}, ${from}, ${to}},',
+      '      PlotLegends -> {"Re", "Im", "Abs"}, PlotRange -> All]',
+      '  }',
+      ']',
+    ].join('\n'),
+    format: 'text',
+    instructions: 'The result is the transform followed by its plot, returned as an image. ' +
+      'The transform uses Mathematica\'s default convention, FourierParameters -> {0, 1}.',
+  },
+  {
+    name: 'fit-data',
+    title: 'Fit a model to data from a file',
+    description: 'Import two-column numeric data from a file in the workspace and fit a model to it.',
+    arguments: [
+      {
+        name: 'file',
+        description: 'Data file relative to the workspace, e.g. data/measurements.csv',
+        type: 'string',
+      },
+      {
+        name: 'model',
+        description: 'Model with parameters, e.g. a Exp[-b x] + c',
+        type: 'expression',
+      },
+      {
+        name: 'parameters',
+        description: 'Parameters of the model, optionally with starting values, e.g. {{a, 1}, {b, 0.5}, c}',
+        type: 'expression',
+      },
+      {
+        name: 'variable',
+        description: 'Independent variable of the model',
+        type: 'expression',
+        default: 'x',
+      },
+    ],
+    code: [
+      'Module[{mcpData$, mcpFit$},',
+      '  mcpData$ = Select[Import[${file}], VectorQ[#, NumericQ] && Length[#] == 2 &];',
+      '  mcpFit$ = NonlinearModelFit[mcpData$, ${model}, ${parameters}, ${variable}];',
+      '  <|',
+      '    "model" -> Normal[mcpFit$],',
+      '    "parameters" -> mcpFit$["BestFitParameters"],',
+      '    "rSquared" -> mcpFit$["RSquared"],',
+      '    "plot" -> Show[ListPlot[mcpData$], Plot[mcpFit$[${variable}], {${variable}, Min[mcpData$[[All, 1]]], Max[mcpData$[[All, 1]]]}]]',
+      '  |>',
+      ']',
+    ].join('\n'),
+    format: 'text',
+    instructions: 'Rows that are not pairs of numbers, such as a header, are skipped. ' +
+      'If the fit fails to converge, give starting values for the parameters.',
+  },
+];
@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test';
+import { PromptArgumentError } from '../utils/errors.ts';
+import { getPrompt } from './prompts.ts';
+
+/**
+ * Text of a filled prompt
+ */
+function promptText(name: string, args: Record<string, string>): string {
+  const [message] = getPrompt(name, args).messages;
+  return message?.content.type === 'text' ? message.content.text : '';
+}
+
+describe('getPrompt', () => {
+  test('inserts expressions in parentheses, so they stay one operand', () => {
+    expect(promptText('verify-identity', { lhs: 'a + b', rhs: 'b + a' }))
+      .toContain('FullSimplify[(a + b) - (b + a), (True)]');
+  });
+
+  test('keeps an expression from adding arguments', () => {
+    expect(promptText('fourier-transform', { expression: 'Exp[-t^2], s, w' }))
+      .toContain('FourierTransform[(Exp[-t^2], s, w), (t), (w)]');
+  });
+
+  test('inserts strings and numbers as literals', () => {
+    const text = promptText('fit-data', { file: 'data "1".csv', model: 'a x', parameters: '{a}' });
+
+    expect(text).toContain('Import["data \\"1\\".csv"]');
+    expect(promptText('fourier-transform', { expression: 'Exp[-t^2]', from: '-5' })).toContain('{(w), -5, 10}');
+  });
+
+  test('rejects unbalanced expressions and missing arguments', () => {
+    expect(() => getPrompt('verify-identity', { lhs: 'Sin[x', rhs: '1' })).toThrow(PromptArgumentError);
+    expect(() => getPrompt('verify-identity', { lhs: 'x' })).toThrow('argument is required');
+  });
+});
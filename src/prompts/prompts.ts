@@ -0,0 +1,223 @@
+/**
+ * Prompt templates.
+ * Serves the built-in templates and those an operator adds in PROMPTS_DIR as MCP
+ * prompts. Getting a prompt fills the template's code with the arguments and
+ * asks the model to run it with execute_mathematica.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import {
+  PromptTemplateSchema,
+  type PromptTemplate,
+  type PromptTemplateArgument,
+} from '../config/schema.ts';
+import {
+  findUnbalancedDelimiter,
+  toWolframNumber,
+  toWolframString,
+} from '../mathematica/wolfram-code.ts';
+import {
+  getErrorMessage,
+  PromptArgumentError,
+  PromptNotFoundError,
+  PromptTemplateError,
+} from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { BUILTIN_PROMPT_TEMPLATES } from './builtin.ts';
+
+/**
+ * Placeholders in template code: ${name}
+ */
+const PLACEHOLDER_PATTERN = /\$\{([a-z][a-z0-9_]*)\}/g;
+
+// Templates by name, in the order they are listed
+let promptTemplates = new Map(BUILTIN_PROMPT_TEMPLATES.map(template => [template.name, template]));
+
+/**
+ * Check that every placeholder names an argument and argument names are unique
+ * @returns Description of the first problem, or null if the template is consistent
+ */
+function findTemplateProblem(template: PromptTemplate): string | null {
+  const names = new Set<string>();
+
+  for (const argument of template.arguments) {
+    if (names.has(argument.name)) {
+      return `argument ${argument.name} is declared twice`;
+    }
+    names.add(argument.name);
+  }
+
+  for (const [, name] of template.code.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.has(name as string)) {
+      return `placeholder \${${name}} has no argument`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read one template file
+ * @throws {PromptTemplateError} If the file is not a valid template
+ */
+async function readTemplateFile(file: string): Promise<PromptTemplate> {
+  let template: PromptTemplate;
+
+  try {
+    template = PromptTemplateSchema.parse(JSON.parse(await readFile(file, 'utf-8')));
+  } catch (error) {
+    throw new PromptTemplateError(file, getErrorMessage(error));
+  }
+
+  const problem = findTemplateProblem(template);
+
+  if (problem) {
+    throw new PromptTemplateError(file, problem);
+  }
+
+  return template;
+}
+
+/**
+ * Load the prompt templates: the built-in ones, then every *.json file in the
+ * directory. A file defining a built-in name replaces that template.
+ * @param directory - Directory of template files (unset = built-in templates only)
+ * @throws {PromptTemplateError} If the directory cannot be read or a file is invalid
+ */
+export async function initPromptTemplates(directory?: string): Promise<void> {
+  const templates = new Map(BUILTIN_PROMPT_TEMPLATES.map(template => [template.name, template]));
+
+  if (directory) {
+    let files: string[];
+
+    try {
+      files = (await readdir(directory)).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      throw new PromptTemplateError(directory, getErrorMessage(error));
+    }
+
+    for (const file of files) {
+      const template = await readTemplateFile(join(directory, file));
+
+      if (templates.has(template.name)) {
+        logger.info(`Prompt template ${file} replaces ${template.name}`);
+      }
+
+      templates.set(template.name, template);
+    }
+
+    logger.info(`Loaded ${files.length} prompt template(s) from ${directory}`);
+  }
+
+  promptTemplates = templates;
+}
+
+/**
+ * List the prompts, as returned by prompts/list
+ */
+export function listPrompts(): Prompt[] {
+  return [...promptTemplates.values()].map(template => ({
+    name: template.name,
+    ...(template.title ? { title: template.title } : {}),
+    description: template.description,
+    arguments: template.arguments.map(argument => ({
+      name: argument.name,
+      description: argument.default !== undefined
+        ? `${argument.description} (default: ${argument.default})`
+        : argument.description,
+      required: argument.default === undefined,
+    })),
+  }));
+}
+
+/**
+ * Turn an argument value into Wolfram Language code. Expressions are wrapped in
+ * parentheses, so each stays one operand or argument of the template code.
+ * @throws {PromptArgumentError} If the value is empty, unbalanced or not a number
+ */
+function toArgumentCode(
+  template: PromptTemplate,
+  argument: PromptTemplateArgument,
+  value: string
+): string {
+  switch (argument.type) {
+    case 'string':
+      return toWolframString(value);
+
+    case 'number': {
+      const number = Number(value);
+
+      if (value.trim() === '' || !Number.isFinite(number)) {
+        throw new PromptArgumentError(template.name, argument.name, `"${value}" is not a number`);
+      }
+
+      return toWolframNumber(number);
+    }
+
+    case 'expression': {
+      const code = value.trim();
+
+      if (code === '') {
+        throw new PromptArgumentError(template.name, argument.name, 'expression is empty');
+      }
+
+      const problem = findUnbalancedDelimiter(code);
+
+      if (problem) {
+        throw new PromptArgumentError(template.name, argument.name, problem);
+      }
+
+      return `(${code})`;
+    }
+  }
+}
+
+/**
+ * Fill a template with arguments
+ * @param name - Prompt name
+ * @param args - Argument values; omitted optional arguments take their defaults
+ * @returns The prompt, as returned by prompts/get
+ * @throws {PromptNotFoundError} If no template has this name
+ * @throws {PromptArgumentError} If a required argument is missing or a value is invalid
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const template = promptTemplates.get(name);
+
+  if (!template) {
+    throw new PromptNotFoundError(name);
+  }
+
+  const values = new Map<string, string>();
+
+  for (const argument of template.arguments) {
+    const value = args[argument.name] ?? argument.default;
+
+    if (value === undefined) {
+      throw new PromptArgumentError(template.name, argument.name, 'argument is required');
+    }
+
+    values.set(argument.name, toArgumentCode(template, argument, value));
+  }
+
+  // Placeholders were checked against the arguments when the template was loaded
+  const code = template.code.replace(PLACEHOLDER_PATTERN, (_, argument: string) => values.get(argument) as string);
+
+  const text = [
+    template.description,
+    `Run this Wolfram Language code with the execute_mathematica tool, using format "${template.format}":`,
+    '```wolfram\n' + code + '\n```',
+    ...(template.instructions ? [template.instructions] : []),
+  ].join('\n\n');
+
+  return {
+    description: template.title ?? template.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text },
+      },
+    ],
+  };
+}
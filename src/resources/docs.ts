@@ -0,0 +1,74 @@
+/**
+ * Symbol documentation MCP resources.
+ * Serves symbol lookups as mma://docs/{symbol}, and pattern searches as
+ * mma://docs/{pattern}?limit=.
+ */
+
+import type {
+  ReadResourceResult,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { LookupSymbolInputSchema } from '../config/schema.ts';
+import { getSymbolDocs, isSymbolPattern } from '../mathematica/docs.ts';
+import { ResourceNotFoundError, SymbolNotFoundError } from '../utils/errors.ts';
+import { getClientId, type ToolExtra } from '../tools/tool-context.ts';
+
+/**
+ * URI prefix of symbol documentation
+ */
+const DOCS_URI_PREFIX = 'mma://docs/';
+
+/**
+ * Resource template for symbol documentation
+ */
+export const DOCS_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: `${DOCS_URI_PREFIX}{symbol}{?limit}`,
+  name: 'symbol-documentation',
+  title: 'Symbol documentation',
+  description: 'Usage message, attributes, options with defaults and related symbols of a Wolfram Language symbol, from the local kernel, as JSON. A pattern with * or @, e.g. mma://docs/*Plot*, lists the matching names (up to limit, default 100).',
+  mimeType: 'application/json',
+};
+
+/**
+ * Whether a URI names symbol documentation
+ */
+export function isDocsResource(uri: string): boolean {
+  return uri.startsWith(DOCS_URI_PREFIX);
+}
+
+/**
+ * Read the documentation of a symbol, or the names matching a pattern
+ * @param uri - mma://docs/{symbol}, or mma://docs/{pattern}?limit=
+ * @throws {ResourceNotFoundError} If the kernel knows no such symbol
+ */
+export async function readDocsResource(uri: string, extra?: ToolExtra): Promise<ReadResourceResult> {
+  const url = new URL(uri);
+  const name = decodeURIComponent(url.pathname.replace(/^\//, ''));
+
+  if (url.host !== 'docs' || name.length === 0 || name.includes('/')) {
+    throw new ResourceNotFoundError(uri);
+  }
+
+  const { symbol, limit } = LookupSymbolInputSchema.parse({ symbol: name, ...Object.fromEntries(url.searchParams) });
+  const docs = getSymbolDocs();
+  const clientId = getClientId(extra);
+  let value: unknown;
+
+  try {
+    value = isSymbolPattern(symbol)
+      ? await docs.search(symbol, limit, clientId)
+      : await docs.lookup(symbol, clientId);
+  } catch (error) {
+    throw error instanceof SymbolNotFoundError ? new ResourceNotFoundError(uri) : error;
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Execution history MCP resources.
+ * Serves recorded executions as mma://history/{id}, and filtered listings as
+ * mma://history?session_id=&api_key=&limit=.
+ */
+
+import type {
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { HistoryQuerySchema, type HistoryEntry } from '../config/schema.ts';
+import {
+  getExecutionHistory,
+  HISTORY_URI_PREFIX,
+  type HistoryOwner,
+} from '../mathematica/history.ts';
+import { ResourceNotFoundError } from '../utils/errors.ts';
+import { getClientId, type ToolExtra } from '../tools/tool-context.ts';
+
+/**
+ * Characters of code shown in a resource title
+ */
+const TITLE_CODE_LENGTH = 60;
+
+/**
+ * Resource template for single executions
+ */
+export const HISTORY_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: `${HISTORY_URI_PREFIX}{id}`,
+  name: 'execution',
+  title: 'Recorded execution',
+  description: 'An earlier execute_mathematica call of the caller as JSON: code, format, result (outputs over the inline limit as previews), messages, timing and timestamp, or the error for failed calls.',
+  mimeType: 'application/json',
+};
+
+/**
+ * Resource template for filtered history listings
+ */
+export const HISTORY_LIST_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: 'mma://history{?session_id,api_key,limit}',
+  name: 'execution-history',
+  title: 'Execution history',
+  description: 'The caller\'s recorded executions, newest first, as a JSON array. Filter by session_id, or by api_key (the key fingerprint in each entry); limit defaults to 50.',
+  mimeType: 'application/json',
+};
+
+/**
+ * Whether a URI names a history entry or listing
+ */
+export function isHistoryResource(uri: string): boolean {
+  return uri === 'mma://history' || uri.startsWith('mma://history?') || uri.startsWith(HISTORY_URI_PREFIX);
+}
+
+/**
+ * Describe a history entry as an MCP resource
+ */
+function toResource(entry: HistoryEntry): Resource {
+  const firstLine = entry.code.split('\n', 1)[0] ?? '';
+  const code = firstLine.length > TITLE_CODE_LENGTH || entry.code.includes('\n')
+    ? `${firstLine.slice(0, TITLE_CODE_LENGTH)}...`
+    : firstLine;
+
+  return {
+    uri: entry.uri,
+    name: `execution-${entry.id}`,
+    title: code,
+    description: `${entry.tool} (${entry.status}) at ${entry.timestamp}` +
+      (entry.sessionId ? ` in session ${entry.sessionId}` : ''),
+    mimeType: 'application/json',
+  };
+}
+
+/**
+ * Caller of a resource request, as the history scopes it: the client, and in
+ * HTTP mode the fingerprint of its API key, as recorded by the history recorder
+ */
+function historyOwner(extra?: ToolExtra): HistoryOwner {
+  return {
+    clientId: getClientId(extra),
+    ...(extra?.authInfo ? { apiKey: extra.authInfo.clientId } : {}),
+  };
+}
+
+/**
+ * List the calling client's recorded executions, newest first
+ */
+export function listHistoryResources(extra?: ToolExtra): Resource[] {
+  return getExecutionHistory()?.list(historyOwner(extra)).map(toResource) ?? [];
+}
+
+/**
+ * Read one of the calling client's history entries, or a filtered listing of them
+ * @param uri - mma://history/{id}, or mma://history with filters in the query
+ * @throws {ResourceNotFoundError} If history is disabled or the caller has no such entry
+ */
+export function readHistoryResource(uri: string, extra?: ToolExtra): ReadResourceResult {
+  const history = getExecutionHistory();
+
+  if (!history) {
+    throw new ResourceNotFoundError(uri);
+  }
+
+  const url = new URL(uri);
+  const id = decodeURIComponent(url.pathname.replace(/^\//, ''));
+
+  if (id.includes('/')) {
+    throw new ResourceNotFoundError(uri);
+  }
+
+  let value: unknown;
+
+  if (id.length > 0) {
+    value = history.get(id, historyOwner(extra));
+  } else {
+    const query = HistoryQuerySchema.parse(Object.fromEntries(url.searchParams));
+    value = history.list(historyOwner(extra), {
+      sessionId: query.session_id,
+      apiKey: query.api_key,
+      limit: query.limit,
+    });
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
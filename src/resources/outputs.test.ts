@@ -0,0 +1,37 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { initOutputStore, shutdownOutputStore } from '../mathematica/output-store.ts';
+import { readOutputResource } from './outputs.ts';
+
+describe('readOutputResource', () => {
+  let uri: string;
+
+  beforeAll(() => {
+    uri = initOutputStore({ inlineLimit: 4, retention: 60, maxEntries: 10 }).save('abcdefghij', 'text', 'default').uri;
+  });
+
+  afterAll(() => {
+    shutdownOutputStore();
+  });
+
+  test('reads the page the query selects and links the next one', () => {
+    const [content] = readOutputResource(`${uri}?offset=2&length=3`).contents;
+
+    expect(content).toMatchObject({ text: 'cde', _meta: { nextOffset: 5, nextUri: `${uri}?offset=5&length=3` } });
+  });
+
+  test('rejects negative and fractional offsets and lengths as invalid params', () => {
+    for (const query of ['offset=-1', 'offset=1.5', 'length=0', 'length=2.5', 'offset=abc']) {
+      let error: unknown;
+
+      try {
+        readOutputResource(`${uri}?${query}`);
+      } catch (thrown) {
+        error = thrown;
+      }
+
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    }
+  });
+});
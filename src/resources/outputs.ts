@@ -0,0 +1,123 @@
+/**
+ * Stored output MCP resources.
+ * Serves the full text of truncated outputs as mma://outputs/{id}, in pages
+ * selected with the offset and length query parameters.
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { OutputPageQuerySchema, type OutputFormat } from '../config/schema.ts';
+import {
+  getOutputStore,
+  OUTPUT_URI_PREFIX,
+  outputUri,
+  type StoredOutputInfo,
+} from '../mathematica/output-store.ts';
+import { ResourceNotFoundError } from '../utils/errors.ts';
+import { getClientId, type ToolExtra } from '../tools/tool-context.ts';
+
+/**
+ * MIME type of each output format
+ */
+export const OUTPUT_MIME_TYPES: Record<OutputFormat, string> = {
+  text: 'text/plain',
+  latex: 'application/x-latex',
+  mathematica: 'application/vnd.wolfram.wl',
+  mathml: 'application/mathml+xml',
+  html: 'text/html',
+  json: 'application/json',
+  c: 'text/x-c',
+  fortran: 'text/x-fortran',
+  python: 'text/x-python',
+  javascript: 'text/javascript',
+};
+
+/**
+ * Resource template for stored outputs
+ */
+export const OUTPUT_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: `${OUTPUT_URI_PREFIX}{id}{?offset,length}`,
+  name: 'stored-output',
+  title: 'Stored output',
+  description: 'Full text of an output that execute_mathematica cut to a preview. Read it in pages with offset and length, in characters (default: the first page of INLINE_OUTPUT_LIMIT characters). Each page reports the total length and the next offset in _meta.',
+  mimeType: 'text/plain',
+};
+
+/**
+ * Whether a URI names a stored output
+ */
+export function isOutputResource(uri: string): boolean {
+  return uri.startsWith(OUTPUT_URI_PREFIX);
+}
+
+/**
+ * Describe a stored output as an MCP resource
+ */
+function toResource(info: StoredOutputInfo): Resource {
+  return {
+    uri: info.uri,
+    name: `output-${info.id}`,
+    title: `Stored ${info.format} output`,
+    description: `${info.length} characters, available until ${info.expiresAt}`,
+    mimeType: OUTPUT_MIME_TYPES[info.format],
+    size: info.length,
+  };
+}
+
+/**
+ * List the calling client's stored outputs
+ */
+export function listOutputResources(extra?: ToolExtra): Resource[] {
+  return getOutputStore().list(getClientId(extra)).map(toResource);
+}
+
+/**
+ * Read a page of a stored output
+ * @param uri - mma://outputs/{id}, optionally with ?offset=&length=
+ * @throws {McpError} If offset or length is not a valid page (InvalidParams)
+ * @throws {ResourceNotFoundError} If the output does not exist or has expired
+ */
+export function readOutputResource(uri: string, extra?: ToolExtra): ReadResourceResult {
+  const url = new URL(uri);
+  const id = decodeURIComponent(url.pathname.replace(/^\//, ''));
+
+  if (url.host !== 'outputs' || id.length === 0 || id.includes('/')) {
+    throw new ResourceNotFoundError(uri);
+  }
+
+  const query = OutputPageQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+  if (!query.success) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid page of ${uri}: offset must be a non-negative integer and length a positive integer`
+    );
+  }
+
+  const page = getOutputStore().read(id, getClientId(extra), query.data.offset, query.data.length);
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: OUTPUT_MIME_TYPES[page.info.format],
+        text: page.text,
+        _meta: {
+          offset: page.offset,
+          length: page.text.length,
+          total: page.info.length,
+          nextOffset: page.nextOffset,
+          nextUri: page.nextOffset !== null
+            ? `${outputUri(id)}?offset=${page.nextOffset}&length=${page.text.length}`
+            : null,
+          expiresAt: page.info.expiresAt,
+        },
+      },
+    ],
+  };
+}
@@ -3,6 +3,8 @@
  * Loads configuration, creates MCP server, and starts the appropriate transport.
  */
 
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { loadEnvConfig, printEnvConfig } from '../config/env.ts';
 import { createMcpServer, printServerInfo } from './mcp-server.ts';
@@ -17,7 +19,44 @@ import {
   printStdioTransportInfo,
 } from './transports/stdio.ts';
 import { logger } from '../utils/logger.ts';
-import { warmupWolframKernel } from '../mathematica/executor.ts';
+import { getKernelVersion, warmupWolframKernel } from '../mathematica/executor.ts';
+import { initWorkspace } from '../mathematica/workspace.ts';
+import { initPromptTemplates } from '../prompts/prompts.ts';
+import {
+  getKernelPoolStats,
+  shutdownKernelPool,
+  type KernelPoolStats,
+} from '../mathematica/kernel-pool.ts';
+import {
+  initSessionManager,
+  shutdownSessionManager,
+} from '../mathematica/sessions.ts';
+import {
+  getSchedulerStats,
+  initScheduler,
+  shutdownScheduler,
+  type SchedulerStats,
+} from '../mathematica/scheduler.ts';
+import {
+  initExecutionHistory,
+  shutdownExecutionHistory,
+} from '../mathematica/history.ts';
+import {
+  initOutputStore,
+  shutdownOutputStore,
+} from '../mathematica/output-store.ts';
+import {
+  getResultCacheStats,
+  initResultCache,
+  shutdownResultCache,
+  type ResultCacheStats,
+} from '../mathematica/result-cache.ts';
+import {
+  initSymbolDocs,
+  shutdownSymbolDocs,
+} from '../mathematica/docs.ts';
+import { getPreloadStatus } from '../mathematica/packages.ts';
+import type { PreloadStatus } from '../config/schema.ts';
 
 // Global references for cleanup
 let mcpServer: Server | null = null;
@@ -75,6 +114,9 @@ export async function startServer(): Promise<void> {
     // Set logger level from config
     logger.setLevel(config.LOG_LEVEL);
 
+    // Operator templates are added to the built-in prompts; an invalid file stops startup
+    await initPromptTemplates(config.PROMPTS_DIR);
+
     // Create MCP server instance
     logger.info('Creating MCP server...');
     mcpServer = await createMcpServer(config);
@@ -84,11 +126,14 @@ export async function startServer(): Promise<void> {
     serverState.mcpServerConnected = true;
 
     // Print server information
-    printServerInfo();
+    printServerInfo(config);
+
+    // Kernels are confined to the workspace roots from their first evaluation on
+    initWorkspace(config);
 
-    // Warm up Wolfram Kernel to ensure it's fully initialized
+    // Start the kernel pool and warm it up before accepting requests
     logger.info('Initializing Wolfram Kernel...');
-    const kernelReady = await warmupWolframKernel(config.WOLFRAM_SCRIPT_PATH);
+    const kernelReady = await warmupWolframKernel(config);
 
     if (!kernelReady) {
       throw new Error('Failed to initialize Wolfram Kernel');
@@ -97,6 +142,55 @@ export async function startServer(): Promise<void> {
     serverState.wolframKernelInitialized = true;
     logger.info('Wolfram Kernel initialized successfully');
 
+    // Sessions start their own kernels on demand
+    initSessionManager({
+      wolframPath: config.WOLFRAM_SCRIPT_PATH,
+      idleTtl: config.SESSION_IDLE_TTL,
+      maxPerClient: config.MAX_SESSIONS_PER_CLIENT,
+      maxTotal: config.MAX_SESSIONS,
+      processLimits: {
+        memoryMb: config.KERNEL_MEMORY_LIMIT_MB,
+        cgroupRoot: config.KERNEL_CGROUP,
+      },
+    });
+
+    // Bound concurrent evaluations so bursts queue instead of exhausting license seats
+    initScheduler({
+      maxConcurrent: config.MAX_CONCURRENT_EXECUTIONS,
+      poolSize: config.KERNEL_POOL_SIZE,
+      maxQueueSize: config.MAX_QUEUE_SIZE,
+      queueTimeout: config.QUEUE_TIMEOUT,
+    });
+
+    // Outputs over the inline limit are kept for paging through resources/read
+    initOutputStore({
+      inlineLimit: config.INLINE_OUTPUT_LIMIT,
+      retention: config.OUTPUT_RETENTION,
+      maxEntries: config.MAX_STORED_OUTPUTS,
+    });
+
+    // Executions are recorded as mma://history resources unless disabled
+    if (config.HISTORY_SIZE > 0) {
+      initExecutionHistory({ maxEntries: config.HISTORY_SIZE });
+    }
+
+    // Cached results and lookups are only valid for the kernel version that produced them
+    const kernelVersion = await getKernelVersion();
+
+    if (config.RESULT_CACHE_SIZE > 0) {
+      initResultCache({
+        maxEntries: config.RESULT_CACHE_SIZE,
+        ttl: config.RESULT_CACHE_TTL,
+        directory: config.RESULT_CACHE_DIR,
+        kernelVersion,
+      });
+    }
+
+    initSymbolDocs({
+      directory: config.DOCS_CACHE_DIR ?? join(tmpdir(), 'mathematica-mcp-docs'),
+      kernelVersion,
+    });
+
     // Start appropriate transport based on configuration
     if (config.MCP_TRANSPORT === 'http') {
       logger.info('Transport mode: HTTP/SSE');
@@ -174,6 +268,15 @@ export async function stopServer(): Promise<void> {
       mcpServer = null;
     }
 
+    // Reject queued calls, then stop session and pooled kernels
+    shutdownScheduler();
+    shutdownResultCache();
+    shutdownSymbolDocs();
+    shutdownOutputStore();
+    shutdownExecutionHistory();
+    await shutdownSessionManager();
+    await shutdownKernelPool();
+
     // Reset server state
     serverState = {
       wolframScriptAvailable: false,
@@ -219,6 +322,10 @@ export function getServerHealthStatus(): {
     mcpServerConnected: boolean;
     transportConnected: boolean;
   };
+  kernelPool: KernelPoolStats | null;
+  scheduler: SchedulerStats | null;
+  resultCache: ResultCacheStats | null;
+  preloadedPackages: PreloadStatus[] | null;
   error: string | null;
   uptime: number | null;
   startedAt: Date | null;
@@ -245,6 +352,8 @@ export function getServerHealthStatus(): {
     status = 'error';
   }
 
+  const preloaded = getPreloadStatus();
+
   return {
     status,
     checks: {
@@ -253,6 +362,10 @@ export function getServerHealthStatus(): {
       mcpServerConnected: serverState.mcpServerConnected,
       transportConnected: serverState.transportConnected,
     },
+    kernelPool: getKernelPoolStats(),
+    scheduler: getSchedulerStats(),
+    resultCache: getResultCacheStats(),
+    preloadedPackages: preloaded.length > 0 ? preloaded : null,
     error: serverState.initializationError,
     uptime: serverState.startedAt ? (Date.now() - serverState.startedAt.getTime()) / 1000 : null,
     startedAt: serverState.startedAt,
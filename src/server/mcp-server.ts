@@ -6,17 +6,95 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  type Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import type { EnvConfig } from '../config/schema.ts';
 import { checkWolframScriptInstallation } from '../mathematica/executor.ts';
+import { getPrompt, listPrompts } from '../prompts/prompts.ts';
+import {
+  DOCS_RESOURCE_TEMPLATE,
+  isDocsResource,
+  readDocsResource,
+} from '../resources/docs.ts';
+import {
+  HISTORY_LIST_RESOURCE_TEMPLATE,
+  HISTORY_RESOURCE_TEMPLATE,
+  isHistoryResource,
+  listHistoryResources,
+  readHistoryResource,
+} from '../resources/history.ts';
+import {
+  OUTPUT_RESOURCE_TEMPLATE,
+  isOutputResource,
+  listOutputResources,
+  readOutputResource,
+} from '../resources/outputs.ts';
+import { CHECK_SYNTAX_TOOL, handleCheckSyntax } from '../tools/check-syntax.ts';
+import { EXECUTE_FILE_TOOL, handleExecuteFile } from '../tools/execute-file.ts';
 import {
   EXECUTE_MATHEMATICA_TOOL,
   handleExecuteMathematica,
 } from '../tools/execute-mathematica.ts';
-import { WolframScriptNotFoundError } from '../utils/errors.ts';
+import { setClientLoggingLevel } from '../tools/output-forwarder.ts';
+import { handleLookupSymbol, LOOKUP_SYMBOL_TOOL } from '../tools/lookup-symbol.ts';
+import {
+  INSTALL_PACKAGE_TOOL,
+  LIST_PACKAGES_TOOL,
+  UNINSTALL_PACKAGE_TOOL,
+  handleInstallPackage,
+  handleListPackages,
+  handleUninstallPackage,
+  isPackageManagementAllowed,
+} from '../tools/packages.ts';
+import { handleSymbolicTool, SYMBOLIC_TOOLS } from '../tools/symbolic.ts';
+import {
+  CREATE_SESSION_TOOL,
+  LIST_SESSIONS_TOOL,
+  CLOSE_SESSION_TOOL,
+  handleCreateSession,
+  handleListSessions,
+  handleCloseSession,
+} from '../tools/sessions.ts';
+import {
+  ResourceNotFoundError,
+  WolframScriptNotFoundError,
+  formatErrorForMcp,
+} from '../utils/errors.ts';
 import { logger } from '../utils/logger.ts';
 
+/**
+ * JSON-RPC error code for unknown resources, as recommended by the MCP specification
+ */
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Resources returned per resources/list page
+ */
+const RESOURCE_PAGE_SIZE = 100;
+
+/**
+ * Convert an error from a resource or prompt handler into a JSON-RPC error
+ */
+function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+
+  const { message, ...data } = formatErrorForMcp(error);
+  const code = error instanceof ResourceNotFoundError ? RESOURCE_NOT_FOUND : ErrorCode.InvalidParams;
+
+  return new McpError(code, message, data);
+}
+
 /**
  * Create and initialize MCP server
  */
@@ -40,32 +118,79 @@ export async function createMcpServer(config: EnvConfig): Promise<Server> {
     {
       capabilities: {
         tools: {},
+        // Truncated outputs (mma://outputs/{id}) and execution history (mma://history/{id});
+        // clients are notified when executions are recorded
+        resources: { listChanged: true },
+        // Templates for common workflows, each producing an execute_mathematica call
+        prompts: {},
+        // Printed output is streamed to the client as notifications/message
+        logging: {},
       },
     }
   );
 
   logger.info('MCP server instance created');
 
+  // Replaces the SDK's handler: forwarded output goes out through each request,
+  // not Server.sendLoggingMessage, so the level is kept where the forwarder sees it
+  server.setRequestHandler(SetLevelRequestSchema, async (request, extra) => {
+    setClientLoggingLevel(extra, request.params.level);
+    logger.debug(`Client logging level set to ${request.params.level}`);
+    return {};
+  });
+
   // Register tools/list handler
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     logger.debug('Handling tools/list request');
 
-    return {
-      tools: [
-        EXECUTE_MATHEMATICA_TOOL,
-      ],
-    };
+    return { tools: listTools(config) };
   });
 
   // Register tools/call handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const toolName = request.params.name;
 
     logger.debug(`Handling tools/call request for: ${toolName}`);
 
     switch (toolName) {
       case 'execute_mathematica':
-        return await handleExecuteMathematica(request, config);
+        return await handleExecuteMathematica(request, config, extra);
+
+      case 'execute_file':
+        return await handleExecuteFile(request, config, extra);
+
+      case 'check_syntax':
+        return await handleCheckSyntax(request, config, extra);
+
+      case 'solve_equations':
+      case 'integrate':
+      case 'differentiate':
+      case 'simplify':
+      case 'series_expand':
+      case 'compute_limit':
+      case 'dsolve':
+        return await handleSymbolicTool(request, config, extra);
+
+      case 'lookup_symbol':
+        return await handleLookupSymbol(request, config, extra);
+
+      case 'list_packages':
+        return await handleListPackages(request, config, extra);
+
+      case 'install_package':
+        return await handleInstallPackage(request, config, extra);
+
+      case 'uninstall_package':
+        return await handleUninstallPackage(request, config, extra);
+
+      case 'create_session':
+        return await handleCreateSession(request, config, extra);
+
+      case 'list_sessions':
+        return await handleListSessions(request, config, extra);
+
+      case 'close_session':
+        return await handleCloseSession(request, config, extra);
 
       default:
         logger.error(`Unknown tool requested: ${toolName}`);
@@ -85,37 +210,138 @@ export async function createMcpServer(config: EnvConfig): Promise<Server> {
     }
   });
 
+  // Register resources/list handler
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    logger.debug('Handling resources/list request');
+
+    // The cursor is the offset of the page
+    const cursor = request.params?.cursor;
+    const offset = cursor === undefined ? 0 : Number(cursor);
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+
+    const resources = [...listOutputResources(extra), ...listHistoryResources(extra)];
+    const end = offset + RESOURCE_PAGE_SIZE;
+
+    return {
+      resources: resources.slice(offset, end),
+      ...(end < resources.length ? { nextCursor: String(end) } : {}),
+    };
+  });
+
+  // Register resources/templates/list handler
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    logger.debug('Handling resources/templates/list request');
+
+    return {
+      resourceTemplates: [
+        OUTPUT_RESOURCE_TEMPLATE,
+        HISTORY_RESOURCE_TEMPLATE,
+        HISTORY_LIST_RESOURCE_TEMPLATE,
+        DOCS_RESOURCE_TEMPLATE,
+      ],
+    };
+  });
+
+  // Register resources/read handler
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+
+    logger.debug(`Handling resources/read request for: ${uri}`);
+
+    try {
+      if (isOutputResource(uri)) {
+        return readOutputResource(uri, extra);
+      }
+
+      if (isHistoryResource(uri)) {
+        return readHistoryResource(uri, extra);
+      }
+
+      if (isDocsResource(uri)) {
+        return await readDocsResource(uri, extra);
+      }
+
+      throw new ResourceNotFoundError(uri);
+    } catch (error) {
+      logger.warn(`Failed to read resource ${uri}: ${formatErrorForMcp(error).message}`);
+      throw toMcpError(error);
+    }
+  });
+
+  // Register prompts/list handler
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    logger.debug('Handling prompts/list request');
+
+    return { prompts: listPrompts() };
+  });
+
+  // Register prompts/get handler
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    logger.debug(`Handling prompts/get request for: ${name}`);
+
+    try {
+      return getPrompt(name, args);
+    } catch (error) {
+      logger.warn(`Failed to get prompt ${name}: ${formatErrorForMcp(error).message}`);
+      throw toMcpError(error);
+    }
+  });
+
   logger.info('MCP server initialized successfully');
 
   return server;
 }
 
+/**
+ * Tools offered to clients; package installs only when package management is allowed
+ */
+function listTools(config: EnvConfig): Tool[] {
+  return [
+    EXECUTE_MATHEMATICA_TOOL,
+    EXECUTE_FILE_TOOL,
+    CHECK_SYNTAX_TOOL,
+    ...SYMBOLIC_TOOLS,
+    LOOKUP_SYMBOL_TOOL,
+    LIST_PACKAGES_TOOL,
+    ...(isPackageManagementAllowed(config) ? [INSTALL_PACKAGE_TOOL, UNINSTALL_PACKAGE_TOOL] : []),
+    CREATE_SESSION_TOOL,
+    LIST_SESSIONS_TOOL,
+    CLOSE_SESSION_TOOL,
+  ];
+}
+
 /**
  * Get server information for logging/debugging
  */
-export function getServerInfo(): {
+export function getServerInfo(config: EnvConfig): {
   name: string;
   version: string;
   tools: string[];
+  prompts: string[];
 } {
   return {
     name: 'mathematica-mcp-server',
     version: '1.0.0',
-    tools: [
-      EXECUTE_MATHEMATICA_TOOL.name,
-    ],
+    tools: listTools(config).map(tool => tool.name),
+    prompts: listPrompts().map(prompt => prompt.name),
   };
 }
 
 /**
  * Print server information
  */
-export function printServerInfo(): void {
-  const info = getServerInfo();
+export function printServerInfo(config: EnvConfig): void {
+  const info = getServerInfo(config);
 
   logger.info('=== MCP Server Information ===');
   logger.info(`Name: ${info.name}`);
   logger.info(`Version: ${info.version}`);
   logger.info(`Tools: ${info.tools.join(', ')}`);
+  logger.info(`Prompts: ${info.prompts.join(', ')}`);
   logger.info('==============================');
 }
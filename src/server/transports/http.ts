@@ -7,11 +7,13 @@ import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
 import type { EnvConfig } from '../../config/schema.ts';
 import {
+  createAuthInfo,
   validateBearerToken,
   createUnauthorizedResponse,
   logAuthAttempt,
   validateApiKeySecurity,
 } from '../../middleware/auth.ts';
+import { getResultCache } from '../../mathematica/result-cache.ts';
 import { logger } from '../../utils/logger.ts';
 import { getServerHealthStatus } from '../index.ts';
 
@@ -77,7 +79,10 @@ export async function startHttpTransport(
         try {
           // Delegate to the MCP transport's handleRequest
           // This handles the full MCP protocol (SSE streams, JSON-RPC, etc.)
-          return await transport.handleRequest(req);
+          // Handlers see the API key's fingerprint as the authenticated client
+          return await transport.handleRequest(req, {
+            authInfo: config.MCP_API_KEY ? createAuthInfo(req) : undefined,
+          });
         } catch (error) {
           logger.error('[HTTP] Error handling MCP request:', error);
 
@@ -126,6 +131,10 @@ export async function startHttpTransport(
             mcpServer: healthStatus.checks.mcpServerConnected,
             transport: healthStatus.checks.transportConnected,
           },
+          kernelPool: healthStatus.kernelPool,
+          scheduler: healthStatus.scheduler,
+          resultCache: healthStatus.resultCache,
+          preloadedPackages: healthStatus.preloadedPackages,
         };
 
         // Add error details if unhealthy
@@ -164,6 +173,79 @@ export async function startHttpTransport(
         );
       }
 
+      // Handle /cache endpoint (result cache administration, auth required)
+      // GET returns statistics, DELETE purges every entry
+      if (url.pathname === '/cache') {
+        if (!validateBearerToken(req, config.MCP_API_KEY)) {
+          logAuthAttempt(req, false);
+          return createUnauthorizedResponse('Invalid or missing bearer token');
+        }
+
+        logAuthAttempt(req, true);
+
+        const cache = getResultCache();
+
+        if (!cache) {
+          return new Response(
+            JSON.stringify({
+              error: 'NotFound',
+              message: 'Result cache is disabled (set RESULT_CACHE_SIZE to enable it)',
+              timestamp: new Date().toISOString(),
+            }),
+            {
+              status: 404,
+              headers: {
+                'Content-Type': 'application/json',
+              },
+            }
+          );
+        }
+
+        if (method === 'DELETE') {
+          const purged = await cache.purge();
+
+          return new Response(
+            JSON.stringify({
+              purged,
+              timestamp: new Date().toISOString(),
+            }),
+            {
+              status: 200,
+              headers: {
+                'Content-Type': 'application/json',
+              },
+            }
+          );
+        }
+
+        if (method === 'GET') {
+          return new Response(
+            JSON.stringify(cache.getStats(), null, 2),
+            {
+              status: 200,
+              headers: {
+                'Content-Type': 'application/json',
+              },
+            }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({
+            error: 'MethodNotAllowed',
+            message: `Method not allowed on /cache: ${method}`,
+            timestamp: new Date().toISOString(),
+          }),
+          {
+            status: 405,
+            headers: {
+              'Content-Type': 'application/json',
+              Allow: 'GET, DELETE',
+            },
+          }
+        );
+      }
+
       // Handle /info endpoint (server info, no auth required)
       if (url.pathname === '/info') {
         return new Response(
@@ -175,6 +257,7 @@ export async function startHttpTransport(
               mcp: '/mcp (GET for SSE stream, POST for JSON-RPC, DELETE for session termination)',
               health: '/health',
               info: '/info',
+              cache: '/cache (GET for result cache statistics, DELETE to purge; auth required)',
             },
             authentication: config.MCP_API_KEY ? 'bearer' : 'disabled',
             timestamp: new Date().toISOString(),
@@ -194,7 +277,7 @@ export async function startHttpTransport(
         JSON.stringify({
           error: 'NotFound',
           message: `Endpoint not found: ${url.pathname}`,
-          availableEndpoints: ['/health', '/info'],
+          availableEndpoints: ['/health', '/info', '/cache'],
           timestamp: new Date().toISOString(),
         }),
         {
@@ -0,0 +1,76 @@
+/**
+ * Syntax checking MCP tool.
+ * Handles check_syntax, which parses code without evaluating it.
+ */
+
+import type {
+  CallToolRequest,
+  CallToolResult,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { CheckSyntaxInputSchema, type EnvConfig } from '../config/schema.ts';
+import { checkSyntax } from '../mathematica/syntax.ts';
+import { formatErrorForMcp } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { getClientId, type ToolExtra } from './tool-context.ts';
+
+/**
+ * Tool definition for check_syntax
+ */
+export const CHECK_SYNTAX_TOOL: Tool = {
+  name: 'check_syntax',
+  description: 'Parse Mathematica code with the kernel\'s parser without evaluating it. Returns `valid`, the first syntax `error` (line and column counted from 1, character offset, offending token and a message) and the top-level `expressions` found before it, in InputForm. Use it to fix code before spending an evaluation; execute_mathematica with dry_run does the same.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      code: {
+        type: 'string',
+        description: 'Mathematica code to parse',
+      },
+    },
+    required: ['code'],
+  },
+};
+
+/**
+ * Handle check_syntax tool call
+ */
+export async function handleCheckSyntax(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const toolName = 'check_syntax';
+
+  try {
+    logger.info(`[${toolName}] Tool called`);
+
+    const input = CheckSyntaxInputSchema.parse(request.params.arguments);
+    const result = await checkSyntax(input.code, {
+      clientId: getClientId(extra),
+      priority: 'normal',
+      signal: extra?.signal,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error(`[${toolName}] Failed:`, error);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(formatErrorForMcp(error), null, 2),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Execute script file MCP tool.
+ * Handles execute_file, which runs a .m, .wl or .wls file from the workspace
+ * like execute_mathematica runs code.
+ */
+
+import { dirname } from 'node:path';
+import type {
+  CallToolRequest,
+  CallToolResult,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ExecuteFileInputSchema, type EnvConfig } from '../config/schema.ts';
+import { loadScriptFile } from '../mathematica/script-files.ts';
+import {
+  EXECUTE_MATHEMATICA_TOOL,
+  runMathematicaTool,
+  type MathematicaToolInput,
+} from './execute-mathematica.ts';
+import type { ToolExtra } from './tool-context.ts';
+
+/**
+ * Options of execute_mathematica that apply to script files as well
+ */
+const EVALUATION_PROPERTIES = Object.fromEntries(
+  Object.entries(EXECUTE_MATHEMATICA_TOOL.inputSchema.properties ?? {})
+    .filter(([name]) => name !== 'code' && name !== 'path')
+);
+
+/**
+ * Tool definition for execute_file
+ */
+export const EXECUTE_FILE_TOOL: Tool = {
+  name: 'execute_file',
+  description: 'Run a Mathematica script file (.m, .wl or .wls) from the workspace, as wolframscript -file would, and return the result of its last expression like execute_mathematica. The script sees its command line in $ScriptCommandLine (the file path followed by `arguments`), the `stdin` text in $ScriptInputString and its own path in $InputFileName. A leading #! line is ignored. All execute_mathematica options apply, with the same timeouts, limits, sandbox and errors.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'Script file inside the workspace; relative paths resolve against the default workspace root',
+      },
+      arguments: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        maxItems: 100,
+        description: 'Command-line arguments, e.g. ["--n", "10"]: $ScriptCommandLine is the file path followed by these',
+      },
+      stdin: {
+        type: 'string',
+        description: 'Text given to the script as standard input, available as $ScriptInputString',
+      },
+      path: {
+        type: 'string',
+        description: 'Working directory for the script (default: the directory of the file)',
+      },
+      ...EVALUATION_PROPERTIES,
+    },
+    required: ['file'],
+  },
+};
+
+/**
+ * Read the script file of a call and turn the call into an evaluation of its code
+ */
+function buildEvaluation(args: unknown): MathematicaToolInput {
+  const { file, arguments: scriptArguments, stdin, ...input } = ExecuteFileInputSchema.parse(args);
+  const script = loadScriptFile(file);
+
+  return {
+    ...input,
+    code: script.code,
+    path: input.path ?? dirname(script.path),
+    script: { file: script.path, arguments: scriptArguments, stdin },
+  };
+}
+
+/**
+ * Handle execute_file tool call.
+ * The file's code is evaluated and recorded in the history like an
+ * execute_mathematica call.
+ */
+export async function handleExecuteFile(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  return runMathematicaTool(
+    'execute_file',
+    () => buildEvaluation(request.params.arguments),
+    config,
+    extra
+  );
+}
@@ -8,30 +8,54 @@ import type {
   CallToolResult,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { ExecuteMathematicaInputSchema, type EnvConfig } from '../config/schema.ts';
+import {
+  ExecuteMathematicaInputSchema,
+  type EnvConfig,
+  type ExecuteMathematicaInput,
+  type ExecuteOptions,
+  type ExecutionResult,
+  type ScriptInvocation,
+} from '../config/schema.ts';
 import { executeWolframScript } from '../mathematica/executor.ts';
+import { getOutputStore } from '../mathematica/output-store.ts';
+import { getResultCache } from '../mathematica/result-cache.ts';
+import { OUTPUT_MIME_TYPES } from '../resources/outputs.ts';
+import { getScheduler } from '../mathematica/scheduler.ts';
+import { checkSyntax } from '../mathematica/syntax.ts';
 import { formatErrorForMcp } from '../utils/errors.ts';
 import { logger } from '../utils/logger.ts';
+import { recordExecution, type ExecutionRecord } from './history-recorder.ts';
+import { createOutputForwarder } from './output-forwarder.ts';
+import { createProgressReporter } from './progress.ts';
+import { getClientId, type ToolExtra } from './tool-context.ts';
 
 /**
  * Tool definition for execute_mathematica
  */
 export const EXECUTE_MATHEMATICA_TOOL: Tool = {
   name: 'execute_mathematica',
-  description: 'Execute Mathematica code and return results in various formats (text, LaTeX, or Mathematica syntax). Users should load packages themselves using Needs[] or Get[] in their code.',
+  description: 'Execute Mathematica code and return results in various formats (text, LaTeX, Mathematica syntax, MathML, HTML, JSON, or C/Fortran/Python/JavaScript code). Kernel messages such as Power::infy are returned separately in `messages`. Graphics results (plots, images, graphs) are also returned as PNG or SVG image content. Users should load packages themselves using Needs[] or Get[] in their code. Symbols denied by the server\'s sandbox policy (e.g. Run, DeleteFile) fail with SandboxViolationError. Outputs longer than the server\'s inline limit are cut to a preview and listed in `truncated`; read the full text in pages from the linked mma://outputs/{id} resource.',
   inputSchema: {
     type: 'object',
     properties: {
       code: {
         type: 'string',
-        description: 'Mathematica code to execute. Use Needs["Package`"] or Get["Package`"] to load packages.',
+        description: 'Mathematica code to execute. Use Needs["Package`"] or Get["Package`"] to load packages. Long computations can call ReportProgress[fraction, "message"] to send progress updates. Printed output (Print, Echo) is streamed as logging notifications while the code runs.',
       },
       format: {
         type: 'string',
-        enum: ['text', 'latex', 'mathematica'],
-        description: 'Output format: text (default), latex (TeXForm), or mathematica (InputForm)',
+        enum: ['text', 'latex', 'mathematica', 'mathml', 'html', 'json', 'c', 'fortran', 'python', 'javascript'],
+        description: 'Output format: text (default), latex (TeXForm), mathematica (InputForm), mathml, html (a div with block MathML), json, or code (c, fortran, python with NumPy, javascript). json returns lists as arrays, associations as objects, numbers as {"$type": "Integer"|"Real"|"Rational"|"Complex", ...} objects with exact digits in strings, and other expressions as {"$type": "Expression", "head", "args"} trees. The code formats translate powers, constants, common special functions and Piecewise, and fail with CodeGenerationError on anything else',
         default: 'text',
       },
+      formats: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: ['text', 'latex', 'mathematica', 'mathml', 'html', 'json', 'c', 'fortran', 'python', 'javascript'],
+        },
+        description: 'Several output formats at once, e.g. ["latex", "mathematica"]: the code is evaluated once and each rendering is returned in `outputs`; `content` holds the first. Use instead of format',
+      },
       timeout: {
         type: 'number',
         description: 'Execution timeout in seconds (1-86400, clamped to MAX_TIMEOUT)',
@@ -40,35 +64,231 @@ export const EXECUTE_MATHEMATICA_TOOL: Tool = {
       },
       path: {
         type: 'string',
-        description: 'Working directory for wolframscript execution',
+        description: 'Working directory for the evaluation. Must resolve inside the server\'s workspace roots; relative paths resolve against the default root, which is also used when omitted.',
+      },
+      session_id: {
+        type: 'string',
+        description: 'Evaluate in a session created with create_session, keeping definitions, Out[n] history and loaded packages across calls',
+      },
+      priority: {
+        type: 'string',
+        enum: ['high', 'normal', 'low'],
+        description: 'Queue priority when all evaluation slots are busy',
+        default: 'normal',
+      },
+      fail_on_messages: {
+        type: 'boolean',
+        description: 'Fail the call if the kernel issues any message (e.g. Power::infy)',
+        default: false,
+      },
+      quiet_messages: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Message names to suppress with Quiet, e.g. ["Power::infy", "Solve::svars"]',
+      },
+      message_limit: {
+        type: 'integer',
+        description: 'Times the same message is reported before General::stop suppresses it (default 3)',
+        minimum: 1,
+        maximum: 1000,
+      },
+      memory_limit: {
+        type: 'integer',
+        description: 'Memory the evaluation may allocate, in MB (clamped to the server maximum)',
+        minimum: 1,
+      },
+      cpu_limit: {
+        type: 'integer',
+        description: 'CPU seconds the evaluation may use (clamped to the server maximum)',
+        minimum: 1,
+      },
+      cells: {
+        type: 'boolean',
+        description: 'Evaluate each top-level expression separately, like notebook cells, and return `cells`: one {input, output, messages, timing} entry per expression, each formatted in the requested format',
+        default: false,
+      },
+      mathml_type: {
+        type: 'string',
+        enum: ['presentation', 'content'],
+        description: 'Kind of MathML for the mathml format: presentation (default, rendered by browsers) or content (semantic)',
+        default: 'presentation',
+      },
+      function_name: {
+        type: 'string',
+        description: 'With a code format, return a complete function definition with this name instead of a bare expression',
+      },
+      function_args: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Argument names of the function definition, in order (default: the free variables of the result, sorted)',
+      },
+      cache: {
+        type: 'boolean',
+        description: 'Serve a repeated deterministic computation from the server\'s result cache, if it has one. Code using random numbers, the clock, files, processes or the network, and session calls, are always evaluated. false forces a fresh evaluation. The result reports `cached`',
+        default: true,
+      },
+      cache_ttl: {
+        type: 'integer',
+        description: 'Seconds this result may be served from the cache (clamped to the server setting)',
+        minimum: 1,
+      },
+      image_format: {
+        type: 'string',
+        enum: ['png', 'svg', 'none'],
+        description: 'Format for graphics results (plots, images, graphs), which are returned as image content next to the text result; none returns text only. Defaults to the server setting.',
+      },
+      image_width: {
+        type: 'integer',
+        description: 'Image width in pixels (clamped to the server maximum)',
+        minimum: 16,
+        maximum: 8192,
+      },
+      image_resolution: {
+        type: 'integer',
+        description: 'PNG resolution in dpi',
+        minimum: 36,
+        maximum: 600,
+      },
+      continue_on_error: {
+        type: 'boolean',
+        description: 'In cells mode, keep evaluating after a cell is aborted, evaluates to $Failed or issues a message (default: stop there)',
+        default: false,
+      },
+      dry_run: {
+        type: 'boolean',
+        description: 'Only parse the code, without evaluating it, and return the check_syntax result: `valid`, the first syntax `error` with its line, column and token, and the top-level `expressions`',
+        default: false,
       },
     },
     required: ['code'],
   },
 };
 
+/**
+ * Combine a requested limit with the server maximum, where 0 means unlimited
+ */
+function clampLimit(requested: number | undefined, max: number): number {
+  if (requested === undefined) {
+    return max;
+  }
+  return max > 0 ? Math.min(requested, max) : requested;
+}
+
+/**
+ * Build the MCP response for a result. Images go into their own content blocks,
+ * and each truncated output gets a link to the resource with its full text.
+ */
+function toolResult(value: ExecutionResult): CallToolResult {
+  const { images = [], ...result } = value;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(result, null, 2),
+      },
+      ...images.map(image => ({
+        type: 'image' as const,
+        data: image.data,
+        mimeType: image.mimeType,
+      })),
+      ...(result.truncated ?? []).map(stored => ({
+        type: 'resource_link' as const,
+        uri: stored.uri,
+        name: stored.cell !== undefined ? `cell-${stored.cell}-${stored.format}-output` : `${stored.format}-output`,
+        description: `Full ${stored.format} output (${stored.length} characters), readable in pages until ${stored.expiresAt}`,
+        mimeType: OUTPUT_MIME_TYPES[stored.format],
+      })),
+    ],
+  };
+}
+
 /**
  * Handle execute_mathematica tool call
  */
 export async function handleExecuteMathematica(
   request: CallToolRequest,
-  config: EnvConfig
+  config: EnvConfig,
+  extra?: ToolExtra
 ): Promise<CallToolResult> {
-  const toolName = 'execute_mathematica';
+  return runMathematicaTool(
+    'execute_mathematica',
+    () => ExecuteMathematicaInputSchema.parse(request.params.arguments),
+    config,
+    extra
+  );
+}
+
+/**
+ * Evaluation requested by a tool; script files also say how they are invoked
+ */
+export type MathematicaToolInput = ExecuteMathematicaInput & { script?: ScriptInvocation };
+
+/**
+ * Evaluate code for a tool: through the result cache and the execution queue,
+ * with large outputs stored as resources and the call recorded in the history
+ * @param toolName - Tool being called, for logs and the history
+ * @param parseInput - Validates the tool arguments and returns the evaluation to run;
+ * validation errors are returned as tool errors like evaluation errors
+ * @param config - Server configuration
+ * @param extra - Request context from the SDK
+ */
+export async function runMathematicaTool(
+  toolName: string,
+  parseInput: () => MathematicaToolInput,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  // Only set when the caller sent a progressToken
+  const progress = createProgressReporter(extra, config.PROGRESS_INTERVAL);
+
+  // Set once the input is valid; the call is then recorded in the history however it ends
+  const startedAt = Date.now();
+  let call: Omit<ExecutionRecord, 'startedAt' | 'result' | 'error'> | undefined;
 
   try {
     logger.info(`[${toolName}] Tool called`);
 
     // Validate and parse input using Zod
-    const input = ExecuteMathematicaInputSchema.parse(request.params.arguments);
+    const input = parseInput();
 
     logger.debug(`[${toolName}] Input:`, {
       codeLength: input.code.length,
       format: input.format,
+      formats: input.formats,
       timeout: input.timeout,
       path: input.path,
+      sessionId: input.session_id,
+      priority: input.priority,
+      cells: input.cells,
+      dryRun: input.dry_run,
+      script: input.script?.file,
     });
 
+    // A dry run only parses the code, so it bypasses the cache and is not recorded in the history
+    if (input.dry_run) {
+      const check = await checkSyntax(input.code, {
+        clientId: getClientId(extra),
+        priority: input.priority,
+        signal: extra?.signal,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ dryRun: true, ...check }, null, 2),
+          },
+        ],
+      };
+    }
+
+    // With formats, the first one is the primary format shown in content
+    const formats = input.formats ? [...new Set(input.formats)] : undefined;
+    const format = formats?.[0] ?? input.format;
+
+    call = { tool: toolName, code: input.code, format, formats, sessionId: input.session_id };
+
     // Determine timeout (respect MAX_TIMEOUT)
     const timeout = Math.min(
       input.timeout ?? config.DEFAULT_TIMEOUT,
@@ -81,31 +301,101 @@ export async function handleExecuteMathematica(
       );
     }
 
-    // Execute Mathematica code
-    const result = await executeWolframScript(
-      input.code,
-      {
-        timeout,
-        format: input.format,
-        path: input.path,
-      },
-      config.WOLFRAM_SCRIPT_PATH
+    // Requested limits may only tighten the server's limits (0 = unlimited)
+    const memoryLimitMb = clampLimit(input.memory_limit, config.MAX_MEMORY_MB);
+    const cpuLimit = clampLimit(input.cpu_limit, config.MAX_CPU_SECONDS);
+
+    progress?.start();
+
+    const clientId = getClientId(extra);
+
+    // Graphics are exported as images unless turned off for the server or the call
+    const imageFormat = input.image_format ?? config.IMAGE_FORMAT;
+    const images = imageFormat !== 'none' && config.MAX_IMAGES > 0
+      ? {
+          format: imageFormat,
+          width: Math.min(input.image_width ?? config.IMAGE_WIDTH, config.MAX_IMAGE_WIDTH),
+          resolution: input.image_resolution ?? config.IMAGE_RESOLUTION,
+          maxBytes: config.MAX_IMAGE_BYTES,
+          maxCount: config.MAX_IMAGES,
+        }
+      : undefined;
+
+    const options: ExecuteOptions = {
+      timeout,
+      format,
+      formats,
+      path: input.path,
+      sessionId: input.session_id,
+      clientId,
+      // Aborted by the SDK when the client sends notifications/cancelled
+      signal: extra?.signal,
+      onProgress: progress
+        ? (fraction, message) => progress.report(fraction, message)
+        : undefined,
+      // Print/Echo lines are streamed as logging notifications while evaluating
+      onOutput: createOutputForwarder(extra),
+      failOnMessages: input.fail_on_messages,
+      quietMessages: input.quiet_messages,
+      messageLimit: input.message_limit,
+      memoryLimitMb,
+      cpuLimit,
+      maxOutputBytes: config.MAX_OUTPUT_BYTES,
+      cells: input.cells,
+      continueOnError: input.continue_on_error,
+      images,
+      mathmlType: input.mathml_type,
+      functionDefinition: input.function_name
+        ? { name: input.function_name, args: input.function_args }
+        : undefined,
+      script: input.script,
+    };
+
+    // Cache hits skip the queue; the key is null when the code must be evaluated
+    const cache = input.cache ? getResultCache() : null;
+    const cacheKey = cache?.keyFor(input.code, options) ?? null;
+
+    if (cache && cacheKey) {
+      const cached = await cache.get(cacheKey);
+
+      if (cached) {
+        logger.info(`[${toolName}] Served from the result cache`);
+        const result = getOutputStore().truncateResult({ ...cached, cached: true }, clientId);
+        recordExecution(extra, { ...call, startedAt, result });
+        return toolResult(result);
+      }
+    }
+
+    // Wait for a free evaluation slot, then execute Mathematica code.
+    // Session kernels already hold a slot of their own.
+    const { value, queue } = await getScheduler().run(
+      () => executeWolframScript(input.code, options),
+      { clientId, priority: input.priority, signal: extra?.signal, reserved: input.session_id !== undefined }
+    );
+
+    if (cache && cacheKey) {
+      await cache.set(cacheKey, value, input.cache_ttl);
+    }
+
+    logger.info(`[${toolName}] Execution successful (${value.executionTime}ms)`);
+
+    // Outputs over INLINE_OUTPUT_LIMIT are cut to a preview and stored as resources
+    const result = getOutputStore().truncateResult(
+      getResultCache() ? { ...value, cached: false, queue } : { ...value, queue },
+      clientId
     );
 
-    logger.info(`[${toolName}] Execution successful (${result.executionTime}ms)`);
+    recordExecution(extra, { ...call, startedAt, result });
 
     // Return MCP response
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+    return toolResult(result);
   } catch (error) {
     logger.error(`[${toolName}] Execution failed:`, error);
 
+    if (call) {
+      recordExecution(extra, { ...call, startedAt, error });
+    }
+
     // Format error for MCP response
     const errorResponse = formatErrorForMcp(error);
 
@@ -118,5 +408,7 @@ export async function handleExecuteMathematica(
       ],
       isError: true,
     };
+  } finally {
+    progress?.stop();
   }
 }
@@ -0,0 +1,77 @@
+/**
+ * Records tool executions in the execution history.
+ * The calling client is told about each new entry with
+ * notifications/resources/list_changed.
+ */
+
+import type { ExecutionResult, HistoryEntry, OutputFormat } from '../config/schema.ts';
+import { getExecutionHistory } from '../mathematica/history.ts';
+import { formatErrorForMcp, MathematicaMessageError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { getClientId, type ToolExtra } from './tool-context.ts';
+
+/**
+ * What a tool call ran and how it ended
+ */
+export interface ExecutionRecord {
+  tool: string;
+  code: string;
+  format: OutputFormat;
+  formats?: OutputFormat[];
+  sessionId?: string;
+  /** Epoch milliseconds when the call arrived */
+  startedAt: number;
+  /** Result as returned to the client, for successful calls */
+  result?: ExecutionResult;
+  /** Error the call failed with, for failed calls */
+  error?: unknown;
+}
+
+/**
+ * Add a tool call to the execution history, if history is enabled
+ * @param extra - Request handler extras, identifying the client and API key
+ * @param record - The call and its outcome
+ */
+export function recordExecution(extra: ToolExtra | undefined, record: ExecutionRecord): void {
+  const history = getExecutionHistory();
+
+  if (!history) {
+    return;
+  }
+
+  let outcome: Pick<HistoryEntry, 'status' | 'result' | 'images' | 'error' | 'messages'>;
+
+  if (record.result) {
+    // Image data would dwarf the rest of the entry; only the count is kept
+    const { images, ...result } = record.result;
+    outcome = {
+      status: 'ok',
+      result,
+      ...(images ? { images: images.length } : {}),
+      messages: result.messages ?? [],
+    };
+  } else {
+    const { error, message } = formatErrorForMcp(record.error);
+    outcome = {
+      status: 'error',
+      error: { error, message },
+      messages: record.error instanceof MathematicaMessageError ? record.error.messages : [],
+    };
+  }
+
+  history.record({
+    tool: record.tool,
+    code: record.code,
+    format: record.format,
+    ...(record.formats ? { formats: record.formats } : {}),
+    ...(record.sessionId ? { sessionId: record.sessionId } : {}),
+    clientId: getClientId(extra),
+    ...(extra?.authInfo ? { apiKey: extra.authInfo.clientId } : {}),
+    ...outcome,
+    executionTime: Date.now() - record.startedAt,
+  });
+
+  extra?.sendNotification({ method: 'notifications/resources/list_changed' }).catch(error => {
+    logger.debug('Failed to send resources/list_changed notification:', error);
+  });
+}
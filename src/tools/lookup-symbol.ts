@@ -0,0 +1,86 @@
+/**
+ * Symbol documentation MCP tool.
+ * Handles lookup_symbol, which documents built-ins and searches names in the local kernel.
+ */
+
+import type {
+  CallToolRequest,
+  CallToolResult,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { LookupSymbolInputSchema, type EnvConfig } from '../config/schema.ts';
+import { getSymbolDocs, isSymbolPattern } from '../mathematica/docs.ts';
+import { formatErrorForMcp } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { getClientId, type ToolExtra } from './tool-context.ts';
+
+/**
+ * Tool definition for lookup_symbol
+ */
+export const LOOKUP_SYMBOL_TOOL: Tool = {
+  name: 'lookup_symbol',
+  description: 'Look up a Wolfram Language symbol in the local kernel before using it: its usage message (argument order), attributes, options with their default values, related symbols and reference page. A pattern with * (any characters) or @ (lowercase letters), e.g. *Plot* or NDSolve*, lists the matching names instead. Also readable as the mma://docs/{symbol} resource.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Symbol name, e.g. NDSolve or System`ListPlot, or a pattern such as *Plot*',
+        minLength: 1,
+        maxLength: 200,
+      },
+      limit: {
+        type: 'integer',
+        description: 'Names returned by a pattern search (default 100)',
+        minimum: 1,
+        maximum: 1000,
+        default: 100,
+      },
+    },
+    required: ['symbol'],
+  },
+};
+
+/**
+ * Handle lookup_symbol tool call
+ */
+export async function handleLookupSymbol(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const toolName = 'lookup_symbol';
+
+  try {
+    logger.info(`[${toolName}] Tool called`);
+
+    const input = LookupSymbolInputSchema.parse(request.params.arguments);
+    const docs = getSymbolDocs();
+    const clientId = getClientId(extra);
+
+    const result = isSymbolPattern(input.symbol)
+      ? await docs.search(input.symbol, input.limit, clientId)
+      : await docs.lookup(input.symbol, clientId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error(`[${toolName}] Failed:`, error);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(formatErrorForMcp(error), null, 2),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
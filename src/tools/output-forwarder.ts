@@ -0,0 +1,93 @@
+/**
+ * Streams printed kernel output to the client while an evaluation runs.
+ * Each Print/Echo line is sent as an MCP logging notification (notifications/message),
+ * unless the client has raised its logging level above it with logging/setLevel.
+ */
+
+import { LoggingLevelSchema, type LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.ts';
+import { getClientId, type ToolExtra } from './tool-context.ts';
+
+/**
+ * Logger name attached to forwarded output
+ */
+const OUTPUT_LOGGER_NAME = 'mathematica';
+
+/**
+ * Maximum number of lines forwarded per tool call; the rest stays in the final result
+ */
+const MAX_FORWARDED_LINES = 1000;
+
+/**
+ * Logging level each client set with logging/setLevel, by client ID (see getClientId)
+ */
+const clientLevels = new Map<string, LoggingLevel>();
+
+/**
+ * Record the logging level a client set with logging/setLevel
+ * @param extra - Request handler extras of the logging/setLevel request
+ */
+export function setClientLoggingLevel(extra: ToolExtra, level: LoggingLevel): void {
+  clientLevels.set(getClientId(extra), level);
+}
+
+/**
+ * Whether the client of a request wants messages of a level
+ */
+function isLevelEnabled(extra: ToolExtra, level: LoggingLevel): boolean {
+  const minimum = clientLevels.get(getClientId(extra));
+  const severities = LoggingLevelSchema.options;
+
+  return !minimum || severities.indexOf(level) >= severities.indexOf(minimum);
+}
+
+/**
+ * Callback invoked for each line the kernel prints
+ */
+export type OutputForwarder = (line: string, stream: 'stdout' | 'stderr') => void;
+
+/**
+ * Create a callback that forwards printed lines as logging notifications
+ * @param extra - Request handler extras
+ * @returns Forwarder, or undefined if there is no request context
+ */
+export function createOutputForwarder(extra: ToolExtra | undefined): OutputForwarder | undefined {
+  if (!extra) {
+    return undefined;
+  }
+
+  let forwarded = 0;
+
+  // Sent through the request, so that HTTP clients get it on the request's stream
+  const send = (level: 'info' | 'warning', data: string) => {
+    if (!isLevelEnabled(extra, level)) {
+      return;
+    }
+
+    extra.sendNotification({
+      method: 'notifications/message',
+      params: {
+        level,
+        logger: OUTPUT_LOGGER_NAME,
+        data,
+      },
+    }).catch(error => {
+      logger.debug('Failed to send output notification:', error);
+    });
+  };
+
+  return (line, stream) => {
+    if (forwarded > MAX_FORWARDED_LINES) {
+      return;
+    }
+
+    forwarded++;
+
+    if (forwarded > MAX_FORWARDED_LINES) {
+      send('warning', `Further output suppressed after ${MAX_FORWARDED_LINES} lines`);
+      return;
+    }
+
+    send(stream === 'stdout' ? 'info' : 'warning', line);
+  };
+}
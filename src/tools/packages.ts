@@ -0,0 +1,199 @@
+/**
+ * Package management MCP tools.
+ * Handles list_packages, install_package and uninstall_package.
+ */
+
+import type {
+  CallToolRequest,
+  CallToolResult,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  InstallPackageInputSchema,
+  ListPackagesInputSchema,
+  UninstallPackageInputSchema,
+  type EnvConfig,
+} from '../config/schema.ts';
+import type { ScheduleOptions } from '../mathematica/scheduler.ts';
+import {
+  installPackage,
+  listPackages,
+  uninstallPackage,
+} from '../mathematica/packages.ts';
+import { formatErrorForMcp, PackageInstallError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { getClientId, type ToolExtra } from './tool-context.ts';
+
+/**
+ * Tool definition for list_packages
+ */
+export const LIST_PACKAGES_TOOL: Tool = {
+  name: 'list_packages',
+  description: 'List the packages the Mathematica kernels can load: installed paclets with their versions and contexts, and packages found on $Path. Also reports the preloaded packages and whether they loaded.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Only list packages whose name, context or location contains this text (case-insensitive)',
+      },
+    },
+  },
+};
+
+/**
+ * Tool definition for install_package
+ */
+export const INSTALL_PACKAGE_TOOL: Tool = {
+  name: 'install_package',
+  description: 'Install a package from the workspace: a .paclet file, a paclet directory (containing PacletInfo.wl or PacletInfo.m), or a package directory named after its context, which is copied to $UserBaseDirectory/Applications. Load it with Needs["Context`"] afterwards. Pooled kernels are restarted and cached results are dropped; open sessions keep their kernels.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Path of the .paclet file or package directory, inside the workspace',
+      },
+    },
+    required: ['path'],
+  },
+};
+
+/**
+ * Tool definition for uninstall_package
+ */
+export const UNINSTALL_PACKAGE_TOOL: Tool = {
+  name: 'uninstall_package',
+  description: 'Uninstall a paclet, or a package directory installed with install_package (other directories are left alone). Pooled kernels are restarted and cached results are dropped.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Paclet or package name, e.g. "MyPackage" (a trailing ` is allowed)',
+      },
+    },
+    required: ['name'],
+  },
+};
+
+/**
+ * Whether install_package and uninstall_package may be used. Installed packages
+ * are loaded by every kernel outside the sandbox, so unless ALLOW_PACKAGE_MANAGEMENT
+ * says otherwise this is only allowed when the sandbox is off anyway.
+ */
+export function isPackageManagementAllowed(config: EnvConfig): boolean {
+  return config.ALLOW_PACKAGE_MANAGEMENT ?? config.SANDBOX_POLICY === 'unrestricted';
+}
+
+/**
+ * Reject a package change when package management is disabled
+ * @throws {PackageInstallError} If it is disabled
+ */
+function assertPackageManagementAllowed(config: EnvConfig, name: string, action: 'install' | 'uninstall'): void {
+  if (!isPackageManagementAllowed(config)) {
+    throw new PackageInstallError(name, action, 'package management is disabled; set ALLOW_PACKAGE_MANAGEMENT=true to enable it');
+  }
+}
+
+/**
+ * Build a JSON text tool result
+ */
+function jsonResult(value: unknown, isError: boolean = false): CallToolResult {
+  const result: CallToolResult = {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+
+  if (isError) {
+    result.isError = true;
+  }
+
+  return result;
+}
+
+/**
+ * Queueing options of a package tool call
+ */
+function scheduleFor(extra?: ToolExtra): ScheduleOptions {
+  return {
+    clientId: getClientId(extra),
+    priority: 'normal',
+    signal: extra?.signal,
+  };
+}
+
+/**
+ * Handle list_packages tool call
+ */
+export async function handleListPackages(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const toolName = 'list_packages';
+
+  try {
+    logger.info(`[${toolName}] Tool called`);
+
+    const input = ListPackagesInputSchema.parse(request.params.arguments ?? {});
+    const list = await listPackages(input.query, scheduleFor(extra));
+
+    return jsonResult(list);
+  } catch (error) {
+    logger.error(`[${toolName}] Failed:`, error);
+    return jsonResult(formatErrorForMcp(error), true);
+  }
+}
+
+/**
+ * Handle install_package tool call
+ */
+export async function handleInstallPackage(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const toolName = 'install_package';
+
+  try {
+    logger.info(`[${toolName}] Tool called`);
+
+    const input = InstallPackageInputSchema.parse(request.params.arguments);
+    assertPackageManagementAllowed(config, input.path, 'install');
+    const installed = await installPackage(input.path, scheduleFor(extra));
+
+    return jsonResult(installed);
+  } catch (error) {
+    logger.error(`[${toolName}] Failed:`, error);
+    return jsonResult(formatErrorForMcp(error), true);
+  }
+}
+
+/**
+ * Handle uninstall_package tool call
+ */
+export async function handleUninstallPackage(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const toolName = 'uninstall_package';
+
+  try {
+    logger.info(`[${toolName}] Tool called`);
+
+    const input = UninstallPackageInputSchema.parse(request.params.arguments);
+    assertPackageManagementAllowed(config, input.name, 'uninstall');
+    const uninstalled = await uninstallPackage(input.name, scheduleFor(extra));
+
+    return jsonResult(uninstalled);
+  } catch (error) {
+    logger.error(`[${toolName}] Failed:`, error);
+    return jsonResult(formatErrorForMcp(error), true);
+  }
+}
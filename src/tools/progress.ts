@@ -0,0 +1,144 @@
+/**
+ * MCP progress notifications for long-running tool calls.
+ * Sends periodic heartbeats with the elapsed time, and forwards progress that the
+ * evaluated code reports itself through ReportProgress[fraction, message].
+ */
+
+import { logger } from '../utils/logger.ts';
+import type { ToolExtra } from './tool-context.ts';
+
+/**
+ * Minimum time between two notifications triggered by the code itself
+ */
+const MIN_REPORT_INTERVAL_MS = 250;
+
+/**
+ * Sends notifications/progress for one request.
+ *
+ * `progress` is always the elapsed time in seconds, so it increases with every
+ * notification as the protocol requires. Once the code reports a fraction, `total`
+ * is the projected total time, which makes progress/total equal that fraction.
+ */
+export class ProgressReporter {
+  private readonly extra: ToolExtra;
+  private readonly progressToken: string | number;
+  private readonly intervalMs: number;
+  private readonly startedAt = Date.now();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastProgress = -1;
+  private lastReportAt = 0;
+  private estimatedTotal: number | undefined;
+  private lastFraction: number | undefined;
+  private lastMessage: string | undefined;
+
+  constructor(extra: ToolExtra, progressToken: string | number, intervalMs: number) {
+    this.extra = extra;
+    this.progressToken = progressToken;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Start sending heartbeat notifications
+   */
+  public start(): void {
+    this.timer = setInterval(() => this.send(), this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Forward progress reported by the evaluated code
+   * @param fraction - Fraction of work done (clamped to 0..1)
+   * @param message - Optional description of the current step
+   */
+  public report(fraction: number, message?: string): void {
+    if (!Number.isFinite(fraction)) {
+      return;
+    }
+
+    const clamped = Math.min(Math.max(fraction, 0), 1);
+    const now = Date.now();
+
+    this.lastFraction = clamped;
+    if (message) {
+      this.lastMessage = message;
+    }
+
+    const elapsed = this.elapsedSeconds();
+    if (clamped > 0) {
+      this.estimatedTotal = elapsed / clamped;
+    }
+
+    // Throttle tight loops; the next heartbeat carries the latest state anyway
+    if (now - this.lastReportAt < MIN_REPORT_INTERVAL_MS && clamped < 1) {
+      return;
+    }
+
+    this.lastReportAt = now;
+    this.send();
+  }
+
+  /**
+   * Stop sending notifications
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private elapsedSeconds(): number {
+    return (Date.now() - this.startedAt) / 1000;
+  }
+
+  private send(): void {
+    const progress = this.elapsedSeconds();
+
+    if (progress <= this.lastProgress) {
+      return;
+    }
+
+    this.lastProgress = progress;
+
+    // Once the projection is overrun the total is unknown again, rather than 100%
+    const total = this.estimatedTotal !== undefined && this.estimatedTotal > progress
+      ? this.estimatedTotal
+      : undefined;
+
+    const elapsedText = `${progress.toFixed(1)}s elapsed`;
+    const message = this.lastFraction !== undefined
+      ? `${Math.round(this.lastFraction * 100)}%${this.lastMessage ? ` - ${this.lastMessage}` : ''} (${elapsedText})`
+      : `Evaluating... (${elapsedText})`;
+
+    this.extra.sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken: this.progressToken,
+        progress,
+        ...(total !== undefined ? { total } : {}),
+        message,
+      },
+    }).catch(error => {
+      logger.debug('Failed to send progress notification:', error);
+    });
+  }
+}
+
+/**
+ * Create a progress reporter if the caller asked for progress
+ * @param extra - Request handler extras
+ * @param intervalSec - Heartbeat interval in seconds
+ * @returns Reporter, or null if the request carries no progressToken
+ */
+export function createProgressReporter(
+  extra: ToolExtra | undefined,
+  intervalSec: number
+): ProgressReporter | null {
+  const progressToken = extra?._meta?.progressToken;
+
+  if (!extra || progressToken === undefined) {
+    return null;
+  }
+
+  return new ProgressReporter(extra, progressToken, intervalSec * 1000);
+}
@@ -0,0 +1,162 @@
+/**
+ * Session management MCP tools.
+ * Handles create_session, list_sessions and close_session.
+ */
+
+import type {
+  CallToolRequest,
+  CallToolResult,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  CloseSessionInputSchema,
+  CreateSessionInputSchema,
+  type EnvConfig,
+} from '../config/schema.ts';
+import { getSessionManager } from '../mathematica/sessions.ts';
+import { formatErrorForMcp } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { getClientId, type ToolExtra } from './tool-context.ts';
+
+/**
+ * Tool definition for create_session
+ */
+export const CREATE_SESSION_TOOL: Tool = {
+  name: 'create_session',
+  description: 'Create a stateful Mathematica session. Pass the returned session_id to execute_mathematica to keep definitions, Out[n] history and loaded packages across calls. Sessions expire when unused.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Optional human-readable label for the session',
+        maxLength: 100,
+      },
+    },
+  },
+};
+
+/**
+ * Tool definition for list_sessions
+ */
+export const LIST_SESSIONS_TOOL: Tool = {
+  name: 'list_sessions',
+  description: 'List the open Mathematica sessions of the calling client',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+/**
+ * Tool definition for close_session
+ */
+export const CLOSE_SESSION_TOOL: Tool = {
+  name: 'close_session',
+  description: 'Close a Mathematica session and discard its definitions',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      session_id: {
+        type: 'string',
+        description: 'Session to close',
+      },
+    },
+    required: ['session_id'],
+  },
+};
+
+/**
+ * Build a JSON text tool result
+ */
+function jsonResult(value: unknown, isError: boolean = false): CallToolResult {
+  const result: CallToolResult = {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+
+  if (isError) {
+    result.isError = true;
+  }
+
+  return result;
+}
+
+/**
+ * Handle create_session tool call
+ */
+export async function handleCreateSession(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const toolName = 'create_session';
+
+  try {
+    logger.info(`[${toolName}] Tool called`);
+
+    const input = CreateSessionInputSchema.parse(request.params.arguments ?? {});
+    const session = await getSessionManager().create(getClientId(extra), input.name);
+
+    logger.info(`[${toolName}] Session created: ${session.id}`);
+
+    return jsonResult(session);
+  } catch (error) {
+    logger.error(`[${toolName}] Failed:`, error);
+    return jsonResult(formatErrorForMcp(error), true);
+  }
+}
+
+/**
+ * Handle list_sessions tool call
+ */
+export async function handleListSessions(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const toolName = 'list_sessions';
+
+  try {
+    logger.info(`[${toolName}] Tool called`);
+
+    const sessions = getSessionManager().list(getClientId(extra));
+
+    return jsonResult({
+      sessions,
+      limit: config.MAX_SESSIONS_PER_CLIENT,
+    });
+  } catch (error) {
+    logger.error(`[${toolName}] Failed:`, error);
+    return jsonResult(formatErrorForMcp(error), true);
+  }
+}
+
+/**
+ * Handle close_session tool call
+ */
+export async function handleCloseSession(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const toolName = 'close_session';
+
+  try {
+    logger.info(`[${toolName}] Tool called`);
+
+    const input = CloseSessionInputSchema.parse(request.params.arguments);
+    const session = await getSessionManager().close(input.session_id, getClientId(extra));
+
+    logger.info(`[${toolName}] Session closed: ${session.id}`);
+
+    return jsonResult({ closed: true, session });
+  } catch (error) {
+    logger.error(`[${toolName}] Failed:`, error);
+    return jsonResult(formatErrorForMcp(error), true);
+  }
+}
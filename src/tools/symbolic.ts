@@ -0,0 +1,405 @@
+/**
+ * Symbolic computation MCP tools.
+ * Typed tools for common calculus tasks: solve_equations, integrate, differentiate,
+ * simplify, series_expand, compute_limit and dsolve. Each builds the Wolfram
+ * Language code from its arguments and evaluates it like execute_mathematica.
+ */
+
+import type {
+  CallToolRequest,
+  CallToolResult,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  ComputeLimitInputSchema,
+  DifferentiateInputSchema,
+  DsolveInputSchema,
+  ExecuteMathematicaInputSchema,
+  IntegrateInputSchema,
+  OutputFormatSchema,
+  SeriesExpandInputSchema,
+  SimplifyInputSchema,
+  SolveDomainSchema,
+  SolveEquationsInputSchema,
+  type EnvConfig,
+  type ExecuteMathematicaInput,
+  type SymbolicToolInput,
+} from '../config/schema.ts';
+import {
+  buildDifferentiateCode,
+  buildDsolveCode,
+  buildIntegrateCode,
+  buildLimitCode,
+  buildSeriesCode,
+  buildSimplifyCode,
+  buildSolveCode,
+} from '../mathematica/symbolic.ts';
+import { runMathematicaTool } from './execute-mathematica.ts';
+import type { ToolExtra } from './tool-context.ts';
+
+/**
+ * Argument schemas shared by the symbolic tools
+ */
+const EXPRESSION_TYPE = { type: 'string', minLength: 1 };
+const SYMBOL_TYPE = { type: 'string', pattern: '^[A-Za-z$][A-Za-z0-9$]*$' };
+
+const COMMON_PROPERTIES = {
+  format: {
+    type: 'string',
+    enum: OutputFormatSchema.options,
+    description: 'Output format of the result, as for execute_mathematica (default: text)',
+    default: 'text',
+  },
+  timeout: {
+    type: 'number',
+    description: 'Execution timeout in seconds (1-86400, clamped to MAX_TIMEOUT)',
+    minimum: 1,
+    maximum: 86400,
+  },
+  session_id: {
+    type: 'string',
+    description: 'Evaluate in a session created with create_session, so expressions can use its definitions',
+  },
+  assumptions: {
+    ...EXPRESSION_TYPE,
+    description: 'Assumptions on variables and parameters in Wolfram Language syntax, e.g. "a > 0 && Element[n, Integers]"',
+  },
+};
+
+/**
+ * Tool definition for solve_equations
+ */
+export const SOLVE_EQUATIONS_TOOL: Tool = {
+  name: 'solve_equations',
+  description: 'Solve equations and inequalities for the given variables with Solve, or NSolve when numeric. Returns the solutions as lists of rules.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      equations: {
+        type: 'array',
+        items: EXPRESSION_TYPE,
+        minItems: 1,
+        maxItems: 100,
+        description: 'Equations and inequalities in Wolfram Language syntax, using == for equality, e.g. ["x^2 + y^2 == 1", "x == y"]',
+      },
+      variables: {
+        type: 'array',
+        items: SYMBOL_TYPE,
+        minItems: 1,
+        maxItems: 100,
+        description: 'Variables to solve for, e.g. ["x", "y"]',
+      },
+      domain: {
+        type: 'string',
+        enum: SolveDomainSchema.options,
+        description: 'Domain of the variables (default: complexes)',
+      },
+      assumptions: {
+        ...COMMON_PROPERTIES.assumptions,
+        description: 'Further conditions on the variables, added to the equations, e.g. "x > 0"',
+      },
+      numeric: {
+        type: 'boolean',
+        description: 'Solve numerically with NSolve',
+        default: false,
+      },
+      format: COMMON_PROPERTIES.format,
+      timeout: COMMON_PROPERTIES.timeout,
+      session_id: COMMON_PROPERTIES.session_id,
+    },
+    required: ['equations', 'variables'],
+  },
+};
+
+/**
+ * Tool definition for integrate
+ */
+export const INTEGRATE_TOOL: Tool = {
+  name: 'integrate',
+  description: 'Compute an indefinite integral, or a definite integral when lower and upper are given, with Integrate. With numeric, compute the definite integral with NIntegrate.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      expression: {
+        ...EXPRESSION_TYPE,
+        description: 'Integrand in Wolfram Language syntax, e.g. "x^2 Sin[x]"',
+      },
+      variable: {
+        ...SYMBOL_TYPE,
+        description: 'Variable of integration',
+      },
+      lower: {
+        ...EXPRESSION_TYPE,
+        description: 'Lower bound, e.g. "0" or "-Infinity"; requires upper',
+      },
+      upper: {
+        ...EXPRESSION_TYPE,
+        description: 'Upper bound, e.g. "Pi" or "Infinity"; requires lower',
+      },
+      assumptions: COMMON_PROPERTIES.assumptions,
+      numeric: {
+        type: 'boolean',
+        description: 'Integrate numerically with NIntegrate; needs lower and upper, and ignores assumptions',
+        default: false,
+      },
+      format: COMMON_PROPERTIES.format,
+      timeout: COMMON_PROPERTIES.timeout,
+      session_id: COMMON_PROPERTIES.session_id,
+    },
+    required: ['expression', 'variable'],
+  },
+};
+
+/**
+ * Tool definition for differentiate
+ */
+export const DIFFERENTIATE_TOOL: Tool = {
+  name: 'differentiate',
+  description: 'Compute the derivative of an expression with D, of any order. With assumptions, the derivative is simplified under them.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      expression: {
+        ...EXPRESSION_TYPE,
+        description: 'Expression in Wolfram Language syntax, e.g. "Exp[a x] Cos[x]"',
+      },
+      variable: {
+        ...SYMBOL_TYPE,
+        description: 'Variable to differentiate with respect to',
+      },
+      order: {
+        type: 'integer',
+        description: 'Order of the derivative',
+        minimum: 1,
+        maximum: 100,
+        default: 1,
+      },
+      assumptions: COMMON_PROPERTIES.assumptions,
+      format: COMMON_PROPERTIES.format,
+      timeout: COMMON_PROPERTIES.timeout,
+      session_id: COMMON_PROPERTIES.session_id,
+    },
+    required: ['expression', 'variable'],
+  },
+};
+
+/**
+ * Tool definition for simplify
+ */
+export const SIMPLIFY_TOOL: Tool = {
+  name: 'simplify',
+  description: 'Simplify an expression with Simplify, or FullSimplify when full, optionally under assumptions.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      expression: {
+        ...EXPRESSION_TYPE,
+        description: 'Expression in Wolfram Language syntax, e.g. "Sqrt[x^2]"',
+      },
+      assumptions: COMMON_PROPERTIES.assumptions,
+      full: {
+        type: 'boolean',
+        description: 'Use FullSimplify, which tries more transformations, including special functions, and takes longer',
+        default: false,
+      },
+      format: COMMON_PROPERTIES.format,
+      timeout: COMMON_PROPERTIES.timeout,
+      session_id: COMMON_PROPERTIES.session_id,
+    },
+    required: ['expression'],
+  },
+};
+
+/**
+ * Tool definition for series_expand
+ */
+export const SERIES_EXPAND_TOOL: Tool = {
+  name: 'series_expand',
+  description: 'Expand an expression in a power series (Taylor, Laurent or Puiseux) around a point with Series.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      expression: {
+        ...EXPRESSION_TYPE,
+        description: 'Expression in Wolfram Language syntax, e.g. "Exp[x]/x"',
+      },
+      variable: {
+        ...SYMBOL_TYPE,
+        description: 'Expansion variable',
+      },
+      point: {
+        ...EXPRESSION_TYPE,
+        description: 'Expansion point, e.g. "0", "Pi/2" or "Infinity"',
+        default: '0',
+      },
+      order: {
+        type: 'integer',
+        description: 'Order of the expansion',
+        minimum: 0,
+        maximum: 100,
+        default: 5,
+      },
+      assumptions: COMMON_PROPERTIES.assumptions,
+      normal: {
+        type: 'boolean',
+        description: 'Drop the O[x]^n remainder term and return a plain expression',
+        default: false,
+      },
+      format: COMMON_PROPERTIES.format,
+      timeout: COMMON_PROPERTIES.timeout,
+      session_id: COMMON_PROPERTIES.session_id,
+    },
+    required: ['expression', 'variable'],
+  },
+};
+
+/**
+ * Tool definition for compute_limit
+ */
+export const COMPUTE_LIMIT_TOOL: Tool = {
+  name: 'compute_limit',
+  description: 'Compute the limit of an expression as a variable approaches a point with Limit, two-sided or from one side.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      expression: {
+        ...EXPRESSION_TYPE,
+        description: 'Expression in Wolfram Language syntax, e.g. "Sin[x]/x"',
+      },
+      variable: {
+        ...SYMBOL_TYPE,
+        description: 'Limit variable',
+      },
+      point: {
+        ...EXPRESSION_TYPE,
+        description: 'Point the variable approaches, e.g. "0" or "Infinity"',
+      },
+      direction: {
+        type: 'string',
+        enum: ['both', 'from_above', 'from_below'],
+        description: 'both (default) for a two-sided limit, from_above or from_below for a one-sided limit',
+        default: 'both',
+      },
+      assumptions: COMMON_PROPERTIES.assumptions,
+      format: COMMON_PROPERTIES.format,
+      timeout: COMMON_PROPERTIES.timeout,
+      session_id: COMMON_PROPERTIES.session_id,
+    },
+    required: ['expression', 'variable', 'point'],
+  },
+};
+
+/**
+ * Tool definition for dsolve
+ */
+export const DSOLVE_TOOL: Tool = {
+  name: 'dsolve',
+  description: 'Solve ordinary differential equations, with optional initial or boundary conditions, symbolically with DSolve. Returns the solutions as lists of rules for the functions applied to the variable.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      equations: {
+        type: 'array',
+        items: EXPRESSION_TYPE,
+        minItems: 1,
+        maxItems: 100,
+        description: 'Differential equations and conditions in Wolfram Language syntax, e.g. ["y\'\'[x] + y[x] == 0", "y[0] == 1", "y\'[0] == 0"]',
+      },
+      functions: {
+        type: 'array',
+        items: SYMBOL_TYPE,
+        minItems: 1,
+        maxItems: 100,
+        description: 'Unknown functions, e.g. ["y"]',
+      },
+      variable: {
+        ...SYMBOL_TYPE,
+        description: 'Independent variable, e.g. "x"',
+      },
+      format: COMMON_PROPERTIES.format,
+      timeout: COMMON_PROPERTIES.timeout,
+      session_id: COMMON_PROPERTIES.session_id,
+    },
+    required: ['equations', 'functions', 'variable'],
+  },
+};
+
+/**
+ * Tool definitions of the symbolic tools, in the order they are listed
+ */
+export const SYMBOLIC_TOOLS: Tool[] = [
+  SOLVE_EQUATIONS_TOOL,
+  INTEGRATE_TOOL,
+  DIFFERENTIATE_TOOL,
+  SIMPLIFY_TOOL,
+  SERIES_EXPAND_TOOL,
+  COMPUTE_LIMIT_TOOL,
+  DSOLVE_TOOL,
+];
+
+/**
+ * Validate the arguments of a symbolic tool and build the evaluation to run
+ * @throws {ZodError} If the arguments do not match the tool's schema
+ * @throws {InvalidExpressionError} If an expression has unbalanced delimiters
+ */
+function buildEvaluation(toolName: string, args: unknown): ExecuteMathematicaInput {
+  const evaluate = (input: SymbolicToolInput, code: string) => ExecuteMathematicaInputSchema.parse({
+    code,
+    format: input.format,
+    timeout: input.timeout,
+    session_id: input.session_id,
+  });
+
+  switch (toolName) {
+    case 'solve_equations': {
+      const input = SolveEquationsInputSchema.parse(args);
+      return evaluate(input, buildSolveCode(input));
+    }
+    case 'integrate': {
+      const input = IntegrateInputSchema.parse(args);
+      return evaluate(input, buildIntegrateCode(input));
+    }
+    case 'differentiate': {
+      const input = DifferentiateInputSchema.parse(args);
+      return evaluate(input, buildDifferentiateCode(input));
+    }
+    case 'simplify': {
+      const input = SimplifyInputSchema.parse(args);
+      return evaluate(input, buildSimplifyCode(input));
+    }
+    case 'series_expand': {
+      const input = SeriesExpandInputSchema.parse(args);
+      return evaluate(input, buildSeriesCode(input));
+    }
+    case 'compute_limit': {
+      const input = ComputeLimitInputSchema.parse(args);
+      return evaluate(input, buildLimitCode(input));
+    }
+    case 'dsolve': {
+      const input = DsolveInputSchema.parse(args);
+      return evaluate(input, buildDsolveCode(input));
+    }
+    default:
+      throw new Error(`Unknown symbolic tool: ${toolName}`);
+  }
+}
+
+/**
+ * Handle a call to one of the symbolic tools.
+ * The generated code is evaluated and recorded in the history like an
+ * execute_mathematica call, under the symbolic tool's name.
+ */
+export async function handleSymbolicTool(
+  request: CallToolRequest,
+  config: EnvConfig,
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const toolName = request.params.name;
+
+  return runMathematicaTool(
+    toolName,
+    () => buildEvaluation(toolName, request.params.arguments ?? {}),
+    config,
+    extra
+  );
+}
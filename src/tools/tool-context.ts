@@ -0,0 +1,24 @@
+/**
+ * Per-request context shared by tool handlers.
+ * Wraps the SDK's request handler extras (client identity, abort signal, notifications).
+ */
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Extra information the SDK passes to every request handler
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Client identifier used to scope per-client state such as sessions.
+ * Uses the MCP transport session when there is one, then the authenticated
+ * client, and falls back to a shared default (stdio and stateless HTTP).
+ */
+export function getClientId(extra?: ToolExtra): string {
+  return extra?.sessionId ?? extra?.authInfo?.clientId ?? 'default';
+}
@@ -3,10 +3,15 @@
  * Provides specific error types for different failure scenarios.
  */
 
+import type { KernelMessage } from '../config/schema.ts';
+
 /**
  * Base class for all Mathematica-related errors
  */
 export class MathematicaError extends Error {
+  /** Output printed before the evaluation failed, if any */
+  public partialOutput?: string;
+
   constructor(message: string) {
     super(message);
     this.name = 'MathematicaError';
@@ -28,6 +33,20 @@ export class MathematicaTimeoutError extends MathematicaError {
   }
 }
 
+/**
+ * Error thrown when a running or queued evaluation is cancelled by the client
+ */
+export class MathematicaCancelledError extends MathematicaError {
+  public readonly reason?: string;
+
+  constructor(reason?: string) {
+    super(reason ? `Execution cancelled: ${reason}` : 'Execution cancelled');
+    this.name = 'MathematicaCancelledError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, MathematicaCancelledError.prototype);
+  }
+}
+
 /**
  * Error thrown when Mathematica code execution fails
  */
@@ -42,6 +61,151 @@ export class MathematicaExecutionError extends MathematicaError {
   }
 }
 
+/**
+ * Error thrown when an evaluation exceeds its memory limit
+ */
+export class MathematicaMemoryLimitError extends MathematicaError {
+  /** Limit that was hit, in bytes */
+  public readonly limit: number;
+  /** Where the limit is enforced: MemoryConstrained in the kernel, or the OS on the process */
+  public readonly scope: 'kernel' | 'process';
+
+  constructor(limit: number, scope: 'kernel' | 'process') {
+    super(
+      scope === 'kernel'
+        ? `Evaluation exceeded memory limit of ${limit} bytes`
+        : `Kernel process exceeded memory limit of ${limit} bytes and was stopped`
+    );
+    this.name = 'MathematicaMemoryLimitError';
+    this.limit = limit;
+    this.scope = scope;
+    Object.setPrototypeOf(this, MathematicaMemoryLimitError.prototype);
+  }
+}
+
+/**
+ * Error thrown when an evaluation uses more CPU time than allowed
+ */
+export class MathematicaCpuLimitError extends MathematicaError {
+  /** Limit that was hit, in CPU seconds */
+  public readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Evaluation exceeded CPU limit of ${limit}s`);
+    this.name = 'MathematicaCpuLimitError';
+    this.limit = limit;
+    Object.setPrototypeOf(this, MathematicaCpuLimitError.prototype);
+  }
+}
+
+/**
+ * Error thrown when an evaluation produces more output than allowed
+ */
+export class MathematicaOutputLimitError extends MathematicaError {
+  /** Limit that was hit, in bytes */
+  public readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Evaluation exceeded output limit of ${limit} bytes`);
+    this.name = 'MathematicaOutputLimitError';
+    this.limit = limit;
+    Object.setPrototypeOf(this, MathematicaOutputLimitError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the kernel issues messages and the caller asked to fail on them
+ */
+export class MathematicaMessageError extends MathematicaError {
+  public readonly messages: KernelMessage[];
+
+  constructor(messages: KernelMessage[]) {
+    const first = messages[0];
+    const summary = first ? `${first.symbol}::${first.tag}: ${first.text}` : 'unknown message';
+    super(
+      messages.length > 1
+        ? `Kernel issued ${messages.length} messages, first: ${summary}`
+        : `Kernel issued a message: ${summary}`
+    );
+    this.name = 'MathematicaMessageError';
+    this.messages = messages;
+    Object.setPrototypeOf(this, MathematicaMessageError.prototype);
+  }
+}
+
+/**
+ * Error thrown when code uses a symbol or context the sandbox policy forbids
+ */
+export class SandboxViolationError extends MathematicaError {
+  /** Offending symbol or context */
+  public readonly symbol: string;
+  /** Name of the active policy preset */
+  public readonly policy: string;
+  /** Whether the code was rejected before evaluation or stopped while running */
+  public readonly stage: 'static' | 'runtime';
+
+  constructor(symbol: string, policy: string, stage: 'static' | 'runtime') {
+    super(
+      stage === 'static'
+        ? `Sandbox policy "${policy}" does not allow ${symbol}; the code was not evaluated`
+        : `Sandbox policy "${policy}" blocked a call to ${symbol} during evaluation`
+    );
+    this.name = 'SandboxViolationError';
+    this.symbol = symbol;
+    this.policy = policy;
+    this.stage = stage;
+    Object.setPrototypeOf(this, SandboxViolationError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a path lies outside the configured workspace roots
+ */
+export class PathNotAllowedError extends MathematicaError {
+  /** Path as requested */
+  public readonly path: string;
+  /** Workspace roots the path must be inside of */
+  public readonly roots: string[];
+
+  constructor(path: string, roots: string[]) {
+    super(`Path not allowed: ${path} is outside the workspace roots (${roots.join(', ')})`);
+    this.name = 'PathNotAllowedError';
+    this.path = path;
+    this.roots = roots;
+    Object.setPrototypeOf(this, PathNotAllowedError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a result cannot be translated into the requested code format
+ */
+export class CodeGenerationError extends MathematicaError {
+  /** Target language */
+  public readonly language: string;
+
+  constructor(language: string, reason: string) {
+    super(`Cannot generate ${language} code: ${reason}`);
+    this.name = 'CodeGenerationError';
+    this.language = language;
+    Object.setPrototypeOf(this, CodeGenerationError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a tool argument is not a self-contained Wolfram Language expression
+ */
+export class InvalidExpressionError extends MathematicaError {
+  /** Argument holding the expression */
+  public readonly argument: string;
+
+  constructor(argument: string, reason: string) {
+    super(`Invalid expression in ${argument}: ${reason}`);
+    this.name = 'InvalidExpressionError';
+    this.argument = argument;
+    Object.setPrototypeOf(this, InvalidExpressionError.prototype);
+  }
+}
+
 /**
  * Error thrown when WolframScript is not installed or accessible
  */
@@ -53,6 +217,163 @@ export class WolframScriptNotFoundError extends MathematicaError {
   }
 }
 
+/**
+ * Error thrown when a session does not exist or belongs to another client
+ */
+export class SessionNotFoundError extends MathematicaError {
+  public readonly sessionId: string;
+
+  constructor(sessionId: string) {
+    super(`Session not found: ${sessionId}. It may have expired or been closed.`);
+    this.name = 'SessionNotFoundError';
+    this.sessionId = sessionId;
+    Object.setPrototypeOf(this, SessionNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a resource does not exist, has expired or belongs to another client
+ */
+export class ResourceNotFoundError extends MathematicaError {
+  public readonly uri: string;
+
+  constructor(uri: string) {
+    super(`Resource not found: ${uri}. It may have expired.`);
+    this.name = 'ResourceNotFoundError';
+    this.uri = uri;
+    Object.setPrototypeOf(this, ResourceNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the kernel knows no symbol of the requested name
+ */
+export class SymbolNotFoundError extends MathematicaError {
+  public readonly symbol: string;
+
+  constructor(symbol: string) {
+    super(`Symbol not found: ${symbol}. Search with a pattern such as "*${symbol}*" to find similar names.`);
+    this.name = 'SymbolNotFoundError';
+    this.symbol = symbol;
+    Object.setPrototypeOf(this, SymbolNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when uninstalling a package that is neither a paclet nor an installed package directory
+ */
+export class PackageNotFoundError extends MathematicaError {
+  public readonly package: string;
+
+  constructor(name: string) {
+    super(`Package not found: ${name}. Use list_packages to see the installed packages.`);
+    this.name = 'PackageNotFoundError';
+    this.package = name;
+    Object.setPrototypeOf(this, PackageNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a package cannot be installed or uninstalled
+ */
+export class PackageInstallError extends MathematicaError {
+  /** .paclet file, package directory or package name */
+  public readonly package: string;
+
+  /** What failed: install or uninstall */
+  public readonly action: string;
+
+  constructor(name: string, action: 'install' | 'uninstall', reason: string) {
+    super(`Failed to ${action} ${name}: ${reason}`);
+    this.name = 'PackageInstallError';
+    this.package = name;
+    this.action = action;
+    Object.setPrototypeOf(this, PackageInstallError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a prompt is requested that no template defines
+ */
+export class PromptNotFoundError extends MathematicaError {
+  public readonly prompt: string;
+
+  constructor(prompt: string) {
+    super(`Prompt not found: ${prompt}`);
+    this.name = 'PromptNotFoundError';
+    this.prompt = prompt;
+    Object.setPrototypeOf(this, PromptNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a prompt argument is missing or cannot be inserted into the code
+ */
+export class PromptArgumentError extends MathematicaError {
+  public readonly prompt: string;
+  public readonly argument: string;
+
+  constructor(prompt: string, argument: string, reason: string) {
+    super(`Invalid argument ${argument} for prompt ${prompt}: ${reason}`);
+    this.name = 'PromptArgumentError';
+    this.prompt = prompt;
+    this.argument = argument;
+    Object.setPrototypeOf(this, PromptArgumentError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a client, or the server as a whole, already has the maximum number of sessions
+ */
+export class SessionLimitError extends MathematicaError {
+  public readonly limit: number;
+  public readonly scope: 'client' | 'server';
+
+  constructor(limit: number, scope: 'client' | 'server' = 'client') {
+    super(scope === 'client'
+      ? `Session limit reached: at most ${limit} sessions per client. Close a session first.`
+      : `Session limit reached: at most ${limit} sessions on this server. Retry later.`);
+    this.name = 'SessionLimitError';
+    this.limit = limit;
+    this.scope = scope;
+    Object.setPrototypeOf(this, SessionLimitError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the execution queue is full and a call cannot be accepted
+ */
+export class ServerBusyError extends MathematicaError {
+  public readonly queueDepth: number;
+  public readonly maxQueueSize: number;
+
+  constructor(queueDepth: number, maxQueueSize: number, message?: string) {
+    super(message ?? `Server busy: execution queue is full (${queueDepth}/${maxQueueSize}). Retry later.`);
+    this.name = 'ServerBusyError';
+    this.queueDepth = queueDepth;
+    this.maxQueueSize = maxQueueSize;
+    Object.setPrototypeOf(this, ServerBusyError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a queued call waits longer than the queue timeout
+ */
+export class QueueTimeoutError extends ServerBusyError {
+  public readonly waitTime: number;
+
+  constructor(waitTime: number, queueDepth: number, maxQueueSize: number) {
+    super(
+      queueDepth,
+      maxQueueSize,
+      `Server busy: call waited ${waitTime}ms in the execution queue without starting. Retry later.`
+    );
+    this.name = 'QueueTimeoutError';
+    this.waitTime = waitTime;
+    Object.setPrototypeOf(this, QueueTimeoutError.prototype);
+  }
+}
+
 /**
  * Base class for configuration-related errors
  */
@@ -79,6 +400,21 @@ export class EnvValidationError extends ConfigurationError {
   }
 }
 
+/**
+ * Error thrown when a prompt template file cannot be loaded
+ */
+export class PromptTemplateError extends ConfigurationError {
+  /** Template file */
+  public readonly file: string;
+
+  constructor(file: string, reason: string) {
+    super(`Invalid prompt template ${file}: ${reason}`);
+    this.name = 'PromptTemplateError';
+    this.file = file;
+    Object.setPrototypeOf(this, PromptTemplateError.prototype);
+  }
+}
+
 /**
  * Error thrown when authentication fails
  */